@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ReconciliationReport" (
+    "id" SERIAL NOT NULL,
+    "checkedCount" INTEGER NOT NULL DEFAULT 0,
+    "completedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "pendingCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationReport_startedAt_idx" ON "ReconciliationReport"("startedAt");
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "checkoutSessionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "CheckoutSession" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "provider" "PaymentProvider" NOT NULL,
+    "gatewayOrderId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "status" "OrderStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CheckoutSession_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: one checkout session per existing gateway order
+-- (cart orders created before this migration only linked their first order)
+INSERT INTO "CheckoutSession" ("userId", "provider", "gatewayOrderId", "amount", "currency", "status", "createdAt", "updatedAt")
+SELECT "userId", "provider", "gatewayOrderId", "amount" - COALESCE("discountAmount", 0), "currency", "status", "createdAt", "updatedAt"
+FROM "Order"
+WHERE "gatewayOrderId" IS NOT NULL;
+
+UPDATE "Order" o
+SET "checkoutSessionId" = cs."id"
+FROM "CheckoutSession" cs
+WHERE cs."gatewayOrderId" = o."gatewayOrderId";
+
+-- DropIndex
+DROP INDEX "Order_gatewayOrderId_key";
+
+-- AlterTable
+ALTER TABLE "Order" DROP COLUMN "gatewayOrderId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutSession_gatewayOrderId_key" ON "CheckoutSession"("gatewayOrderId");
+
+-- CreateIndex
+CREATE INDEX "CheckoutSession_userId_idx" ON "CheckoutSession"("userId");
+
+-- CreateIndex
+CREATE INDEX "CheckoutSession_status_createdAt_idx" ON "CheckoutSession"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Order_checkoutSessionId_idx" ON "Order"("checkoutSessionId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_checkoutSessionId_fkey" FOREIGN KEY ("checkoutSessionId") REFERENCES "CheckoutSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckoutSession" ADD CONSTRAINT "CheckoutSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
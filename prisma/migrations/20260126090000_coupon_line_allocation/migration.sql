@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "CheckoutSession" ADD COLUMN     "couponCode" TEXT,
+ADD COLUMN     "discountAmount" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "CouponUsage" ADD COLUMN     "checkoutSessionId" INTEGER,
+ALTER COLUMN "orderId" DROP NOT NULL;
+
+-- Backfill: link existing usages to their order's checkout
+UPDATE "CouponUsage" cu
+SET "checkoutSessionId" = o."checkoutSessionId"
+FROM "Order" o
+WHERE o."id" = cu."orderId";
+
+UPDATE "CheckoutSession" cs
+SET "couponCode" = o."couponCode", "discountAmount" = o."discountAmount"
+FROM "Order" o
+WHERE o."checkoutSessionId" = cs."id" AND o."couponCode" IS NOT NULL;
+
+-- Order.amount (and its Payment) now hold the NET amount charged
+UPDATE "Order"
+SET "amount" = "amount" - "discountAmount"
+WHERE "discountAmount" IS NOT NULL;
+
+UPDATE "Payment" p
+SET "amount" = o."amount"
+FROM "Order" o
+WHERE o."id" = p."orderId" AND o."discountAmount" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CouponUsage_checkoutSessionId_key" ON "CouponUsage"("checkoutSessionId");
+
+-- AddForeignKey
+ALTER TABLE "CouponUsage" ADD CONSTRAINT "CouponUsage_checkoutSessionId_fkey" FOREIGN KEY ("checkoutSessionId") REFERENCES "CheckoutSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Coupon" ADD COLUMN     "allowedEmails" TEXT[],
+ADD COLUMN     "firstPurchaseOnly" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "_CouponCourses" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_CouponCourses_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_CouponCategories" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_CouponCategories_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "_CouponCourses_B_index" ON "_CouponCourses"("B");
+
+-- CreateIndex
+CREATE INDEX "_CouponCategories_B_index" ON "_CouponCategories"("B");
+
+-- AddForeignKey
+ALTER TABLE "_CouponCourses" ADD CONSTRAINT "_CouponCourses_A_fkey" FOREIGN KEY ("A") REFERENCES "Coupon"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CouponCourses" ADD CONSTRAINT "_CouponCourses_B_fkey" FOREIGN KEY ("B") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CouponCategories" ADD CONSTRAINT "_CouponCategories_A_fkey" FOREIGN KEY ("A") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CouponCategories" ADD CONSTRAINT "_CouponCategories_B_fkey" FOREIGN KEY ("B") REFERENCES "Coupon"("id") ON DELETE CASCADE ON UPDATE CASCADE;
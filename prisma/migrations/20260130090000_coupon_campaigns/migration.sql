@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Coupon" ADD COLUMN     "campaignId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "CouponCampaign" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "codePrefix" TEXT,
+    "codeCount" INTEGER NOT NULL,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CouponCampaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CouponCampaign_name_key" ON "CouponCampaign"("name");
+
+-- CreateIndex
+CREATE INDEX "Coupon_campaignId_idx" ON "Coupon"("campaignId");
+
+-- AddForeignKey
+ALTER TABLE "Coupon" ADD CONSTRAINT "Coupon_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "CouponCampaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
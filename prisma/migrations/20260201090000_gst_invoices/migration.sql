@@ -0,0 +1,80 @@
+-- AlterTable
+ALTER TABLE "CheckoutSession" ADD COLUMN     "billingStateCode" TEXT,
+ADD COLUMN     "buyerGstin" TEXT;
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" SERIAL NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "buyerName" TEXT NOT NULL,
+    "buyerEmail" TEXT NOT NULL,
+    "buyerGstin" TEXT,
+    "placeOfSupply" TEXT NOT NULL,
+    "gstRate" DOUBLE PRECISION NOT NULL,
+    "taxableAmount" DOUBLE PRECISION NOT NULL,
+    "cgstAmount" DOUBLE PRECISION NOT NULL,
+    "sgstAmount" DOUBLE PRECISION NOT NULL,
+    "igstAmount" DOUBLE PRECISION NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditNote" (
+    "id" SERIAL NOT NULL,
+    "creditNoteNumber" TEXT NOT NULL,
+    "invoiceId" INTEGER NOT NULL,
+    "refundId" INTEGER NOT NULL,
+    "taxableAmount" DOUBLE PRECISION NOT NULL,
+    "cgstAmount" DOUBLE PRECISION NOT NULL,
+    "sgstAmount" DOUBLE PRECISION NOT NULL,
+    "igstAmount" DOUBLE PRECISION NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "series" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("series")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_invoiceNumber_key" ON "Invoice"("invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_orderId_key" ON "Invoice"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_userId_idx" ON "Invoice"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditNote_creditNoteNumber_key" ON "CreditNote"("creditNoteNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditNote_refundId_key" ON "CreditNote"("refundId");
+
+-- CreateIndex
+CREATE INDEX "CreditNote_invoiceId_idx" ON "CreditNote"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "Refund"("id") ON DELETE CASCADE ON UPDATE CASCADE;
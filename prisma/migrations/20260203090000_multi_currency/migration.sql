@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "preferredCurrency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "exchangeRate" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "CoursePrice" (
+    "id" SERIAL NOT NULL,
+    "courseId" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "originalPrice" DOUBLE PRECISION,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CoursePrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "currency" TEXT NOT NULL,
+    "baseRate" DOUBLE PRECISION NOT NULL,
+    "updatedById" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("currency")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CoursePrice_courseId_currency_key" ON "CoursePrice"("courseId", "currency");
+
+-- AddForeignKey
+ALTER TABLE "CoursePrice" ADD CONSTRAINT "CoursePrice_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
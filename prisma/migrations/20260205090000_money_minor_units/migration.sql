@@ -0,0 +1,47 @@
+-- Money is stored as integer minor units (paise / cents) from here on.
+-- Every existing amount is multiplied by 100 and rounded once.
+
+-- AlterTable
+ALTER TABLE "Course" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price" * 100)::INTEGER,
+ALTER COLUMN "originalPrice" SET DATA TYPE INTEGER USING ROUND("originalPrice" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "CoursePrice" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price" * 100)::INTEGER,
+ALTER COLUMN "originalPrice" SET DATA TYPE INTEGER USING ROUND("originalPrice" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER,
+ALTER COLUMN "discountAmount" SET DATA TYPE INTEGER USING ROUND("discountAmount" * 100)::INTEGER,
+ALTER COLUMN "originalPrice" SET DATA TYPE INTEGER USING ROUND("originalPrice" * 100)::INTEGER,
+ALTER COLUMN "refundedAmount" SET DATA TYPE INTEGER USING ROUND("refundedAmount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "CheckoutSession" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER,
+ALTER COLUMN "discountAmount" SET DATA TYPE INTEGER USING ROUND("discountAmount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "Refund" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "Invoice" ALTER COLUMN "taxableAmount" SET DATA TYPE INTEGER USING ROUND("taxableAmount" * 100)::INTEGER,
+ALTER COLUMN "cgstAmount" SET DATA TYPE INTEGER USING ROUND("cgstAmount" * 100)::INTEGER,
+ALTER COLUMN "sgstAmount" SET DATA TYPE INTEGER USING ROUND("sgstAmount" * 100)::INTEGER,
+ALTER COLUMN "igstAmount" SET DATA TYPE INTEGER USING ROUND("igstAmount" * 100)::INTEGER,
+ALTER COLUMN "totalAmount" SET DATA TYPE INTEGER USING ROUND("totalAmount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "CreditNote" ALTER COLUMN "taxableAmount" SET DATA TYPE INTEGER USING ROUND("taxableAmount" * 100)::INTEGER,
+ALTER COLUMN "cgstAmount" SET DATA TYPE INTEGER USING ROUND("cgstAmount" * 100)::INTEGER,
+ALTER COLUMN "sgstAmount" SET DATA TYPE INTEGER USING ROUND("sgstAmount" * 100)::INTEGER,
+ALTER COLUMN "igstAmount" SET DATA TYPE INTEGER USING ROUND("igstAmount" * 100)::INTEGER,
+ALTER COLUMN "totalAmount" SET DATA TYPE INTEGER USING ROUND("totalAmount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "Coupon" ALTER COLUMN "maxDiscountAmount" SET DATA TYPE INTEGER USING ROUND("maxDiscountAmount" * 100)::INTEGER,
+ALTER COLUMN "minOrderAmount" SET DATA TYPE INTEGER USING ROUND("minOrderAmount" * 100)::INTEGER;
+
+-- Fixed coupon values are money too (percentages stay as they are)
+UPDATE "Coupon" SET "discountValue" = ROUND("discountValue" * 100) WHERE "discountType" = 'FIXED';
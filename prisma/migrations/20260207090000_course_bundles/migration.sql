@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "bundleId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Bundle" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "thumbnail" TEXT NOT NULL,
+    "status" "CourseStatus" NOT NULL DEFAULT 'DRAFT',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Bundle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_BundleCourses" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_BundleCourses_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Bundle_title_key" ON "Bundle"("title");
+
+-- CreateIndex
+CREATE INDEX "Bundle_status_createdAt_idx" ON "Bundle"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Order_bundleId_idx" ON "Order"("bundleId");
+
+-- CreateIndex
+CREATE INDEX "_BundleCourses_B_index" ON "_BundleCourses"("B");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BundleCourses" ADD CONSTRAINT "_BundleCourses_A_fkey" FOREIGN KEY ("A") REFERENCES "Bundle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BundleCourses" ADD CONSTRAINT "_BundleCourses_B_fkey" FOREIGN KEY ("B") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
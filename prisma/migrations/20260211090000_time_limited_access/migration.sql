@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN     "accessDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Enrollment" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "expiryReminderSentAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "isRenewal" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Enrollment_expiresAt_idx" ON "Enrollment"("expiresAt");
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "GiftStatus" AS ENUM ('AWAITING_PAYMENT', 'SENT', 'REDEEMED', 'REVOKED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "isGift" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Gift" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "purchaserId" INTEGER NOT NULL,
+    "recipientEmail" TEXT NOT NULL,
+    "recipientName" TEXT,
+    "message" TEXT,
+    "status" "GiftStatus" NOT NULL DEFAULT 'AWAITING_PAYMENT',
+    "redeemedById" INTEGER,
+    "redeemedAt" TIMESTAMP(3),
+    "emailedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Gift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Gift_code_key" ON "Gift"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Gift_orderId_key" ON "Gift"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Gift_recipientEmail_status_idx" ON "Gift"("recipientEmail", "status");
+
+-- CreateIndex
+CREATE INDEX "Gift_purchaserId_idx" ON "Gift"("purchaserId");
+
+-- AddForeignKey
+ALTER TABLE "Gift" ADD CONSTRAINT "Gift_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Gift" ADD CONSTRAINT "Gift_purchaserId_fkey" FOREIGN KEY ("purchaserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Gift" ADD CONSTRAINT "Gift_redeemedById_fkey" FOREIGN KEY ("redeemedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "CartReminder" (
+    "id" SERIAL NOT NULL,
+    "cartId" INTEGER NOT NULL,
+    "reminderNumber" INTEGER NOT NULL,
+    "couponId" INTEGER,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recoveredAt" TIMESTAMP(3),
+    "recoveredAmount" INTEGER,
+
+    CONSTRAINT "CartReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CartReminder_cartId_sentAt_idx" ON "CartReminder"("cartId", "sentAt");
+
+-- CreateIndex
+CREATE INDEX "CartReminder_recoveredAt_idx" ON "CartReminder"("recoveredAt");
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "Cart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartReminder" ADD CONSTRAINT "CartReminder_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE SET NULL ON UPDATE CASCADE;
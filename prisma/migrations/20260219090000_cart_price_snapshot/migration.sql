@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN "priceAtAdd" INTEGER;
+
+-- Existing cart items start from the current course price
+UPDATE "CartItem" SET "priceAtAdd" = "Course"."price"
+FROM "Course"
+WHERE "CartItem"."courseId" = "Course"."id";
+
+-- AlterTable
+ALTER TABLE "CartItem" ALTER COLUMN "priceAtAdd" SET NOT NULL;
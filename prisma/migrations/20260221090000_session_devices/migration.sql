@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "deviceName" TEXT,
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "userAgent" TEXT;
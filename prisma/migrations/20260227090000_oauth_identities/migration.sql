@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "OAuthProvider" AS ENUM ('GOOGLE');
+
+-- CreateTable
+CREATE TABLE "OAuthIdentity" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "provider" "OAuthProvider" NOT NULL,
+    "providerUserId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastLoginAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OAuthIdentity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OAuthIdentity_userId_idx" ON "OAuthIdentity"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OAuthIdentity_provider_providerUserId_key" ON "OAuthIdentity"("provider", "providerUserId");
+
+-- AddForeignKey
+ALTER TABLE "OAuthIdentity" ADD CONSTRAINT "OAuthIdentity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -17,4 +17,13 @@ export const COMPANY = {
         instagram: "https://www.instagram.com/mufti_saeed_majadari",
     },
     logo: "https://msmajadari.xyz/logo.png", // Full URL for email templates
+    // Seller details printed on GST invoices and credit notes
+    gst: {
+        legalName: process.env.COMPANY_LEGAL_NAME || "MS Majdari",
+        gstin: process.env.COMPANY_GSTIN || "",
+        stateCode: process.env.COMPANY_GST_STATE_CODE || "27", // decides intra-state (CGST+SGST) vs IGST
+        address: process.env.COMPANY_GST_ADDRESS || "",
+        sacCode: "999293", // Commercial training and coaching services
+        rate: Number(process.env.GST_RATE || 18), // percent, prices are GST inclusive
+    },
 };
@@ -1,32 +1,83 @@
 
 
 import { Request, Response } from "express";
+import { User } from "@prisma/client";
 import asyncHandler from "../utils/async_handler.utils";
 import { ApiError } from "../utils/api_error.utils";
-import { ChangePasswordDTO, ForgotPasswordDTO, ForgotPasswordResetDTO, LoginDTO, RegisterDTO } from "../dtos/auth.dtos";
+import { ChangePasswordDTO, ForgotPasswordDTO, ForgotPasswordResetDTO, LoginDTO, LoginTwoFactorDTO, OAuthCallbackDTO, RegisterDTO } from "../dtos/auth.dtos";
 import { prisma } from "../prisma";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import { accountVerificationTemplate } from "../template/account-verification.template";
 import { redis } from '../config/redis.config';
+import { logger } from "../config/logger.config";
 import { sendMail } from "../utils/send_mail.utils";
 import { accountVerificationSuccessTemplate } from "../template/verification-success.templte";
-import { JWTPayload, EmailVerificationPayload, ForgotPasswordPayload } from "../global.types";
+import { JWTPayload, EmailVerificationPayload, ForgotPasswordPayload, RefreshTokenPayload } from "../global.types";
 import { forgotPasswordTemplate } from "../template/forgot-password.template";
-import { createSession, invalidateSession, invalidateAllSessions, validateSession, updateSessionActivity } from "../services/session.service";
+import { createSession, invalidateSession, invalidateAllSessions, validateSession, updateSessionActivity, issueRefreshTokenId, rotateRefreshTokenId } from "../services/session.service";
+import { redeemPendingGifts } from "../services/gift.service";
+import { completeLoginChallenge, createLoginChallenge } from "../services/two-factor.service";
+import { INVALID_CREDENTIALS_MESSAGE, assertLoginAllowed, clearLoginFailures, recordLoginFailure, unlockAccount, verifyLoginPassword } from "../services/login-protection.service";
+import { completeOAuthAuthorization, createOAuthAuthorization } from "../services/oauth/oauth.service";
+import { getEnabledOAuthProviders } from "../services/oauth/oauth.factory";
+
+// Session + token pair for a user who passed every login check
+// twoFactor marks tokens issued after a verified second factor (required for admin routes)
+const startLoginSession = async (req: Request, res: Response, user: User, twoFactor: boolean) => {
+    // create session (logs out the oldest devices over the limit)
+    const sessionId = await createSession(user.id, user.role, { userAgent: req.get('user-agent'), ipAddress: req.ip });
+    const refreshTokenId = await issueRefreshTokenId(sessionId);
+
+    // enroll in courses gifted to this email
+    const redeemedGifts = await redeemPendingGifts(user.id, user.email);
+
+    // generate tokens with session id
+    const accessToken = jwt.sign(
+        { id: user.id, email: user.email, role: user.role, sessionId, twoFactor },
+        process.env.ACCESS_TOKEN_SECRET as string,
+        { expiresIn: '30m' }
+    );
+
+    const refreshToken = jwt.sign(
+        { id: user.id, email: user.email, role: user.role, sessionId, twoFactor },
+        process.env.REFRESH_TOKEN_SECRET as string,
+        { expiresIn: '7d', jwtid: refreshTokenId }
+    );
+
+    // send refresh token as cookie
+    res.cookie("refreshToken", refreshToken, {
+        httpOnly: true,
+        secure: true,
+        maxAge: 7 * 24 * 60 * 60 * 1000
+    });
+
+    // Prepare safe user object (exclude password)
+    const userData = {
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        role: user.role,
+        twoFactorEnabled: user.twoFactorEnabled
+    };
+
+    return { token: accessToken, user: userData, redeemedGifts };
+};
+
+// Same answer whether or not the email already has an account (no account enumeration)
+const REGISTER_RESPONSE_MESSAGE = 'If this email can be registered, a verification link has been sent to it';
 
 export const register = asyncHandler(async (req: Request<{}, {}, RegisterDTO>, res: Response) => {
     const { firstName, lastName, email, password } = req.body;
-    // step 1 : check if user already exists
+    // step 1 : hash password (before the lookup, so both outcomes take as long)
+    const hashedPassword = await bcrypt.hash(password, 10);
+    // step 2 : an existing account (verified or not) gets the same response - the owner
+    // can log in, reset the password or resend the verification email
     const existingUser = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
-    if (existingUser && existingUser.isActive) {
-        throw new ApiError(400, 'Email already exists');
+    if (existingUser) {
+        return res.success(REGISTER_RESPONSE_MESSAGE, 201);
     }
-    if (existingUser && !existingUser.isActive) {
-        throw new ApiError(400, 'Please verify your email to activate your account. Check your inbox for verification email');
-    }
-    // step 2 : hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
     // step 2.1 : prepare user data
     const userData = {
         firstName: firstName.toLowerCase(),
@@ -42,15 +93,15 @@ export const register = asyncHandler(async (req: Request<{}, {}, RegisterDTO>, r
     // step 5 : main verification url
     const verificationLink = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
     // step 6 : generate email template
-    const emailTemplate = accountVerificationTemplate({ firstName: user.firstName, verificationLink })    // step 8 : send email
-    try {
-        await sendMail(user.email, 'Account Verification', emailTemplate);
-    } catch (error) {
-        // if email fails to send, delete user
-        await prisma.user.delete({ where: { id: user.id } });
-        throw new ApiError(500, 'Failed to send verification email. Please try again later');
-    }
-    res.success('User registered successfully', 201);
+    const emailTemplate = accountVerificationTemplate({ firstName: user.firstName, verificationLink })
+    // step 7 : send email in the background - waiting for it would make a new account
+    // answer noticeably slower than an existing one
+    sendMail(user.email, 'Account Verification', emailTemplate).catch(async (error: any) => {
+        // if email fails to send, delete user so the email can register again
+        logger.error(`[Auth] Verification email failed for User:${user.id}, removing the account: ${error.message}`);
+        await prisma.user.delete({ where: { id: user.id } }).catch(() => undefined);
+    });
+    res.success(REGISTER_RESPONSE_MESSAGE, 201);
 });
 
 export const verifyEmail = asyncHandler(async (req: Request<{ token: string }, {}, { token: string }>, res: Response) => {
@@ -77,6 +128,8 @@ export const verifyEmail = asyncHandler(async (req: Request<{ token: string }, {
     }
     // step 3 : update user's isEmailVerified to true
     await prisma.user.update({ where: { email: user.email }, data: { isActive: true } });
+    // courses gifted to this email before the account existed
+    await redeemPendingGifts(user.id, user.email);
     // generate account verified email template 
     const emailTemplate = accountVerificationSuccessTemplate(user.firstName)
     // send account verified email
@@ -86,11 +139,28 @@ export const verifyEmail = asyncHandler(async (req: Request<{ token: string }, {
 
 export const login = asyncHandler(async (req: Request<{}, {}, LoginDTO>, res: Response) => {
     const { email, password } = req.body;
+    const normalizedEmail = email.toLowerCase();
+    const ip = req.ip || 'unknown';
+
+    // step 0 : refuse while this account or IP is backing off after failed attempts
+    await assertLoginAllowed(normalizedEmail, ip);
+
     // step 1 : find user by email
-    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
-    if (!user) {
-        throw new ApiError(404, 'User not found');
+    const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+
+    // step 2 : compare password
+    // unknown email and wrong password look exactly the same to the caller
+    const isPasswordValid = await verifyLoginPassword(password, user?.password);
+    if (!user || !isPasswordValid) {
+        await recordLoginFailure(normalizedEmail, ip, user);
+        throw new ApiError(401, INVALID_CREDENTIALS_MESSAGE);
+    }
+    // with 2FA on, the account starts over only once the code is right too
+    if (!user.twoFactorEnabled) {
+        await clearLoginFailures(normalizedEmail);
     }
+
+    // account state is only revealed to someone who knows the password
     // check if user is active
     if (!user.isActive) {
         throw new ApiError(403, 'Please verify your email to activate your account');
@@ -101,46 +171,95 @@ export const login = asyncHandler(async (req: Request<{}, {}, LoginDTO>, res: Re
         throw new ApiError(403, 'Your account has been blocked by the administrator. Please contact support.');
     }
 
-    // step 2 : compare password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
-        throw new ApiError(401, 'Invalid password');
+    // step 3 : with 2FA on, tokens are only issued by the second step (loginTwoFactor)
+    if (user.twoFactorEnabled) {
+        const challengeToken = await createLoginChallenge(user.id);
+        return res.success('Enter the code from your authenticator app', { twoFactorRequired: true, challengeToken });
     }
 
-    // step 3 : create session
-    const sessionId = await createSession(user.id);
+    // step 4 : create session and tokens
+    const loginData = await startLoginSession(req, res, user, false);
 
-    // step 4 : generate tokens with session id
-    const accessToken = jwt.sign(
-        { id: user.id, email: user.email, role: user.role, sessionId },
-        process.env.ACCESS_TOKEN_SECRET as string,
-        { expiresIn: '30m' }
-    );
+    // admins cannot use admin routes until they set up 2FA
+    res.success(`Welcome ${user.firstName}`, { ...loginData, twoFactorSetupRequired: user.role === 'ADMIN' });
+})
 
-    const refreshToken = jwt.sign(
-        { id: user.id, email: user.email, role: user.role, sessionId },
-        process.env.REFRESH_TOKEN_SECRET as string,
-        { expiresIn: '7d' }
-    );
+// second login step for users with 2FA: app code or recovery code
+export const loginTwoFactor = asyncHandler(async (req: Request<{}, {}, LoginTwoFactorDTO>, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
 
-    // step 5 : send refresh token as cookie
-    res.cookie("refreshToken", refreshToken, {
+    // step 1 : check the code against the pending login (wrong codes count as failed logins)
+    const user = await completeLoginChallenge(challengeToken, { code, recoveryCode }, req.ip || 'unknown');
+    await clearLoginFailures(user.email);
+
+    // step 2 : the account may have changed since the password step
+    if (!user.isActive) {
+        throw new ApiError(403, 'Please verify your email to activate your account');
+    }
+    if (user.isBlocked) {
+        throw new ApiError(403, 'Your account has been blocked by the administrator. Please contact support.');
+    }
+
+    // step 3 : create session and tokens
+    const loginData = await startLoginSession(req, res, user, true);
+
+    res.success(`Welcome ${user.firstName}`, loginData);
+})
+
+// sign-in providers the frontend can show buttons for
+export const listOAuthProviders = asyncHandler(async (req: Request, res: Response) => {
+    res.success('Sign-in providers fetched', { providers: getEnabledOAuthProviders() });
+})
+
+// step 1 of signing in with a provider: the link to send the user to
+export const startOAuthLogin = asyncHandler(async (req: Request<{ provider: string }>, res: Response) => {
+    const { state, authorizationUrl } = await createOAuthAuthorization(req.params.provider);
+
+    // the callback must come back to the browser that started the sign-in
+    res.cookie("oauthState", state, {
         httpOnly: true,
         secure: true,
-        maxAge: 7 * 24 * 60 * 60 * 1000
+        maxAge: 10 * 60 * 1000
     });
 
-    // step 6 : send response
-    // Prepare safe user object (exclude password)
-    const userData = {
-        id: user.id,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        email: user.email,
-        role: user.role,
-    };
+    res.success('Redirect to the sign-in provider', { authorizationUrl });
+})
+
+// step 2: the provider redirected back to the frontend with a code
+export const finishOAuthLogin = asyncHandler(async (req: Request<{ provider: string }, {}, OAuthCallbackDTO>, res: Response) => {
+    const { code, state } = req.body;
+
+    // step 1 : state must match the cookie set by startOAuthLogin (login CSRF)
+    const expectedState = req.cookies.oauthState;
+    res.clearCookie("oauthState");
+    if (!expectedState || expectedState !== state) {
+        throw new ApiError(401, 'Sign-in session expired, please try again.');
+    }
+
+    // step 2 : trade the code for the provider's profile, link or create the user
+    const { user, isNewUser } = await completeOAuthAuthorization(req.params.provider, code, state);
+
+    // check if user is blocked
+    if (user.isBlocked) {
+        throw new ApiError(403, 'Your account has been blocked by the administrator. Please contact support.');
+    }
+
+    // step 3 : the provider replaces the password, not the second factor
+    if (user.twoFactorEnabled) {
+        const challengeToken = await createLoginChallenge(user.id);
+        return res.success('Enter the code from your authenticator app', { twoFactorRequired: true, challengeToken });
+    }
 
-    res.success(`Welcome ${user.firstName}`, { token: accessToken, user: userData });
+    // step 4 : create session and tokens (same as a password login)
+    const loginData = await startLoginSession(req, res, user, false);
+
+    res.success(`Welcome ${user.firstName}`, { ...loginData, isNewUser, twoFactorSetupRequired: user.role === 'ADMIN' });
+})
+
+// unlock an account locked by failed logins, from the emailed link
+export const unlockLockedAccount = asyncHandler(async (req: Request<{}, {}, { token: string }>, res: Response) => {
+    await unlockAccount(req.body.token);
+    res.success('Account unlocked. You can login again.');
 })
 
 export const refreshToken = asyncHandler(async (req: Request, res: Response) => {
@@ -149,23 +268,18 @@ export const refreshToken = asyncHandler(async (req: Request, res: Response) =>
         throw new ApiError(401, 'Refresh token is required');
     }
     // step 2 : verify refresh token
-    let decoded: JWTPayload;
+    let decoded: RefreshTokenPayload;
     try {
-        decoded = jwt.verify(refreshToken, process.env.REFRESH_TOKEN_SECRET as string) as JWTPayload;
+        decoded = jwt.verify(refreshToken, process.env.REFRESH_TOKEN_SECRET as string) as RefreshTokenPayload;
     } catch (error) {
         throw new ApiError(401, 'Invalid refresh token');
     }
 
     // step 3 : validate session (must exist and be valid)
-    if (decoded.sessionId) {
-        const isValid = await validateSession(decoded.sessionId);
-        if (!isValid) {
-            // Session expired or invalidated (e.g. password reset)
-            // User must login again
-            throw new ApiError(401, 'Session expired, please login again');
-        }
-        // Session valid - update activity to extend TTL
-        updateSessionActivity(decoded.sessionId).catch(() => {});
+    // Session expired or invalidated (e.g. password reset) - user must login again
+    // Tokens without a session cannot be rotated, so they are not accepted either
+    if (!decoded.sessionId || !(await validateSession(decoded.sessionId))) {
+        throw new ApiError(401, 'Session expired, please login again');
     }
 
     // step 4 : find user by id
@@ -179,17 +293,28 @@ export const refreshToken = asyncHandler(async (req: Request, res: Response) =>
         throw new ApiError(403, 'Your account has been blocked by the administrator. Please contact support.');
     }
 
-    // step 5 : generate new tokens with same session id
+    // step 4.2 : rotate the refresh token - each one works exactly once
+    // A token that was already used means it was copied: the session is revoked
+    const refreshTokenId = await rotateRefreshTokenId(decoded.sessionId, decoded.jti);
+    if (!refreshTokenId) {
+        res.clearCookie('refreshToken');
+        throw new ApiError(401, 'Session expired, please login again');
+    }
+    // Session valid - update activity to extend TTL
+    updateSessionActivity(decoded.sessionId).catch(() => {});
+
+    // step 5 : generate new tokens with same session id (and the same 2FA state)
+    const twoFactor = decoded.twoFactor === true;
     const accessToken = jwt.sign(
-        { id: user.id, email: user.email, role: user.role, sessionId: decoded.sessionId },
+        { id: user.id, email: user.email, role: user.role, sessionId: decoded.sessionId, twoFactor },
         process.env.ACCESS_TOKEN_SECRET as string,
         { expiresIn: '30m' }
     );
 
     const newRefreshToken = jwt.sign(
-        { id: user.id, email: user.email, role: user.role, sessionId: decoded.sessionId },
+        { id: user.id, email: user.email, role: user.role, sessionId: decoded.sessionId, twoFactor },
         process.env.REFRESH_TOKEN_SECRET as string,
-        { expiresIn: '7d' }
+        { expiresIn: '7d', jwtid: refreshTokenId }
     );
 
     // step 6 : send refresh token as cookie
@@ -246,23 +371,10 @@ export const changePassword = asyncHandler(async (req: Request<{}, {}, ChangePas
 
 export const forgotPasswordRequest = asyncHandler(async (req: Request<{}, {}, ForgotPasswordDTO>, res: Response) => {
     const { email } = req.body;
+    const normalizedEmail = email.toLowerCase();
 
-    // step 1 : find user by email
-    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
-    if (!user) {
-        throw new ApiError(404, 'User not found');
-    }
-    // check if user is active
-    if (!user.isActive) {
-        throw new ApiError(403, 'Please verify your email to reset your password');
-    }
-    // check if user is blocked
-    if (user.isBlocked) {
-        throw new ApiError(403, 'Your account has been blocked by the administrator. Please contact support.');
-    }
-    
+    // Limits apply to every email, known or not, so the responses cannot tell them apart
     // check cooldown 5 minutes between requests
-    const normalizedEmail = email.toLowerCase();
     const cooldownKey = FORGOT_PASSWORD_COOLDOWN_KEY + normalizedEmail;
     const cooldownActive = await redis.get(cooldownKey);
     if (cooldownActive) {
@@ -279,22 +391,26 @@ export const forgotPasswordRequest = asyncHandler(async (req: Request<{}, {}, Fo
     if (count >= FORGOT_PASSWORD_DAILY_LIMIT) {
         throw new ApiError(429, 'Daily limit reached. Please try again tomorrow');
     }
-    
-    // step 2 : generate forgot password token
-    const passwordResetToken = jwt.sign(
-        { id: user.id, email: user.email, role: user.role },
-        process.env.FORGOT_PASSWORD_SECRET as string,
-        { expiresIn: '15m' }
-    );
 
-    // step 3 : update user's forgot password token
-    await prisma.user.update({ where: { email: user.email }, data: { passwordResetToken } });
-    // step 4 : generate forgot password link
-    const forgotPasswordLink = `${process.env.FRONTEND_URL}/reset-password?token=${passwordResetToken}`;
-    // step 5 : generate forgot password email template
-    const emailTemplate = forgotPasswordTemplate({ firstName: user.firstName, forgotPasswordLink });
-    // step 6 : send forgot password email
-    sendMail(user.email, 'Forgot Password', emailTemplate);
+    // step 1 : find user by email - only verified, unblocked accounts get a link
+    const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+    if (user && user.isActive && !user.isBlocked) {
+        // step 2 : generate forgot password token
+        const passwordResetToken = jwt.sign(
+            { id: user.id, email: user.email, role: user.role },
+            process.env.FORGOT_PASSWORD_SECRET as string,
+            { expiresIn: '15m' }
+        );
+
+        // step 3 : update user's forgot password token
+        await prisma.user.update({ where: { email: user.email }, data: { passwordResetToken } });
+        // step 4 : generate forgot password link
+        const forgotPasswordLink = `${process.env.FRONTEND_URL}/reset-password?token=${passwordResetToken}`;
+        // step 5 : generate forgot password email template
+        const emailTemplate = forgotPasswordTemplate({ firstName: user.firstName, forgotPasswordLink });
+        // step 6 : send forgot password email
+        sendMail(user.email, 'Forgot Password', emailTemplate);
+    }
     
     // set 5 minute cooldown
     await redis.set(cooldownKey, '1', 'EX', FORGOT_PASSWORD_COOLDOWN_SECONDS);
@@ -306,7 +422,7 @@ export const forgotPasswordRequest = asyncHandler(async (req: Request<{}, {}, Fo
         await redis.incr(dailyKey);
     }
     
-    res.success('Forgot password email sent successfully');
+    res.success('If an account exists for this email, a password reset link has been sent to it');
 })
 
 export const forgotPasswordReset = asyncHandler(async (req: Request<{}, {}, ForgotPasswordResetDTO>, res: Response) => {
@@ -356,12 +472,24 @@ export const getProfile = asyncHandler(async (req: Request, res: Response) => {
         lastName: user.lastName,
         email: user.email,
         role: user.role,
+        preferredCurrency: user.preferredCurrency,
+        twoFactorEnabled: user.twoFactorEnabled,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
     }
     res.success('User profile fetched successfully', data, 200);
 })
 
+// currency used for prices and checkout
+export const updatePreferredCurrency = asyncHandler(async (req: Request<{}, {}, { currency: string }>, res: Response) => {
+    const user = await prisma.user.update({
+        where: { id: req.user.id },
+        data: { preferredCurrency: req.body.currency },
+        select: { preferredCurrency: true }
+    });
+    res.success('Preferred currency updated successfully', user, 200);
+})
+
 const FORGOT_PASSWORD_COOLDOWN_KEY = 'forgot_cooldown:';
 const FORGOT_PASSWORD_DAILY_COUNT_KEY = 'forgot_daily:';
 const FORGOT_PASSWORD_COOLDOWN_SECONDS = 300; // 5 minutes
@@ -377,24 +505,8 @@ const RESEND_DAILY_TTL = 86400; // 24 hours
 export const resendVerificationEmail = asyncHandler(async (req: Request<{}, {}, { email: string }>, res: Response) => {
     const { email } = req.body;
     const normalizedEmail = email.toLowerCase();
-    
-    // find user by email
-    const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
-    if (!user) {
-        // dont reveal if user exists or not for security
-        throw new ApiError(400, 'If this email exists, a verification link will be sent');
-    }
-    
-    // check if already verified
-    if (user.isActive) {
-        throw new ApiError(400, 'Account is already verified');
-    }
-    
-    // check if user is blocked
-    if (user.isBlocked) {
-        throw new ApiError(403, 'Your account has been blocked by the administrator. Please contact support.');
-    }
-    
+
+    // Limits apply to every email, known or not, so the responses cannot tell them apart
     // check cooldown 5 minutes between requests
     const cooldownKey = RESEND_COOLDOWN_KEY + normalizedEmail;
     const cooldownActive = await redis.get(cooldownKey);
@@ -413,16 +525,17 @@ export const resendVerificationEmail = asyncHandler(async (req: Request<{}, {},
         throw new ApiError(429, 'Daily limit reached. Please try again tomorrow');
     }
     
-    // generate verification token
-    const verificationToken = jwt.sign({ email: user.email }, process.env.EMAIL_VERIFICATION_SECRET as string,{ expiresIn: '24h' });
-    const verificationLink = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
-    const emailTemplate = accountVerificationTemplate({ firstName: user.firstName, verificationLink });
-    
-    // send email
-    try {
-        await sendMail(user.email, 'Account Verification', emailTemplate);
-    } catch (error) {
-        throw new ApiError(500, 'Failed to send verification email. Please try again later');
+    // find user by email - only unverified, unblocked accounts get a link
+    const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+    if (user && !user.isActive && !user.isBlocked) {
+        // generate verification token
+        const verificationToken = jwt.sign({ email: user.email }, process.env.EMAIL_VERIFICATION_SECRET as string,{ expiresIn: '24h' });
+        const verificationLink = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
+        const emailTemplate = accountVerificationTemplate({ firstName: user.firstName, verificationLink });
+
+        // send email in the background, so the response takes as long as for anyone else
+        sendMail(user.email, 'Account Verification', emailTemplate)
+            .catch((error: any) => logger.error(`[Auth] Verification email failed for User:${user.id}: ${error.message}`));
     }
     
     // set 5 minute cooldown
@@ -435,7 +548,7 @@ export const resendVerificationEmail = asyncHandler(async (req: Request<{}, {},
         await redis.incr(dailyKey);
     }
     
-    res.success('Verification email sent successfully');
+    res.success('If an unverified account exists for this email, a verification link has been sent to it');
 });
 
 
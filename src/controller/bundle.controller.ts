@@ -0,0 +1,284 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import asyncHandler from "../utils/async_handler.utils";
+import { prisma } from "../prisma";
+import { NotFoundError, ValidationError } from "../utils/api_error.utils";
+import { CreateBundleDto } from "../dtos/bundle.dtos";
+import { getCache, setCache, clearCacheByPrefix, BUNDLE_CACHE_PREFIX } from "../utils/cache";
+import { getCheckoutCurrency, quoteBundlePrice } from "../services/pricing.service";
+import { BASE_CURRENCY } from "../utils/currency.utils";
+import { sumMinorUnits, toMajorUnits, toMinorUnits, withMajorPrices } from "../utils/money.utils";
+
+const BUNDLE_COURSE_SELECT = {
+    id: true,
+    title: true,
+    thumbnail: true,
+    price: true,
+    originalPrice: true,
+    status: true
+} as const;
+
+type BundleWithCourses = Prisma.BundleGetPayload<{ include: { courses: { select: typeof BUNDLE_COURSE_SELECT } } }>;
+
+// Bundle in major units, with what it saves against buying its courses one by one
+const toBundleResponse = (bundle: BundleWithCourses) => {
+    const coursesTotal = sumMinorUnits(bundle.courses.map(c => c.price));
+    const savings = Math.max(coursesTotal - bundle.price, 0);
+
+    return {
+        ...bundle,
+        price: toMajorUnits(bundle.price),
+        courses: bundle.courses.map(withMajorPrices),
+        coursesTotal: toMajorUnits(coursesTotal),
+        savings: toMajorUnits(savings),
+        savingsPercentage: coursesTotal > 0 ? Math.round((savings / coursesTotal) * 100) : 0
+    };
+};
+
+// Courses of a bundle must exist, and together cost more than the bundle
+const validateBundleCourses = async (courseIds: number[], price: number) => {
+    const courses = await prisma.course.findMany({
+        where: { id: { in: courseIds } },
+        select: { id: true, price: true }
+    });
+
+    if (courses.length !== courseIds.length) {
+        throw new ValidationError('One or more courses do not exist')
+    }
+
+    if (price >= sumMinorUnits(courses.map(c => c.price))) {
+        throw new ValidationError('Bundle price must be lower than the combined price of its courses')
+    }
+};
+
+const parseBundleId = (id: string | undefined) => {
+    const bundleId = Number(id);
+    if (!Number.isInteger(bundleId) || bundleId <= 0) {
+        throw new ValidationError('Invalid bundle id')
+    }
+    return bundleId;
+};
+
+// Admin: create a bundle (starts as DRAFT)
+export const createBundle = asyncHandler(async (req: Request<{}, {}, CreateBundleDto>, res: Response) => {
+    const { title, description, price, thumbnail, courseIds } = req.body;
+    const normalizedTitle = title.toLowerCase().trim();
+    const priceMinor = toMinorUnits(price);
+
+    const isExistingBundle = await prisma.bundle.findUnique({ where: { title: normalizedTitle } })
+    if (isExistingBundle) {
+        throw new ValidationError('Bundle already exists with this exact title')
+    }
+
+    await validateBundleCourses(courseIds, priceMinor);
+
+    const bundle = await prisma.bundle.create({
+        data: {
+            title: normalizedTitle,
+            description: description.trim(),
+            price: priceMinor,
+            thumbnail,
+            courses: { connect: courseIds.map(id => ({ id })) }
+        },
+        include: { courses: { select: BUNDLE_COURSE_SELECT } }
+    })
+
+    await clearCacheByPrefix(BUNDLE_CACHE_PREFIX)
+
+    res.success("Bundle created successfully", toBundleResponse(bundle), 201)
+})
+
+// Admin: update a bundle (the course list is replaced as a whole)
+export const updateBundle = asyncHandler(async (req: Request<{ id: string }, {}, CreateBundleDto>, res: Response) => {
+    const bundleId = parseBundleId(req.params.id);
+    const { title, description, price, thumbnail, courseIds } = req.body;
+    const normalizedTitle = title.toLowerCase().trim();
+    const priceMinor = toMinorUnits(price);
+
+    const existing = await prisma.bundle.findUnique({ where: { id: bundleId } })
+    if (!existing) {
+        throw new NotFoundError('Bundle not found')
+    }
+
+    const sameTitle = await prisma.bundle.findUnique({ where: { title: normalizedTitle } })
+    if (sameTitle && sameTitle.id !== bundleId) {
+        throw new ValidationError('Another bundle already exists with this exact title')
+    }
+
+    await validateBundleCourses(courseIds, priceMinor);
+
+    const bundle = await prisma.bundle.update({
+        where: { id: bundleId },
+        data: {
+            title: normalizedTitle,
+            description: description.trim(),
+            price: priceMinor,
+            thumbnail,
+            courses: { set: courseIds.map(id => ({ id })) }
+        },
+        include: { courses: { select: BUNDLE_COURSE_SELECT } }
+    })
+
+    await clearCacheByPrefix(BUNDLE_CACHE_PREFIX)
+
+    res.success("Bundle updated successfully", toBundleResponse(bundle))
+})
+
+// Admin: publish or unpublish a bundle
+export const updateBundleStatus = asyncHandler(async (req: Request<{ id: string }, {}, { status: "PUBLISHED" | "DRAFT" }>, res: Response) => {
+    const bundleId = parseBundleId(req.params.id);
+    const { status } = req.body;
+
+    const existing = await prisma.bundle.findUnique({
+        where: { id: bundleId },
+        include: { courses: { select: { title: true, status: true } } }
+    })
+    if (!existing) {
+        throw new NotFoundError('Bundle not found')
+    }
+
+    // A published bundle must be buyable - every course in it has to be live
+    const unpublished = existing.courses.filter(c => c.status !== "PUBLISHED");
+    if (status === "PUBLISHED" && unpublished.length > 0) {
+        throw new ValidationError(`Publish these courses first: ${unpublished.map(c => c.title).join(", ")}`)
+    }
+
+    const bundle = await prisma.bundle.update({
+        where: { id: bundleId },
+        data: { status },
+        include: { courses: { select: BUNDLE_COURSE_SELECT } }
+    })
+
+    await clearCacheByPrefix(BUNDLE_CACHE_PREFIX)
+
+    res.success(`Bundle ${status === "PUBLISHED" ? "published" : "unpublished"} successfully`, toBundleResponse(bundle))
+})
+
+// Admin: archive a bundle (past orders keep pointing at it)
+export const archiveBundle = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const bundleId = parseBundleId(req.params.id);
+
+    const existing = await prisma.bundle.findUnique({ where: { id: bundleId } })
+    if (!existing) {
+        throw new NotFoundError('Bundle not found')
+    }
+
+    const bundle = await prisma.bundle.update({
+        where: { id: bundleId },
+        data: { status: "ARCHIVED" },
+        include: { courses: { select: BUNDLE_COURSE_SELECT } }
+    })
+
+    await clearCacheByPrefix(BUNDLE_CACHE_PREFIX)
+
+    res.success("Bundle archived successfully", toBundleResponse(bundle))
+})
+
+// Admin: every bundle, whatever its status
+export const getAllBundlesForAdmin = asyncHandler(async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1
+    const limit = Number(req.query.limit) || 10
+    const skip = (page - 1) * limit
+
+    const [bundles, totalBundles] = await Promise.all([
+        prisma.bundle.findMany({
+            include: { courses: { select: BUNDLE_COURSE_SELECT } },
+            skip,
+            take: limit,
+            orderBy: [{ createdAt: "desc" }, { title: "asc" }]
+        }),
+        prisma.bundle.count()
+    ])
+
+    res.success("Bundles fetched successfully", {
+        bundles: bundles.map(toBundleResponse),
+        pagination: {
+            totalBundles,
+            totalPages: Math.ceil(totalBundles / limit),
+            currentPage: page,
+            limit
+        }
+    })
+})
+
+// Student catalog: published bundles whose courses are all live
+export const getAllBundlesForStudent = asyncHandler(async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1
+    const limit = Number(req.query.limit) || 10
+    const skip = (page - 1) * limit
+
+    const cacheKey = `${BUNDLE_CACHE_PREFIX}p${page}_l${limit}`
+    const cachedData = await getCache(cacheKey)
+    if (cachedData) {
+        return res.success("Bundles fetched successfully", cachedData)
+    }
+
+    const where: Prisma.BundleWhereInput = {
+        status: "PUBLISHED",
+        courses: { every: { status: "PUBLISHED" } }
+    }
+
+    const [bundles, totalBundles] = await Promise.all([
+        prisma.bundle.findMany({
+            where,
+            include: { courses: { select: BUNDLE_COURSE_SELECT } },
+            skip,
+            take: limit,
+            orderBy: { createdAt: "desc" }
+        }),
+        prisma.bundle.count({ where })
+    ])
+
+    const responseData = {
+        bundles: bundles.map(toBundleResponse),
+        pagination: {
+            totalBundles,
+            totalPages: Math.ceil(totalBundles / limit),
+            currentPage: page,
+            limit
+        }
+    }
+
+    await setCache(cacheKey, responseData)
+    res.success("Bundles fetched successfully", responseData)
+})
+
+// Bundle details; logged in students also get the price in their currency
+export const getBundleById = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const bundleId = parseBundleId(req.params.id);
+
+    const bundle = await prisma.bundle.findUnique({
+        where: { id: bundleId },
+        include: { courses: { select: BUNDLE_COURSE_SELECT } }
+    })
+
+    const isAdminUser = req.user?.role === "ADMIN";
+    if (!bundle || (!isAdminUser && bundle.status !== "PUBLISHED")) {
+        throw new NotFoundError('Bundle not found')
+    }
+
+    let localPrice = { currency: BASE_CURRENCY, price: toMajorUnits(bundle.price) };
+    let ownedCourseIds: number[] = [];
+
+    if (req.user?.id) {
+        const userId = Number(req.user.id);
+        const enrollments = await prisma.enrollment.findMany({
+            where: { userId, courseId: { in: bundle.courses.map(c => c.id) } },
+            select: { courseId: true }
+        });
+        ownedCourseIds = enrollments.map(e => e.courseId);
+
+        try {
+            const quote = await quoteBundlePrice(bundle, await getCheckoutCurrency(userId));
+            localPrice = { currency: quote.currency, price: toMajorUnits(quote.bundlePrice) };
+        } catch {
+            // Rate removed since the currency was picked - show the base price
+        }
+    }
+
+    res.success("Bundle fetched successfully", {
+        ...toBundleResponse(bundle),
+        localPrice,
+        ownedCourseIds
+    })
+})
@@ -4,6 +4,7 @@ import { Request, Response } from "express";
 import asyncHandler from "../utils/async_handler.utils";
 import { ValidationError, AuthError, NotFoundError } from "../utils/api_error.utils";
 import { prisma } from "../prisma";
+import { hasCourseAccess } from "../services/access.service";
 
 import crypto from "crypto";
 import { deleteBunnyVideo } from "../utils/delete-bunny-video";
@@ -80,17 +81,8 @@ export const getEmbedUrl = asyncHandler(async (req: Request, res: Response) => {
 
         const courseId = lesson.section.courseId;
 
-        // 2. Check if user is enrolled
-        const enrollment = await prisma.enrollment.findUnique({
-            where: {
-                userId_courseId: {
-                    userId: user.id,
-                    courseId: courseId
-                }
-            }
-        });
-
-        if (!enrollment) {
+        // 2. Check if user is enrolled (or has a membership covering the course)
+        if (!(await hasCourseAccess(user.id, courseId))) {
             throw new AuthError("You are not enrolled in the course this video belongs to.");
         }
     }
@@ -3,6 +3,8 @@ import asyncHandler from "../utils/async_handler.utils";
 import { prisma } from "../prisma";
 import { ValidationError, NotFoundError } from "../utils/api_error.utils";
 import { AddToCartDto, RemoveFromCartDto } from "../dtos/cart.dtos";
+import { sumMinorUnits, toMajorUnits, withMajorPrices } from "../utils/money.utils";
+import { CartItemWarning, acceptCartChanges as acceptChanges, getCartWarnings } from "../services/cart.service";
 
 const getOrCreateCart = async (userId: number) => {
     let cart = await prisma.cart.findUnique({
@@ -18,21 +20,22 @@ const getOrCreateCart = async (userId: number) => {
     return cart;
 };
 
-const calculateCartTotals = (items: { course: { price: number; originalPrice: number | null } }[]) => {
-    let totalPrice = 0;
-    let totalOriginalPrice = 0;
-
-    for (const item of items) {
-        totalPrice += item.course.price;
-        totalOriginalPrice += item.course.originalPrice || item.course.price;
-    }
+// Warning prices in major units, like every other price in the response
+const toWarningResponse = (warning: CartItemWarning) => ({
+    ...warning,
+    ...(warning.previousPrice !== undefined && { previousPrice: toMajorUnits(warning.previousPrice) }),
+    ...(warning.currentPrice !== undefined && { currentPrice: toMajorUnits(warning.currentPrice) })
+});
 
-    const totalSavings = totalOriginalPrice - totalPrice;
+// Prices are stored in minor units; totals are returned in major units
+const calculateCartTotals = (items: { course: { price: number; originalPrice: number | null } }[]) => {
+    const totalPrice = sumMinorUnits(items.map(item => item.course.price));
+    const totalOriginalPrice = sumMinorUnits(items.map(item => item.course.originalPrice || item.course.price));
 
     return {
-        totalPrice: Math.round(totalPrice * 100) / 100,
-        totalOriginalPrice: Math.round(totalOriginalPrice * 100) / 100,
-        totalSavings: Math.round(totalSavings * 100) / 100,
+        totalPrice: toMajorUnits(totalPrice),
+        totalOriginalPrice: toMajorUnits(totalOriginalPrice),
+        totalSavings: toMajorUnits(totalOriginalPrice - totalPrice),
         itemCount: items.length
     };
 };
@@ -75,9 +78,21 @@ export const getCart = asyncHandler(async (req: Request, res: Response) => {
     // Calculate totals
     const totals = calculateCartTotals(cartWithItems?.items || []);
 
+    // What changed since each course was added (checkout is blocked until accepted)
+    const warnings = await getCartWarnings(userId, cartWithItems?.items || []);
+
     res.success("Cart fetched successfully", {
-        cart: cartWithItems,
-        ...totals
+        cart: cartWithItems && {
+            ...cartWithItems,
+            items: cartWithItems.items.map(item => ({
+                ...item,
+                priceAtAdd: toMajorUnits(item.priceAtAdd),
+                course: withMajorPrices(item.course),
+                warnings: (warnings.get(item.courseId) || []).map(toWarningResponse)
+            }))
+        },
+        ...totals,
+        hasChanges: warnings.size > 0
     });
 });
 
@@ -107,7 +122,7 @@ export const addToCart = asyncHandler(async (req: Request<{}, {}, AddToCartDto>,
         throw new ValidationError("This course is not available for purchase");
     }
 
-    // 3. Check if user is already enrolled in this course
+    // 3. Check if user is already enrolled in this course (time-limited access can be renewed)
     const existingEnrollment = await prisma.enrollment.findUnique({
         where: {
             userId_courseId: {
@@ -117,7 +132,7 @@ export const addToCart = asyncHandler(async (req: Request<{}, {}, AddToCartDto>,
         }
     });
 
-    if (existingEnrollment) {
+    if (existingEnrollment && existingEnrollment.expiresAt === null) {
         throw new ValidationError("You are already enrolled in this course");
     }
 
@@ -142,7 +157,8 @@ export const addToCart = asyncHandler(async (req: Request<{}, {}, AddToCartDto>,
     const cartItem = await prisma.cartItem.create({
         data: {
             cartId: cart.id,
-            courseId
+            courseId,
+            priceAtAdd: course.price
         },
         include: {
             course: {
@@ -163,7 +179,7 @@ export const addToCart = asyncHandler(async (req: Request<{}, {}, AddToCartDto>,
     });
 
     res.success("Course added to cart successfully", {
-        cartItem,
+        cartItem: { ...cartItem, course: withMajorPrices(cartItem.course) },
         itemCount
     }, 201);
 });
@@ -296,3 +312,11 @@ export const checkCourseInCart = asyncHandler(async (req: Request<{ courseId: st
         courseId
     });
 });
+
+export const acceptCartChanges = asyncHandler(async (req: Request, res: Response) => {
+    const userId = Number(req.user.id);
+
+    const result = await acceptChanges(userId);
+
+    res.success("Cart changes accepted successfully", result);
+});
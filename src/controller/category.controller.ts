@@ -42,13 +42,18 @@ const deleteCategory = asyncHandler(async (req: Request<{ id: string }, {}, { ta
 
     const category = await prisma.category.findUnique({
         where: { id },
-        include: { _count: { select: { courses: true } } }
+        include: { _count: { select: { courses: true, plans: true } } }
     });
 
     if (!category) {
         throw new ApiError(404, 'Category not found');
     }
 
+    // Members of a category plan paid for this category
+    if (category._count.plans > 0) {
+        throw new ApiError(400, `This category is used by ${category._count.plans} membership plan(s) and cannot be deleted.`);
+    }
+
     // Check if category has courses
     if (category._count.courses > 0) {
         if (!targetCategoryId) {
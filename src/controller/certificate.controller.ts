@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 import asyncHandler from "../utils/async_handler.utils";
 import { prisma } from "../prisma";
 import { ApiError } from "../utils/api_error.utils";
+import { hasCourseAccess } from "../services/access.service";
 import crypto from "crypto";
 
 /**
@@ -85,12 +86,8 @@ export const claimCertificate = asyncHandler(async (req: Request, res: Response)
     const userId = Number(req.user.id);
     const courseId = Number(req.params.courseId);
 
-    // Check enrollment
-    const enrollment = await prisma.enrollment.findFirst({
-        where: { userId, courseId }
-    });
-
-    if (!enrollment) {
+    // Check access (unexpired enrollment or a covering membership)
+    if (!(await hasCourseAccess(userId, courseId))) {
         throw new ApiError(403, "You are not enrolled in this course");
     }
 
@@ -3,27 +3,99 @@ import { Request, Response } from "express";
 import asyncHandler from "../utils/async_handler.utils";
 import { ApiError } from "../utils/api_error.utils";
 import { prisma } from "../prisma";
-import { validateCoupon, getCouponStats } from "../services/coupon.service";
+import {
+    validateCoupon,
+    getCouponStats,
+    createCouponCampaign,
+    getCampaignStats,
+    MAX_CAMPAIGN_CODES
+} from "../services/coupon.service";
 import { DiscountType } from "@prisma/client";
+import { getCheckoutCurrency, quoteCoursePrices } from "../services/pricing.service";
+import { toMajorUnits, toMajorUnitsOrNull, toMinorUnits } from "../utils/money.utils";
+
+// Targeting fields sent by the admin panel (all optional)
+interface CouponTargetingInput {
+    courseIds?: unknown;
+    categoryIds?: unknown;
+    firstPurchaseOnly?: unknown;
+    allowedEmails?: unknown;
+}
+
+// Validate targeting fields and check referenced courses/categories exist
+const parseCouponTargeting = async (input: CouponTargetingInput) => {
+    const toIdList = (value: unknown, field: string): number[] | undefined => {
+        if (value === undefined) return undefined;
+        if (!Array.isArray(value) || !value.every(id => Number.isInteger(Number(id)) && Number(id) > 0)) {
+            throw new ApiError(400, `${field} must be an array of IDs`);
+        }
+        return [...new Set(value.map(Number))];
+    };
 
-// Admin: Create a new coupon
-export const createCoupon = asyncHandler(async (req: Request, res: Response) => {
-    const {
-        code,
-        discountType,
-        discountValue,
-        maxDiscountAmount,
-        minOrderAmount,
-        totalUsageLimit,
-        perUserLimit,
-        validFrom,
-        validTill,
-        isActive
-    } = req.body;
+    const courseIds = toIdList(input.courseIds, "courseIds");
+    const categoryIds = toIdList(input.categoryIds, "categoryIds");
 
-    // Validate required fields
-    if (!code || !discountType || discountValue === undefined) {
-        throw new ApiError(400, "Code, discountType, and discountValue are required");
+    if (courseIds && courseIds.length > 0) {
+        const found = await prisma.course.count({ where: { id: { in: courseIds } } });
+        if (found !== courseIds.length) {
+            throw new ApiError(400, "One or more courses do not exist");
+        }
+    }
+
+    if (categoryIds && categoryIds.length > 0) {
+        const found = await prisma.category.count({ where: { id: { in: categoryIds } } });
+        if (found !== categoryIds.length) {
+            throw new ApiError(400, "One or more categories do not exist");
+        }
+    }
+
+    let allowedEmails: string[] | undefined;
+    if (input.allowedEmails !== undefined) {
+        if (!Array.isArray(input.allowedEmails) || !input.allowedEmails.every(e => typeof e === "string" && /^\S+@\S+\.\S+$/.test(e.trim()))) {
+            throw new ApiError(400, "allowedEmails must be an array of valid emails");
+        }
+        allowedEmails = [...new Set(input.allowedEmails.map((e: string) => e.trim().toLowerCase()))];
+    }
+
+    if (input.firstPurchaseOnly !== undefined && typeof input.firstPurchaseOnly !== "boolean") {
+        throw new ApiError(400, "firstPurchaseOnly must be true or false");
+    }
+
+    return {
+        courseIds,
+        categoryIds,
+        allowedEmails,
+        firstPurchaseOnly: input.firstPurchaseOnly as boolean | undefined
+    };
+};
+
+// Money fields of a coupon in major units for the API
+// (a FIXED discountValue is an amount; a PERCENTAGE one is left as is)
+const serializeCoupon = <T extends {
+    discountType: DiscountType;
+    discountValue: number;
+    maxDiscountAmount: number | null;
+    minOrderAmount: number | null;
+}>(coupon: T): T => ({
+    ...coupon,
+    discountValue: coupon.discountType === "FIXED" ? toMajorUnits(coupon.discountValue) : coupon.discountValue,
+    maxDiscountAmount: toMajorUnitsOrNull(coupon.maxDiscountAmount),
+    minOrderAmount: toMajorUnitsOrNull(coupon.minOrderAmount)
+});
+
+const serializeRedemptions = <T extends { totalDiscount: number; totalRevenue: number }>(redemptions: T): T => ({
+    ...redemptions,
+    totalDiscount: toMajorUnits(redemptions.totalDiscount),
+    totalRevenue: toMajorUnits(redemptions.totalRevenue)
+});
+
+// Validate the discount fields shared by single coupons and campaigns
+// Amounts arrive in major units and are stored in minor units
+const parseDiscountRule = (body: Record<string, any>) => {
+    const { discountType, discountValue } = body;
+
+    if (!discountType || discountValue === undefined) {
+        throw new ApiError(400, "discountType and discountValue are required");
     }
 
     // Validate discount type
@@ -40,6 +112,34 @@ export const createCoupon = asyncHandler(async (req: Request, res: Response) =>
         throw new ApiError(400, "Percentage discount cannot exceed 100%");
     }
 
+    return {
+        discountType: discountType as DiscountType,
+        discountValue: discountType === "FIXED" ? toMinorUnits(Number(discountValue)) : Number(discountValue),
+        maxDiscountAmount: body.maxDiscountAmount ? toMinorUnits(Number(body.maxDiscountAmount)) : null,
+        minOrderAmount: body.minOrderAmount ? toMinorUnits(Number(body.minOrderAmount)) : null,
+        perUserLimit: body.perUserLimit || 1,
+        validFrom: body.validFrom ? new Date(body.validFrom) : new Date(),
+        validTill: body.validTill ? new Date(body.validTill) : null
+    };
+};
+
+const COUPON_TARGETING_INCLUDE = {
+    courses: { select: { id: true, title: true } },
+    categories: { select: { id: true, name: true } }
+} as const;
+
+// Admin: Create a new coupon
+export const createCoupon = asyncHandler(async (req: Request, res: Response) => {
+    const { code, totalUsageLimit, isActive } = req.body;
+
+    // Validate required fields
+    if (!code) {
+        throw new ApiError(400, "Code, discountType, and discountValue are required");
+    }
+
+    const rule = parseDiscountRule(req.body);
+    const targeting = await parseCouponTargeting(req.body);
+
     // Normalize code to uppercase
     const normalizedCode = code.trim().toUpperCase();
 
@@ -55,19 +155,18 @@ export const createCoupon = asyncHandler(async (req: Request, res: Response) =>
     const coupon = await prisma.coupon.create({
         data: {
             code: normalizedCode,
-            discountType: discountType as DiscountType,
-            discountValue,
-            maxDiscountAmount: maxDiscountAmount || null,
-            minOrderAmount: minOrderAmount || null,
+            ...rule,
             totalUsageLimit: totalUsageLimit || null,
-            perUserLimit: perUserLimit || 1,
-            validFrom: validFrom ? new Date(validFrom) : new Date(),
-            validTill: validTill ? new Date(validTill) : null,
-            isActive: isActive !== false
-        }
+            isActive: isActive !== false,
+            firstPurchaseOnly: targeting.firstPurchaseOnly ?? false,
+            allowedEmails: targeting.allowedEmails ?? [],
+            courses: { connect: (targeting.courseIds ?? []).map(id => ({ id })) },
+            categories: { connect: (targeting.categoryIds ?? []).map(id => ({ id })) }
+        },
+        include: COUPON_TARGETING_INCLUDE
     });
 
-    res.success("Coupon created successfully", { coupon });
+    res.success("Coupon created successfully", { coupon: serializeCoupon(coupon) });
 });
 
 // Admin: Get all coupons
@@ -82,6 +181,7 @@ export const getAllCoupons = asyncHandler(async (req: Request, res: Response) =>
             take: limit,
             orderBy: { createdAt: "desc" },
             include: {
+                ...COUPON_TARGETING_INCLUDE,
                 _count: { select: { usages: true } }
             }
         }),
@@ -89,7 +189,7 @@ export const getAllCoupons = asyncHandler(async (req: Request, res: Response) =>
     ]);
 
     res.success("Coupons fetched successfully", {
-        coupons,
+        coupons: coupons.map(serializeCoupon),
         pagination: {
             page,
             limit,
@@ -113,7 +213,9 @@ export const getCouponById = asyncHandler(async (req: Request, res: Response) =>
         throw new ApiError(404, "Coupon not found");
     }
 
-    res.success("Coupon fetched successfully", { coupon });
+    res.success("Coupon fetched successfully", {
+        coupon: { ...serializeCoupon(coupon), redemptions: serializeRedemptions(coupon.redemptions) }
+    });
 });
 
 // Admin: Update coupon
@@ -160,23 +262,34 @@ export const updateCoupon = asyncHandler(async (req: Request, res: Response) =>
         if (discountValue <= 0) {
             throw new ApiError(400, "discountValue must be greater than 0");
         }
-        updateData.discountValue = discountValue;
+        const type = discountType ?? existingCoupon.discountType;
+        updateData.discountValue = type === "FIXED" ? toMinorUnits(Number(discountValue)) : Number(discountValue);
+    } else if (discountType !== undefined && discountType !== existingCoupon.discountType) {
+        throw new ApiError(400, "discountValue is required when changing discountType");
     }
 
-    if (maxDiscountAmount !== undefined) updateData.maxDiscountAmount = maxDiscountAmount;
-    if (minOrderAmount !== undefined) updateData.minOrderAmount = minOrderAmount;
+    if (maxDiscountAmount !== undefined) updateData.maxDiscountAmount = maxDiscountAmount ? toMinorUnits(Number(maxDiscountAmount)) : null;
+    if (minOrderAmount !== undefined) updateData.minOrderAmount = minOrderAmount ? toMinorUnits(Number(minOrderAmount)) : null;
     if (totalUsageLimit !== undefined) updateData.totalUsageLimit = totalUsageLimit;
     if (perUserLimit !== undefined) updateData.perUserLimit = perUserLimit;
     if (validFrom !== undefined) updateData.validFrom = new Date(validFrom);
     if (validTill !== undefined) updateData.validTill = validTill ? new Date(validTill) : null;
     if (isActive !== undefined) updateData.isActive = isActive;
 
+    // Targeting lists are replaced as a whole when sent
+    const targeting = await parseCouponTargeting(req.body);
+    if (targeting.firstPurchaseOnly !== undefined) updateData.firstPurchaseOnly = targeting.firstPurchaseOnly;
+    if (targeting.allowedEmails !== undefined) updateData.allowedEmails = targeting.allowedEmails;
+    if (targeting.courseIds !== undefined) updateData.courses = { set: targeting.courseIds.map(id => ({ id })) };
+    if (targeting.categoryIds !== undefined) updateData.categories = { set: targeting.categoryIds.map(id => ({ id })) };
+
     const coupon = await prisma.coupon.update({
         where: { id },
-        data: updateData
+        data: updateData,
+        include: COUPON_TARGETING_INCLUDE
     });
 
-    res.success("Coupon updated successfully", { coupon });
+    res.success("Coupon updated successfully", { coupon: serializeCoupon(coupon) });
 });
 
 // Admin: Delete coupon (soft delete)
@@ -203,23 +316,40 @@ export const deleteCoupon = asyncHandler(async (req: Request, res: Response) =>
 });
 
 // User: Validate coupon for checkout
+// Send courseId (buy now) or courseIds (cart) - prices are read from the DB
 export const validateCouponCode = asyncHandler(async (req: Request, res: Response) => {
-    const { couponCode, courseId, orderAmount } = req.body;
+    const { couponCode, courseId, courseIds } = req.body;
     const userId = req.user.id;
 
     if (!couponCode) {
         throw new ApiError(400, "Coupon code is required");
     }
 
-    if (!courseId || !orderAmount) {
-        throw new ApiError(400, "courseId and orderAmount are required");
+    const requestedIds: number[] = (Array.isArray(courseIds) ? courseIds : courseId ? [courseId] : [])
+        .map((id: unknown) => parseInt(String(id), 10))
+        .filter((id: number) => !isNaN(id));
+
+    if (requestedIds.length === 0) {
+        throw new ApiError(400, "courseId or courseIds is required");
     }
 
+    const courses = await prisma.course.findMany({
+        where: { id: { in: requestedIds } },
+        select: { id: true, price: true, originalPrice: true }
+    });
+
+    if (courses.length === 0) {
+        throw new ApiError(404, "Course not found");
+    }
+
+    // Same prices the checkout will charge, in the student's currency
+    const quote = await quoteCoursePrices(courses, await getCheckoutCurrency(userId));
+
     const result = await validateCoupon(
         couponCode,
         userId,
-        parseInt(courseId),
-        parseFloat(orderAmount)
+        courses.map(c => ({ courseId: c.id, amount: quote.prices.get(c.id)!.price })), // Non-null: every course is quoted
+        quote.exchangeRate
     );
 
     if (result.valid) {
@@ -227,9 +357,13 @@ export const validateCouponCode = asyncHandler(async (req: Request, res: Respons
             valid: true,
             couponCode: result.couponCode,
             discountType: result.discountType,
-            discountValue: result.discountValue,
-            discountAmount: result.discountAmount,
-            finalAmount: result.finalAmount
+            discountValue: result.discountType === "FIXED" && result.discountValue !== undefined
+                ? toMajorUnits(result.discountValue)
+                : result.discountValue,
+            discountAmount: toMajorUnitsOrNull(result.discountAmount ?? null),
+            finalAmount: toMajorUnitsOrNull(result.finalAmount ?? null),
+            currency: quote.currency,
+            eligibleCourseIds: result.eligibleCourseIds
         });
     } else {
         // Return 200 with valid: false for client to handle gracefully
@@ -239,3 +373,155 @@ export const validateCouponCode = asyncHandler(async (req: Request, res: Respons
         });
     }
 });
+
+// ============================================
+// CAMPAIGNS (bulk generated single-use codes)
+// ============================================
+
+// Admin: Create a campaign and generate its codes
+export const createCampaign = asyncHandler(async (req: Request, res: Response) => {
+    const { name, description, codePrefix, codeCount, usesPerCode } = req.body;
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+        throw new ApiError(400, "Campaign name is required");
+    }
+
+    const count = Number(codeCount);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_CAMPAIGN_CODES) {
+        throw new ApiError(400, `codeCount must be between 1 and ${MAX_CAMPAIGN_CODES}`);
+    }
+
+    const uses = usesPerCode === undefined ? 1 : Number(usesPerCode);
+    if (!Number.isInteger(uses) || uses < 1) {
+        throw new ApiError(400, "usesPerCode must be a positive whole number");
+    }
+
+    let prefix: string | null = null;
+    if (codePrefix !== undefined && codePrefix !== null && codePrefix !== "") {
+        prefix = String(codePrefix).trim().toUpperCase();
+        if (!/^[A-Z0-9]{1,12}$/.test(prefix)) {
+            throw new ApiError(400, "codePrefix must be 1-12 letters or digits");
+        }
+    }
+
+    const existing = await prisma.couponCampaign.findUnique({ where: { name: name.trim() } });
+    if (existing) {
+        throw new ApiError(400, "A campaign with this name already exists");
+    }
+
+    const rule = parseDiscountRule(req.body);
+    const targeting = await parseCouponTargeting(req.body);
+
+    const campaign = await createCouponCampaign({
+        name: name.trim(),
+        description: description ? String(description) : null,
+        codePrefix: prefix,
+        codeCount: count,
+        usesPerCode: uses,
+        createdById: req.user.id,
+        rule: {
+            ...rule,
+            firstPurchaseOnly: targeting.firstPurchaseOnly ?? false,
+            allowedEmails: targeting.allowedEmails ?? [],
+            courseIds: targeting.courseIds ?? [],
+            categoryIds: targeting.categoryIds ?? []
+        }
+    });
+
+    res.success("Campaign created successfully", { campaign }, 201);
+});
+
+// Admin: Get all campaigns
+export const getAllCampaigns = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const [campaigns, total] = await Promise.all([
+        prisma.couponCampaign.findMany({
+            skip,
+            take: limit,
+            orderBy: { createdAt: "desc" }
+        }),
+        prisma.couponCampaign.count()
+    ]);
+
+    res.success("Campaigns fetched successfully", {
+        campaigns,
+        pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit)
+        }
+    });
+});
+
+// Admin: Get single campaign with redemption stats
+export const getCampaignById = asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id || "", 10);
+
+    if (isNaN(id)) {
+        throw new ApiError(400, "Invalid campaign ID");
+    }
+
+    const campaign = await getCampaignStats(id);
+
+    if (!campaign) {
+        throw new ApiError(404, "Campaign not found");
+    }
+
+    res.success("Campaign fetched successfully", {
+        campaign: { ...campaign, redemptions: serializeRedemptions(campaign.redemptions) }
+    });
+});
+
+// Quote a CSV field when it contains a separator, quote or newline
+const toCsvField = (value: unknown): string => {
+    const text = value === null || value === undefined
+        ? ""
+        : value instanceof Date ? value.toISOString() : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Admin: Download every code of a campaign as CSV
+export const exportCampaignCodes = asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id || "", 10);
+
+    if (isNaN(id)) {
+        throw new ApiError(400, "Invalid campaign ID");
+    }
+
+    const campaign = await prisma.couponCampaign.findUnique({
+        where: { id },
+        include: {
+            coupons: {
+                select: {
+                    code: true,
+                    usedCount: true,
+                    totalUsageLimit: true,
+                    isActive: true,
+                    validFrom: true,
+                    validTill: true
+                },
+                orderBy: { id: "asc" }
+            }
+        }
+    });
+
+    if (!campaign) {
+        throw new ApiError(404, "Campaign not found");
+    }
+
+    const header = ["code", "used_count", "usage_limit", "is_active", "valid_from", "valid_till"];
+    const rows = campaign.coupons.map(c =>
+        [c.code, c.usedCount, c.totalUsageLimit, c.isActive, c.validFrom, c.validTill]
+            .map(toCsvField)
+            .join(",")
+    );
+
+    const fileName = `campaign-${campaign.id}-codes.csv`;
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send([header.join(","), ...rows].join("\n"));
+});
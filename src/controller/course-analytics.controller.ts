@@ -3,6 +3,8 @@ import asyncHandler from "../utils/async_handler.utils";
 import { prisma } from "../prisma";
 import { getCache, setCache } from "../utils/cache";
 import { ApiError } from "../utils/api_error.utils";
+import { BASE_CURRENCY, toBaseAmount } from "../utils/currency.utils";
+import { sumMinorUnits, toMajorUnits, toMajorUnitsOrNull } from "../utils/money.utils";
 
 const COURSE_ANALYTICS_CACHE_TTL = 300; // 5 minutes
 
@@ -15,6 +17,7 @@ export interface CourseAnalytics {
         createdAt: Date;
     };
     metrics: {
+        baseCurrency: string; // revenue and discounts are converted to this
         totalEnrollments: number;
         totalCertificates: number;
         totalOrders: number;
@@ -45,7 +48,9 @@ export interface CourseAnalytics {
         userId: number;
         userName: string;
         userEmail: string;
-        amount: number;
+        amount: number;      // in the currency the student paid in
+        currency: string;
+        baseAmount: number;
         status: string;
         couponCode: string | null;
         discountAmount: number | null;
@@ -86,7 +91,7 @@ export const getCourseAnalytics = asyncHandler(async (req: Request, res: Respons
         totalEnrollments,
         totalCertificates,
         completedOrders,
-        totalDiscounts,
+        discountedOrders,
         ordersWithCoupons,
         reviews,
         recentEnrollmentsRaw,
@@ -106,17 +111,17 @@ export const getCourseAnalytics = asyncHandler(async (req: Request, res: Respons
         // Completed orders for revenue
         prisma.order.findMany({
             where: { courseId, status: "COMPLETED" },
-            select: { amount: true }
+            select: { amount: true, exchangeRate: true }
         }),
 
-        // Total discounts
-        prisma.order.aggregate({
+        // Discounted orders (converted to the base currency below)
+        prisma.order.findMany({
             where: {
                 courseId,
                 status: "COMPLETED",
                 discountAmount: { not: null }
             },
-            _sum: { discountAmount: true }
+            select: { discountAmount: true, exchangeRate: true }
         }),
 
         // Orders with coupons
@@ -184,6 +189,8 @@ export const getCourseAnalytics = asyncHandler(async (req: Request, res: Respons
                 id: true,
                 userId: true,
                 amount: true,
+                currency: true,
+                exchangeRate: true,
                 status: true,
                 couponCode: true,
                 discountAmount: true,
@@ -200,7 +207,8 @@ export const getCourseAnalytics = asyncHandler(async (req: Request, res: Respons
     ]);
 
     // Calculate metrics
-    const totalRevenue = completedOrders.reduce((sum, o) => sum + o.amount, 0);
+    const totalRevenue = sumMinorUnits(completedOrders.map(o => toBaseAmount(o.amount, o.exchangeRate)));
+    const totalDiscounts = sumMinorUnits(discountedOrders.map(o => toBaseAmount(o.discountAmount || 0, o.exchangeRate)));
     const totalOrders = completedOrders.length;
 
     // Format response
@@ -213,11 +221,12 @@ export const getCourseAnalytics = asyncHandler(async (req: Request, res: Respons
             createdAt: course.createdAt
         },
         metrics: {
+            baseCurrency: BASE_CURRENCY,
             totalEnrollments,
             totalCertificates,
             totalOrders,
-            totalRevenue,
-            totalDiscounts: totalDiscounts._sum.discountAmount || 0,
+            totalRevenue: toMajorUnits(totalRevenue),
+            totalDiscounts: toMajorUnits(totalDiscounts),
             ordersWithCoupons,
             averageRating: reviews._avg.rating,
             totalReviews: reviews._count
@@ -243,10 +252,12 @@ export const getCourseAnalytics = asyncHandler(async (req: Request, res: Respons
             userId: o.userId,
             userName: `${o.user.firstName} ${o.user.lastName}`,
             userEmail: o.user.email,
-            amount: o.amount,
+            amount: toMajorUnits(o.amount),
+            currency: o.currency,
+            baseAmount: toMajorUnits(toBaseAmount(o.amount, o.exchangeRate)),
             status: o.status,
             couponCode: o.couponCode,
-            discountAmount: o.discountAmount,
+            discountAmount: toMajorUnitsOrNull(o.discountAmount),
             createdAt: o.createdAt
         }))
     };
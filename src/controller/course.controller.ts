@@ -8,7 +8,12 @@ import path from "path";
 import { UploadedFile } from "express-fileupload";
 import { slugify } from "../utils/slugify.utils";
 
-import { getCache, setCache, clearCacheByPrefix, COURSE_ADMIN_CACHE_PREFIX, COURSE_CACHE_PREFIX } from "../utils/cache";
+import { getCache, setCache, deleteCache, clearCacheByPrefix, COURSE_ADMIN_CACHE_PREFIX, COURSE_CACHE_PREFIX, BUNDLE_CACHE_PREFIX } from "../utils/cache";
+import * as PaymentService from "../services/payment/payment.service";
+import { getCheckoutCurrency, quoteCoursePrices, setCoursePrices as saveCoursePrices } from "../services/pricing.service";
+import { hasCourseAccess, isEnrollmentActive } from "../services/access.service";
+import { BASE_CURRENCY } from "../utils/currency.utils";
+import { toMinorUnits, withMajorPrices } from "../utils/money.utils";
 
 
 // Extend Request type locally for this file
@@ -63,7 +68,7 @@ export const uploadThumbnailController = asyncHandler(async (req: FileUploadRequ
 })
 
 export const createCourse = asyncHandler(async (req: Request<{}, {}, CreateCourseDto>, res: Response) => {
-    const { title, description, price, originalPrice, categoryId, thumbnail, language, whatYouWillLearn } = req.body;
+    const { title, description, price, originalPrice, categoryId, accessDays, thumbnail, language, whatYouWillLearn } = req.body;
     const isExistingCourse = await prisma.course.findUnique({ where: { title: title.toLowerCase().trim() } })
     if (isExistingCourse) {
         throw new ValidationError('Course already exists with this exact title')
@@ -74,9 +79,10 @@ export const createCourse = asyncHandler(async (req: Request<{}, {}, CreateCours
             data: {
                 title: title.toLowerCase().trim(),
                 description: description.toLowerCase().trim(),
-                price,
-                originalPrice: originalPrice || null,
+                price: toMinorUnits(price),
+                originalPrice: originalPrice ? toMinorUnits(originalPrice) : null,
                 categoryId,
+                accessDays: accessDays ?? null,
                 thumbnail,
                 language: language.map((l: string) => l.toLowerCase()),
                 whatYouWillLearn: whatYouWillLearn || []
@@ -93,12 +99,12 @@ export const createCourse = asyncHandler(async (req: Request<{}, {}, CreateCours
     await clearCacheByPrefix(COURSE_CACHE_PREFIX)
     await clearCacheByPrefix(COURSE_ADMIN_CACHE_PREFIX)
 
-    res.success("Course created successfully", course, 201)
+    res.success("Course created successfully", withMajorPrices(course), 201)
 })
 
 export const updateCourse = asyncHandler(async (req: Request<{ id: string }, {}, CreateCourseDto>, res: Response) => {
     const { id } = req.params;
-    const { title, description, price, originalPrice, categoryId, thumbnail, language, whatYouWillLearn } = req.body;
+    const { title, description, price, originalPrice, categoryId, accessDays, thumbnail, language, whatYouWillLearn } = req.body;
     // check with this title course is already exists.
     const isExistingCourse = await prisma.course.findUnique({ where: { title: title.toLowerCase().trim() } })
     if (isExistingCourse && isExistingCourse.id !== Number(id)) {
@@ -109,20 +115,22 @@ export const updateCourse = asyncHandler(async (req: Request<{ id: string }, {},
         data: {
             title: title.toLowerCase().trim(),
             description: description.toLowerCase().trim(),
-            price,
-            originalPrice: originalPrice || null,
+            price: toMinorUnits(price),
+            originalPrice: originalPrice ? toMinorUnits(originalPrice) : null,
             categoryId,
+            accessDays: accessDays ?? null, // existing enrollments keep their expiry, renewals use the new duration
             thumbnail,
             language: language.map((l: string) => l.toLowerCase()),
             whatYouWillLearn: whatYouWillLearn || []
         }
     })
 
-    // clear cache when course is updated
+    // clear cache when course is updated (bundles show its price and status too)
     await clearCacheByPrefix(COURSE_CACHE_PREFIX)
     await clearCacheByPrefix(COURSE_ADMIN_CACHE_PREFIX)
+    await clearCacheByPrefix(BUNDLE_CACHE_PREFIX)
 
-    res.success("Course updated successfully", course, 200)
+    res.success("Course updated successfully", withMajorPrices(course), 200)
 })
 
 export const archiveCourse = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
@@ -137,11 +145,12 @@ export const archiveCourse = asyncHandler(async (req: Request<{ id: string }>, r
     }
     const course = await prisma.course.update({ where: { id: Number(id) }, data: { status: "ARCHIVED" } })
 
-    // clear cache when course is archived
+    // clear cache when course is archived (bundles show its price and status too)
     await clearCacheByPrefix(COURSE_CACHE_PREFIX)
     await clearCacheByPrefix(COURSE_ADMIN_CACHE_PREFIX)
+    await clearCacheByPrefix(BUNDLE_CACHE_PREFIX)
 
-    res.success("Course archived successfully", course)
+    res.success("Course archived successfully", withMajorPrices(course))
 })
 
 
@@ -172,7 +181,7 @@ export const getAllCoursesForAdmin = asyncHandler(async (req: Request, res: Resp
 
     const totalPages = Math.ceil(totalCourses / limit)
     const responseData = {
-        courses,
+        courses: courses.map(withMajorPrices),
         pagination: {
             totalCourses,
             totalPages,
@@ -250,7 +259,7 @@ export const getAllCoursesForStudent = asyncHandler(async (req: Request, res: Re
 
     const totalPages = Math.ceil(totalCourses / limit)
     const responseData = {
-        courses,
+        courses: courses.map(withMajorPrices),
         pagination: {
             totalCourses,
             totalPages,
@@ -296,7 +305,8 @@ export const getCourseById = asyncHandler(async (req: Request<{ id: string }>, r
                     }
                 },
                 orderBy: { order: "asc" }
-            }
+            },
+            prices: { select: { currency: true, price: true, originalPrice: true } }
         }
     })
 
@@ -304,8 +314,12 @@ export const getCourseById = asyncHandler(async (req: Request<{ id: string }>, r
         throw new ValidationError('Course not found')
     }
 
+    // Price in the logged in student's currency (base price if it cannot be quoted)
+    let localPrice = { currency: BASE_CURRENCY, price: course.price, originalPrice: course.originalPrice };
+
     // Check if user is enrolled (if authenticated)
     let isEnrolled = false;
+    let accessExpiresAt: Date | null = null;
     if (req.user?.id) {
         const enrollment = await prisma.enrollment.findUnique({
             where: {
@@ -315,13 +329,24 @@ export const getCourseById = asyncHandler(async (req: Request<{ id: string }>, r
                 }
             }
         });
-        isEnrolled = !!enrollment;
+        isEnrolled = await hasCourseAccess(Number(req.user.id), Number(id)); // a membership counts too
+        accessExpiresAt = enrollment?.expiresAt ?? null;
+
+        try {
+            const quote = await quoteCoursePrices([course], await getCheckoutCurrency(Number(req.user.id)));
+            localPrice = { currency: quote.currency, ...quote.prices.get(course.id)! } // Non-null: quoted above
+        } catch {
+            // Rate removed since the currency was picked - show the base price
+        }
     }
 
     // Add isEnrolled to course object
     const courseWithEnrollmentStatus = {
-        ...course,
-        isEnrolled
+        ...withMajorPrices(course),
+        prices: course.prices.map(withMajorPrices),
+        localPrice: withMajorPrices(localPrice),
+        isEnrolled,
+        accessExpiresAt // set for time-limited access; buying again renews it
     };
 
     res.success("Course fetched successfully", courseWithEnrollmentStatus)
@@ -344,7 +369,8 @@ export const updateCourseStatus = asyncHandler(async (req: Request<{ id: string
     // clear cache when course status changes
     await clearCacheByPrefix(COURSE_CACHE_PREFIX)
     await clearCacheByPrefix(COURSE_ADMIN_CACHE_PREFIX)
-    res.success("Course published successfully", course)
+    await clearCacheByPrefix(BUNDLE_CACHE_PREFIX)
+    res.success("Course published successfully", withMajorPrices(course))
 })
 
 export const getEnrolledCourses = asyncHandler(async (req: Request, res: Response) => {
@@ -382,8 +408,10 @@ export const getEnrolledCourses = asyncHandler(async (req: Request, res: Respons
 
     // Step 4: Combine courses with their progress (default to 0 if no record)
     const courses = enrollments.map(enrollment => ({
-        ...enrollment.course,
-        progress: progressMap.get(enrollment.course.id) ?? 0
+        ...withMajorPrices(enrollment.course),
+        progress: progressMap.get(enrollment.course.id) ?? 0,
+        expiresAt: enrollment.expiresAt,
+        isExpired: !isEnrollmentActive(enrollment)
     }));
 
     return res.status(200).json({
@@ -391,3 +419,38 @@ export const getEnrolledCourses = asyncHandler(async (req: Request, res: Respons
         data: courses
     });
 });
+
+// Enroll in a free course directly (paid courses go through /api/payment)
+export const enrollInFreeCourse = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const courseId = Number(req.params.id);
+    if (!Number.isInteger(courseId) || courseId <= 0) {
+        throw new ValidationError('Invalid course id')
+    }
+
+    const userId = Number(req.user.id);
+    const result = await PaymentService.enrollFreeCourse(userId, courseId);
+
+    // Enrollment counts changed
+    await deleteCache(`user-analytics:${userId}`)
+    await deleteCache(`course-analytics:${courseId}`)
+
+    res.success(`Enrolled in ${result.data.courseTitle} successfully`, result.data, 201)
+})
+
+// Admin: set fixed prices in other currencies (others use the exchange rate)
+// Body prices are in major units, like the course price itself
+export const setCoursePrices = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const courseId = Number(req.params.id);
+    if (!Number.isInteger(courseId) || courseId <= 0) {
+        throw new ValidationError('Invalid course id')
+    }
+
+    const body: { currency: string; price: number; originalPrice?: number }[] = req.body.prices
+    const prices = await saveCoursePrices(courseId, body.map(p => ({
+        currency: p.currency,
+        price: toMinorUnits(p.price),
+        originalPrice: p.originalPrice === undefined ? undefined : toMinorUnits(p.originalPrice)
+    })))
+
+    res.success("Course prices updated successfully", prices.map(withMajorPrices))
+})
@@ -3,9 +3,12 @@ import asyncHandler from "../utils/async_handler.utils";
 import { prisma } from "../prisma";
 import { getCache, setCache, DASHBOARD_CACHE_KEY } from "../utils/cache";
 import { slugify } from "../utils/slugify.utils";
+import { BASE_CURRENCY, toBaseAmount } from "../utils/currency.utils";
+import { sumMinorUnits, toMajorUnits, toMajorUnitsOrNull } from "../utils/money.utils";
+import { getCartRecoveryStats } from "../services/cart-recovery.service";
 
 const DASHBOARD_CACHE_TTL = 300;
-const CACHE_KEY_VERSION = "v3"; // Force refresh for coupon analytics
+const CACHE_KEY_VERSION = "v7"; // Force refresh for abandoned cart recovery stats
 
 export interface MonthlyData {
     month: string;
@@ -20,7 +23,9 @@ export interface RecentOrder {
     userId: number;
     userName: string;
     userEmail: string;
-    amount: number;
+    amount: number;      // in the currency the student paid in
+    currency: string;
+    baseAmount: number;  // converted to the base currency
     status: string;
     createdAt: Date;
     couponCode: string | null;
@@ -57,7 +62,17 @@ export interface CouponAnalytics {
     discountsByDay: MonthlyData[];
 }
 
+export interface CartRecoveryAnalytics {
+    remindersSent: number;
+    abandonedCarts: number;      // carts that got at least one reminder
+    recoveredCarts: number;      // checked out within a week of a reminder
+    recoveredWithCoupon: number;
+    recoveryRate: number;        // percent of abandoned carts
+    recoveredRevenue: number;
+}
+
 export interface BaseDashboardAnalytics {
+    baseCurrency: string; // every revenue figure is converted to this
     totalUsers: number;
     totalStudents: number;
     totalCourses: number;
@@ -77,7 +92,14 @@ export interface BaseDashboardAnalytics {
 }
 
 export interface DashboardAnalytics extends BaseDashboardAnalytics {
+    totalRefunds: number; // totalRevenue is already net of these
     couponAnalytics: CouponAnalytics;
+    cartRecoveryAnalytics: CartRecoveryAnalytics;
+}
+
+// Sum order amounts grouped by exchange rate, converted to the base currency (minor units)
+function sumInBaseCurrency(groups: { exchangeRate: number; _sum: { [field: string]: number | null } | undefined }[], field: string): number {
+    return sumMinorUnits(groups.map(group => toBaseAmount(group._sum?.[field] || 0, group.exchangeRate)));
 }
 
 function formatMonthYear(date: Date): string {
@@ -144,6 +166,7 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
         totalEnrollments,
         totalCertificates,
         revenueResult,
+        refundsResult,
         completedOrders,
         userRegistrations,
         enrollments,
@@ -164,13 +187,21 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
         prisma.course.count({ where: { status: "PUBLISHED" } }),
         prisma.enrollment.count(),
         prisma.certificate.count(),
-        prisma.order.aggregate({
-            where: { status: "COMPLETED" },
-            _sum: { amount: true }
+        // refunded orders still count, minus what was given back
+        // grouped by the rate fixed at checkout so every currency converts to base
+        prisma.order.groupBy({
+            by: ['exchangeRate'],
+            where: { status: { in: ["COMPLETED", "REFUNDED"] } },
+            _sum: { amount: true, refundedAmount: true },
+            orderBy: { exchangeRate: 'asc' }
+        }),
+        prisma.refund.findMany({
+            where: { status: { not: "FAILED" } },
+            select: { amount: true, order: { select: { exchangeRate: true } } }
         }),
         prisma.order.findMany({
-            where: { status: "COMPLETED", createdAt: { gte: twelveMonthsAgo } },
-            select: { amount: true, createdAt: true }
+            where: { status: { in: ["COMPLETED", "REFUNDED"] }, createdAt: { gte: twelveMonthsAgo } },
+            select: { amount: true, refundedAmount: true, exchangeRate: true, createdAt: true }
         }),
         prisma.user.findMany({
             where: { createdAt: { gte: twelveMonthsAgo } },
@@ -191,6 +222,8 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
             select: {
                 id: true,
                 amount: true,
+                currency: true,
+                exchangeRate: true,
                 status: true,
                 createdAt: true,
                 courseId: true,
@@ -216,12 +249,14 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
             orderBy: { quizId: 'asc' }
         }),
         // Coupon analytics queries
-        prisma.order.aggregate({
+        prisma.order.groupBy({
+            by: ['exchangeRate'],
             where: { 
                 status: "COMPLETED",
                 discountAmount: { not: null }
             },
-            _sum: { discountAmount: true }
+            _sum: { discountAmount: true },
+            orderBy: { exchangeRate: 'asc' }
         }),
         prisma.order.count({
             where: { 
@@ -252,7 +287,7 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
                 discountAmount: { not: null },
                 createdAt: { gte: twelveMonthsAgo }
             },
-            select: { discountAmount: true, createdAt: true }
+            select: { discountAmount: true, exchangeRate: true, createdAt: true }
         })
     ]);
 
@@ -265,28 +300,29 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
     daysArray.forEach(day => revenueDayMap.set(day, 0));
 
     completedOrders.forEach(order => {
+        const netAmount = toBaseAmount(order.amount - order.refundedAmount, order.exchangeRate);
         const month = formatMonthYear(order.createdAt);
         if (revenueMap.has(month)) {
-            revenueMap.set(month, (revenueMap.get(month) || 0) + order.amount);
+            revenueMap.set(month, (revenueMap.get(month) || 0) + netAmount);
         }
         
         // check if order is within last 30 days
         if (order.createdAt >= thirtyDaysAgo) {
             const day = formatDayMonth(order.createdAt);
             if (revenueDayMap.has(day)) {
-                revenueDayMap.set(day, (revenueDayMap.get(day) || 0) + order.amount);
+                revenueDayMap.set(day, (revenueDayMap.get(day) || 0) + netAmount);
             }
         }
     });
 
     const revenueByMonth = monthsArray.map(month => ({
         month,
-        value: revenueMap.get(month) || 0
+        value: toMajorUnits(revenueMap.get(month) || 0)
     }));
 
     const revenueByDay = daysArray.map(day => ({
         month: day, // reusing 'month' key for compatibility with chart component structure
-        value: revenueDayMap.get(day) || 0
+        value: toMajorUnits(revenueDayMap.get(day) || 0)
     }));
 
     // aggregate user registrations by month and day
@@ -395,11 +431,13 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
         userName: `${order.user.firstName} ${order.user.lastName}`,
         // @ts-ignore
         userEmail: order.user.email,
-        amount: order.amount,
+        amount: toMajorUnits(order.amount),
+        currency: order.currency,
+        baseAmount: toMajorUnits(toBaseAmount(order.amount, order.exchangeRate)),
         status: order.status,
         createdAt: order.createdAt,
         couponCode: order.couponCode,
-        discountAmount: order.discountAmount
+        discountAmount: toMajorUnitsOrNull(order.discountAmount)
     }));
 
     // quiz analytics
@@ -505,33 +543,34 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
     daysArray.forEach(day => discountDayMap.set(day, 0));
 
     ordersWithDiscounts.forEach(order => {
+        const discount = toBaseAmount(order.discountAmount || 0, order.exchangeRate);
         const month = formatMonthYear(order.createdAt);
         if (discountMap.has(month)) {
-            discountMap.set(month, (discountMap.get(month) || 0) + (order.discountAmount || 0));
+            discountMap.set(month, (discountMap.get(month) || 0) + discount);
         }
 
         if (order.createdAt >= thirtyDaysAgo) {
             const day = formatDayMonth(order.createdAt);
             if (discountDayMap.has(day)) {
-                discountDayMap.set(day, (discountDayMap.get(day) || 0) + (order.discountAmount || 0));
+                discountDayMap.set(day, (discountDayMap.get(day) || 0) + discount);
             }
         }
     });
 
     const discountsByMonth = monthsArray.map(month => ({
         month,
-        value: discountMap.get(month) || 0
+        value: toMajorUnits(discountMap.get(month) || 0)
     }));
 
     const discountsByDay = daysArray.map(day => ({
         month: day,
-        value: discountDayMap.get(day) || 0
+        value: toMajorUnits(discountDayMap.get(day) || 0)
     }));
 
     const totalOrders = ordersWithCouponsCount + ordersWithoutCouponsCount;
 
     const couponAnalytics: CouponAnalytics = {
-        totalDiscountsGiven: totalDiscounts._sum.discountAmount || 0,
+        totalDiscountsGiven: toMajorUnits(sumInBaseCurrency(totalDiscounts, "discountAmount")),
         ordersWithCoupons: ordersWithCouponsCount,
         ordersWithoutCoupons: ordersWithoutCouponsCount,
         couponUsagePercentage: totalOrders > 0 
@@ -541,19 +580,27 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
             code: c.code,
             usedCount: c.usedCount,
             discountType: c.discountType,
-            discountValue: c.discountValue
+            discountValue: c.discountType === "FIXED" ? toMajorUnits(c.discountValue) : c.discountValue
         })),
         discountsByMonth,
         discountsByDay
     };
 
+    const cartRecovery = await getCartRecoveryStats();
+    const cartRecoveryAnalytics: CartRecoveryAnalytics = {
+        ...cartRecovery,
+        recoveredRevenue: toMajorUnits(cartRecovery.recoveredRevenue)
+    };
+
     const analytics: DashboardAnalytics = {
+        baseCurrency: BASE_CURRENCY,
         totalUsers,
         totalStudents,
         totalCourses,
         totalEnrollments,
         totalCertificates,
-        totalRevenue: revenueResult._sum.amount || 0,
+        totalRevenue: toMajorUnits(sumInBaseCurrency(revenueResult, "amount") - sumInBaseCurrency(revenueResult, "refundedAmount")),
+        totalRefunds: toMajorUnits(sumMinorUnits(refundsResult.map(r => toBaseAmount(r.amount, r.order.exchangeRate)))),
         revenueByMonth,
         revenueByDay,
         userRegistrationsByMonth,
@@ -564,7 +611,8 @@ export const getDashboardAnalytics = asyncHandler(async (req: Request, res: Resp
         certificatesByDay,
         recentOrders,
         quizAnalytics,
-        couponAnalytics
+        couponAnalytics,
+        cartRecoveryAnalytics
     };
 
     await setCache(`${DASHBOARD_CACHE_KEY}:${CACHE_KEY_VERSION}`, analytics, DASHBOARD_CACHE_TTL);
@@ -0,0 +1,43 @@
+import { Request, Response } from "express";
+import asyncHandler from "../utils/async_handler.utils";
+import { NotFoundError, ValidationError } from "../utils/api_error.utils";
+import { prisma } from "../prisma";
+import * as GiftService from "../services/gift.service";
+
+// Redeem a gift code (for codes sent to a different email address)
+export const redeemGift = asyncHandler(async (req: Request<{}, {}, { code: string }>, res: Response) => {
+    const userId = Number(req.user!.id);
+    const result = await GiftService.redeemGift(req.body.code, userId)
+
+    res.success(`${result.courseTitle} has been added to your courses`, result)
+})
+
+// Gifts the logged in user has bought
+export const getSentGifts = asyncHandler(async (req: Request, res: Response) => {
+    const userId = Number(req.user!.id);
+    const gifts = await GiftService.getSentGifts(userId)
+
+    res.success("Gifts fetched successfully", gifts)
+})
+
+// Send the gift email to the recipient again
+export const resendGiftEmail = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = Number(req.user!.id);
+    const giftId = Number(req.params.id);
+    if (!Number.isInteger(giftId) || giftId <= 0) {
+        throw new ValidationError('Invalid gift id')
+    }
+
+    const gift = await prisma.gift.findUnique({ where: { id: giftId } })
+    if (!gift || gift.purchaserId !== userId || gift.status === "AWAITING_PAYMENT") {
+        throw new NotFoundError('Gift not found')
+    }
+
+    if (gift.status !== "SENT") {
+        throw new ValidationError(gift.status === "REDEEMED" ? 'This gift has already been redeemed' : 'This gift is no longer valid')
+    }
+
+    await GiftService.sendGiftEmails({ id: gift.id }, true)
+
+    res.success(`Gift email sent to ${gift.recipientEmail}`)
+})
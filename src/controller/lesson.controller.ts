@@ -5,6 +5,7 @@ import { CreateLessonDto } from "../dtos/lesson.dtos";
 import { Request, Response } from "express";
 import { ValidationError } from "../utils/api_error.utils";
 import { prisma } from "../prisma";
+import { hasCourseAccess } from "../services/access.service";
 import { clearCacheByPrefix, COURSE_ADMIN_CACHE_PREFIX, COURSE_CACHE_PREFIX } from "../utils/cache";
 
 import { logger } from "../config/logger.config";
@@ -431,10 +432,7 @@ export const markLessonComplete = asyncHandler(async (req: Request<{ id: string
     if (!lesson) throw new ValidationError("Lesson not found");
 
     const courseId = lesson.section.courseId;
-    const enrollment = await prisma.enrollment.findUnique({
-        where: { userId_courseId: { userId, courseId } }
-    });
-    if (!enrollment) throw new ValidationError("Not enrolled in this course");
+    if (!(await hasCourseAccess(userId, courseId))) throw new ValidationError("Not enrolled in this course");
 
     // Wrap in transaction for atomic
     // Prevents progress mismatch if server crashes mid-operation
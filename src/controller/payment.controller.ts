@@ -1,19 +1,217 @@
 import { Request, Response } from "express";
+import { PaymentProvider, Prisma, Refund } from "@prisma/client";
 import asyncHandler from "../utils/async_handler.utils";
+import { ValidationError } from "../utils/api_error.utils";
 import { prisma } from "../prisma";
 import * as PaymentService from "../services/payment/payment.service";
+import { BillingDetails, getOrderInvoice } from "../services/invoice.service";
+import * as PricingService from "../services/pricing.service";
 import { sendMail } from "../utils/send_mail.utils";
 import { paymentSuccessTemplate } from "../template/payment-success.template";
 import { cartPaymentSuccessTemplate } from "../template/cart-payment-success.template";
+import { refundProcessedTemplate } from "../template/refund-processed.template";
+import { renderInvoicePdf } from "../template/invoice-pdf.template";
+import { deleteCache } from "../utils/cache";
 import { logger } from "../config/logger.config";
+import { sumMinorUnits, toMajorUnits, toMajorUnitsOrNull, toMinorUnits } from "../utils/money.utils";
+import { GiftDetails, sendGiftEmails } from "../services/gift.service";
+import sanitizeHtml from "sanitize-html";
+
+// Refund record with its amount in major units for the API
+const serializeRefund = (refund: Refund) => ({ ...refund, amount: toMajorUnits(refund.amount) });
+
+/**
+ * Send "Payment Successful" email for a single-course order
+ * Never throws - email problems must not affect the payment response
+ */
+const sendPaymentSuccessEmail = async (where: Prisma.OrderWhereInput, fallbackPaymentId?: string) => {
+    try {
+        // Fetch order with course and user details for email
+        const order = await prisma.order.findFirst({
+            where,
+            include: {
+                course: { select: { id: true, title: true, price: true, originalPrice: true } },
+                user: { select: { firstName: true, email: true } },
+                payment: { select: { gatewayPaymentId: true } },
+                checkoutSession: { select: { gatewayOrderId: true } },
+            },
+        });
+
+        if (order && order.user.email) {
+            const emailHtml = paymentSuccessTemplate({
+                firstName: order.user.firstName,
+                courseName: order.course.title,
+                courseId: order.course.id,
+                amount: toMajorUnits(order.amount + (order.discountAmount || 0)), // Sale price, the template subtracts the discount
+                currency: order.currency,
+                orderId: order.checkoutSession?.gatewayOrderId || `ORD-${order.id}`,
+                paymentId: order.payment?.gatewayPaymentId || fallbackPaymentId || 'N/A',
+                purchaseDate: order.createdAt,
+                originalPrice: toMajorUnits(order.originalPrice ?? order.course.originalPrice ?? order.course.price),
+                discountAmount: toMajorUnits(order.discountAmount || 0),
+                couponCode: order.couponCode || undefined,
+            });
+
+            await sendMail(
+                order.user.email,
+                `🎉 Payment Successful - ${order.course.title}`,
+                emailHtml
+            );
+            logger.info(`Payment success email sent to ${order.user.email}`);
+        }
+    } catch (e: any) {
+        logger.error(`Failed to send payment success email: ${e.message}`);
+    }
+};
+
+/**
+ * Send "Order Confirmed" email for a cart checkout (multiple courses)
+ * Never throws - email problems must not affect the payment response
+ */
+const sendCartPaymentSuccessEmail = async (where: Prisma.OrderWhereInput, fallbackPaymentId?: string) => {
+    try {
+        // Fetch all orders from this checkout with course and user details
+        const orders = await prisma.order.findMany({
+            where,
+            include: {
+                course: { select: { id: true, title: true, price: true, originalPrice: true } },
+                user: { select: { firstName: true, email: true } },
+                payment: { select: { gatewayPaymentId: true } },
+                checkoutSession: { select: { gatewayOrderId: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        const firstOrder = orders[0];
+        if (orders.length > 0 && firstOrder && firstOrder.user.email) {
+            const items = orders.map(order => ({
+                courseName: order.course.title,
+                courseId: order.course.id,
+                amount: toMajorUnits(order.amount),
+                originalPrice: toMajorUnits(order.originalPrice ?? order.course.originalPrice ?? order.course.price),
+            }));
+
+            const totalAmount = toMajorUnits(sumMinorUnits(orders.map(o => o.amount)));
+
+            const emailHtml = cartPaymentSuccessTemplate({
+                firstName: firstOrder.user.firstName,
+                items,
+                totalAmount,
+                currency: firstOrder.currency,
+                orderId: firstOrder.checkoutSession?.gatewayOrderId || `ORD-${firstOrder.id}`,
+                paymentId: firstOrder.payment?.gatewayPaymentId || fallbackPaymentId || 'N/A',
+                purchaseDate: firstOrder.createdAt,
+            });
+
+            await sendMail(
+                firstOrder.user.email,
+                `🛒 Order Confirmed - ${items.length} Course${items.length > 1 ? 's' : ''} Purchased`,
+                emailHtml
+            );
+            logger.info(`Cart payment success email sent to ${firstOrder.user.email}`);
+        }
+    } catch (e: any) {
+        logger.error(`Failed to send cart payment success email: ${e.message}`);
+    }
+};
+
+/**
+ * Send "Refund Processed" email for one refunded order
+ * Also clears the analytics caches the refund made stale.
+ * Never throws - email problems must not affect the refund response
+ */
+const sendRefundEmail = async (
+    orderId: number,
+    details: { refund: Refund; isFullRefund: boolean }
+) => {
+    try {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: {
+                course: { select: { title: true } },
+                user: { select: { id: true, firstName: true, email: true } },
+                checkoutSession: { select: { gatewayOrderId: true } },
+            },
+        });
+
+        if (order && order.user.email) {
+            await deleteCache(`user-analytics:${order.user.id}`);
+            await deleteCache(`course-analytics:${order.courseId}`);
+
+            const emailHtml = refundProcessedTemplate({
+                firstName: order.user.firstName,
+                courseName: order.course.title,
+                refundAmount: toMajorUnits(details.refund.amount),
+                totalRefunded: toMajorUnits(order.refundedAmount),
+                currency: order.currency,
+                orderId: order.checkoutSession?.gatewayOrderId || `ORD-${order.id}`,
+                refundId: details.refund.gatewayRefundId || `REF-${details.refund.id}`,
+                isFullRefund: details.isFullRefund,
+                accessRevoked: details.refund.accessRevoked,
+                reason: details.refund.reason || undefined,
+            });
+
+            await sendMail(
+                order.user.email,
+                `💸 Refund ${details.isFullRefund ? 'Processed' : 'Issued'} - ${order.course.title}`,
+                emailHtml
+            );
+            logger.info(`Refund email sent to ${order.user.email}`);
+        }
+    } catch (e: any) {
+        logger.error(`Failed to send refund email: ${e.message}`);
+    }
+};
+
+/**
+ * Billing details for the GST invoice (already validated by zod)
+ * A GSTIN decides the state on its own - its first two digits are the state code
+ */
+const getBillingDetails = (body: { billingStateCode?: string; gstin?: string }): BillingDetails => {
+    const gstin = body.gstin ? body.gstin.trim().toUpperCase() : null;
+    return {
+        stateCode: gstin ? gstin.slice(0, 2) : body.billingStateCode?.trim() || null,
+        gstin
+    };
+};
+
+/**
+ * Gift recipient from the buy-now body (already validated by zod)
+ * The message ends up in an email, so it is reduced to plain text.
+ */
+const getGiftDetails = (
+    gift: { recipientEmail: string; recipientName?: string; message?: string } | undefined,
+    buyerEmail: string
+): GiftDetails | null => {
+    if (!gift) return null;
+
+    const recipientEmail = gift.recipientEmail.trim().toLowerCase();
+    if (recipientEmail === buyerEmail.toLowerCase()) {
+        throw new ValidationError("You cannot send a gift to yourself. Use Buy Now instead.");
+    }
+
+    const message = gift.message
+        ? sanitizeHtml(gift.message, { allowedTags: [], allowedAttributes: {}, disallowedTagsMode: "recursiveEscape" }).trim()
+        : "";
+
+    return {
+        recipientEmail,
+        recipientName: gift.recipientName?.trim() || null,
+        message: message || null
+    };
+};
 
 /**
  * 1. Initiate Buy Now
  * Route: POST /api/payment/buy-now
+ *
+ * Body: { courseId } for one course or { bundleId } for a whole bundle
+ * Add { gift: { recipientEmail, recipientName?, message? } } to buy the course for someone else
+ * Add { phone } when the active gateway needs one (Cashfree)
  */
 export const initiateBuyNow = asyncHandler(async (req: Request, res: Response) => {
     const userId = Number(req.user.id);
-    const { courseId } = req.body;
+    const { courseId, bundleId } = req.body;
 
     // We pass user details for the payment receipt
     const user = await prisma.user.findUnique({
@@ -27,10 +225,15 @@ export const initiateBuyNow = asyncHandler(async (req: Request, res: Response) =
 
     const userDetails = {
         name: `${user.firstName} ${user.lastName}`,
-        email: user.email
+        email: user.email,
+        phone: req.body.phone || null
     };
 
-    const result = await PaymentService.initiateBuyNowOrder(userId, courseId, userDetails);
+    const billing = getBillingDetails(req.body);
+    const gift = getGiftDetails(req.body.gift, user.email);
+    const result = bundleId !== undefined
+        ? await PaymentService.initiateBundleOrder(userId, Number(bundleId), userDetails, billing)
+        : await PaymentService.initiateBuyNowOrder(userId, Number(courseId), userDetails, billing, gift);
 
     return res.status(200).json({
         success: true,
@@ -54,48 +257,17 @@ export const verifyPayment = asyncHandler(async (req: Request, res: Response) =>
     const result = await PaymentService.verifyPaymentSignature(userId, req.body);
 
     // Send Email in background (Fire and Forget)
-    if (result.success) {
+    // Only for orders completed by this call - if the webhook won the race it already emailed
+    const { completedOrderIds } = result;
+    if (completedOrderIds.length > 0) {
         // Fire and forget - don't await, don't block response
-        (async () => {
-            try {
-                // Fetch order with course and user details for email
-                const order = await prisma.order.findFirst({
-                    where: {
-                        gatewayOrderId: req.body.razorpay_order_id,
-                    },
-                    include: {
-                        course: { select: { id: true, title: true, price: true, originalPrice: true } },
-                        user: { select: { firstName: true, email: true } },
-                        payment: { select: { gatewayPaymentId: true } },
-                    },
-                });
-
-                if (order && order.user.email) {
-                    const emailHtml = paymentSuccessTemplate({
-                        firstName: order.user.firstName,
-                        courseName: order.course.title,
-                        courseId: order.course.id,
-                        amount: order.amount,
-                        currency: order.currency,
-                        orderId: order.gatewayOrderId || `ORD-${order.id}`,
-                        paymentId: order.payment?.gatewayPaymentId || req.body.razorpay_payment_id || 'N/A',
-                        purchaseDate: order.createdAt,
-                        originalPrice: order.originalPrice ?? order.course.originalPrice ?? order.course.price,
-                        discountAmount: order.discountAmount || 0,
-                        couponCode: order.couponCode || undefined,
-                    });
-
-                    await sendMail(
-                        order.user.email,
-                        `🎉 Payment Successful - ${order.course.title}`,
-                        emailHtml
-                    );
-                    logger.info(`Payment success email sent to ${order.user.email}`);
-                }
-            } catch (e: any) {
-                logger.error(`Failed to send payment success email: ${e.message}`);
-            }
-        })();
+        // A bundle pays for several courses at once - same email as a cart
+        const sendEmail = completedOrderIds.length > 1 ? sendCartPaymentSuccessEmail : sendPaymentSuccessEmail;
+        sendEmail(
+            { id: { in: completedOrderIds }, status: 'COMPLETED' },
+            req.body.razorpay_payment_id
+        );
+        sendGiftEmails({ orderId: { in: completedOrderIds } });
     }
 
     return res.status(200).json({
@@ -133,10 +305,8 @@ export const cancelOrder = asyncHandler(async (req: Request, res: Response) => {
     }
 
     // Mark as FAILED (allows immediate retry)
-    await prisma.order.update({
-        where: { id: orderId },
-        data: { status: "FAILED" }
-    });
+    // Cart orders share one gateway transaction - cancel the whole checkout
+    await PaymentService.cancelCheckout(order);
 
     return res.status(200).json({
         success: true,
@@ -174,6 +344,7 @@ export const updatePaymentSettings = asyncHandler(async (req: Request, res: Resp
 /**
  * 5. Initiate Cart Checkout
  * Route: POST /api/payment/checkout
+ * Body: { couponCode?, phone? } - phone is required when the active gateway is Cashfree
  */
 export const initiateCheckout = asyncHandler(async (req: Request, res: Response) => {
     const userId = Number(req.user.id);
@@ -189,22 +360,14 @@ export const initiateCheckout = asyncHandler(async (req: Request, res: Response)
 
     const userDetails = {
         name: `${user.firstName} ${user.lastName}`,
-        email: user.email
+        email: user.email,
+        phone: req.body.phone || null
     };
 
-    // Optional coupon data from frontend (validated on frontend, will be re-validated)
-    let couponData: { couponCode: string; discountAmount: number; finalAmount?: number } | undefined;
-    if (req.body.couponCode) {
-        couponData = {
-            couponCode: String(req.body.couponCode),
-            discountAmount: Number(req.body.discountAmount) || 0
-        };
-        if (req.body.finalAmount) {
-            couponData.finalAmount = Number(req.body.finalAmount);
-        }
-    }
+    // Optional coupon code from frontend (discount is re-calculated on the backend)
+    const couponCode = req.body.couponCode ? String(req.body.couponCode) : undefined;
 
-    const result = await PaymentService.initiateCartCheckout(userId, userDetails, couponData);
+    const result = await PaymentService.initiateCartCheckout(userId, userDetails, couponCode, getBillingDetails(req.body));
 
     return res.status(200).json({
         success: true,
@@ -224,54 +387,10 @@ export const verifyCheckout = asyncHandler(async (req: Request, res: Response) =
 
     // Send Cart Checkout Email in background (Fire and Forget)
     if (result.success) {
-        (async () => {
-            try {
-                // Fetch all orders from this checkout with course and user details
-                const orders = await prisma.order.findMany({
-                    where: {
-                        userId,
-                        gatewayOrderId: req.body.razorpay_order_id,
-                        status: 'COMPLETED',
-                    },
-                    include: {
-                        course: { select: { id: true, title: true, price: true, originalPrice: true } },
-                        user: { select: { firstName: true, email: true } },
-                    },
-                    orderBy: { createdAt: 'desc' },
-                });
-
-                const firstOrder = orders[0];
-                if (orders.length > 0 && firstOrder && firstOrder.user.email) {
-                    const items = orders.map(order => ({
-                        courseName: order.course.title,
-                        courseId: order.course.id,
-                        amount: order.amount,
-                        originalPrice: order.originalPrice ?? order.course.originalPrice ?? order.course.price,
-                    }));
-
-                    const totalAmount = orders.reduce((sum, o) => sum + o.amount, 0);
-
-                    const emailHtml = cartPaymentSuccessTemplate({
-                        firstName: firstOrder.user.firstName,
-                        items,
-                        totalAmount,
-                        currency: firstOrder.currency,
-                        orderId: firstOrder.gatewayOrderId || `ORD-${firstOrder.id}`,
-                        paymentId: req.body.razorpay_payment_id || 'N/A',
-                        purchaseDate: firstOrder.createdAt,
-                    });
-
-                    await sendMail(
-                        firstOrder.user.email,
-                        `🛒 Order Confirmed - ${items.length} Course${items.length > 1 ? 's' : ''} Purchased`,
-                        emailHtml
-                    );
-                    logger.info(`Cart payment success email sent to ${firstOrder.user.email}`);
-                }
-            } catch (e: any) {
-                logger.error(`Failed to send cart payment success email: ${e.message}`);
-            }
-        })();
+        sendCartPaymentSuccessEmail(
+            { userId, checkoutSessionId: result.checkoutSessionId, status: 'COMPLETED' },
+            req.body.razorpay_payment_id
+        );
     }
 
     return res.status(200).json({
@@ -308,6 +427,11 @@ export const getPurchaseHistory = asyncHandler(async (req: Request, res: Respons
                     gatewayPaymentId: true,
                     provider: true,
                 }
+            },
+            checkoutSession: {
+                select: {
+                    gatewayOrderId: true,
+                }
             }
         },
         orderBy: {
@@ -318,7 +442,211 @@ export const getPurchaseHistory = asyncHandler(async (req: Request, res: Respons
     return res.status(200).json({
         success: true,
         message: "Purchase history fetched",
-        data: orders
+        data: orders.map(order => ({
+            ...order,
+            amount: toMajorUnits(order.amount),
+            originalPrice: toMajorUnitsOrNull(order.originalPrice),
+            discountAmount: toMajorUnitsOrNull(order.discountAmount),
+            refundedAmount: toMajorUnits(order.refundedAmount),
+            course: {
+                ...order.course,
+                price: toMajorUnits(order.course.price),
+                originalPrice: toMajorUnitsOrNull(order.course.originalPrice)
+            }
+        }))
+    });
+});
+
+
+/**
+ * 8. Payment Webhook (Server-to-Server)
+ * Route: POST /api/payment/webhook/:provider
+ *
+ * Called by the gateway itself, NOT the browser - no auth token.
+ * Trust comes from the webhook signature, verified against the RAW body.
+ */
+export const handlePaymentWebhook = asyncHandler(async (req: Request<{ provider: string }>, res: Response) => {
+    const provider = String(req.params.provider || "").toUpperCase();
+
+    if (!Object.values(PaymentProvider).includes(provider as PaymentProvider)) {
+        throw new ValidationError("Unknown payment provider.");
+    }
+
+    if (!req.rawBody) {
+        throw new ValidationError("Webhook body is required.");
+    }
+
+    const result = await PaymentService.processPaymentWebhook(provider as PaymentProvider, {
+        rawBody: req.rawBody,
+        headers: req.headers
+    });
+
+    // Student may have closed the tab - this is their only confirmation email
+    if (result.completedOrderIds.length === 1) {
+        sendPaymentSuccessEmail({ id: result.completedOrderIds[0]! });
+    } else if (result.completedOrderIds.length > 1) {
+        sendCartPaymentSuccessEmail({ id: { in: result.completedOrderIds } });
+    }
+    if (result.completedOrderIds.length > 0) {
+        sendGiftEmails({ orderId: { in: result.completedOrderIds } });
+    }
+
+    return res.status(200).json({
+        success: true,
+        message: result.message
     });
 });
 
+/**
+ * 9. Refund Order (Admin)
+ * Route: POST /api/payment/refund/:orderId
+ *
+ * Body: { amount?: number, reason?: string, revokeAccess?: boolean }
+ * amount is in major units (e.g. 499.50). Leaving it out refunds everything still refundable.
+ */
+export const refundOrder = asyncHandler(async (req: Request<{ orderId: string }>, res: Response) => {
+    const orderId = Number(req.params.orderId);
+    const { amount, reason, revokeAccess } = req.body;
+
+    if (Number.isNaN(orderId) || orderId <= 0) {
+        throw new ValidationError("Invalid order ID");
+    }
+
+    const result = await PaymentService.refundOrder(orderId, Number(req.user.id), {
+        amount: amount === undefined ? undefined : toMinorUnits(Number(amount)),
+        reason: reason || undefined,
+        revokeAccess: revokeAccess === true
+    });
+
+    // Notify the student in background (Fire and Forget)
+    sendRefundEmail(orderId, {
+        refund: result.refund,
+        isFullRefund: result.isFullRefund
+    });
+
+    return res.status(200).json({
+        success: true,
+        message: result.isFullRefund ? "Order fully refunded" : "Partial refund issued",
+        data: {
+            refund: serializeRefund(result.refund),
+            isFullRefund: result.isFullRefund,
+            totalRefunded: toMajorUnits(result.totalRefunded)
+        }
+    });
+});
+
+/**
+ * 9b. Refund Checkout (Admin)
+ * Route: POST /api/payment/refund/checkout/:checkoutSessionId
+ *
+ * Body: { reason?: string, revokeAccess?: boolean }
+ * Fully refunds every order paid by one gateway transaction (e.g. a cart).
+ */
+export const refundCheckout = asyncHandler(async (req: Request<{ checkoutSessionId: string }>, res: Response) => {
+    const checkoutSessionId = Number(req.params.checkoutSessionId);
+    const { reason, revokeAccess } = req.body;
+
+    if (Number.isNaN(checkoutSessionId) || checkoutSessionId <= 0) {
+        throw new ValidationError("Invalid checkout ID");
+    }
+
+    const result = await PaymentService.refundCheckout(checkoutSessionId, Number(req.user.id), {
+        reason: reason || undefined,
+        revokeAccess: revokeAccess === true
+    });
+
+    // Notify the student about each course in background (Fire and Forget)
+    for (const refund of result.refunds) {
+        sendRefundEmail(refund.orderId, { refund, isFullRefund: true });
+    }
+
+    return res.status(200).json({
+        success: true,
+        message: `Refunded ${result.refunds.length} order(s)`,
+        data: {
+            refunds: result.refunds.map(serializeRefund),
+            totalRefunded: toMajorUnits(result.totalRefunded)
+        }
+    });
+});
+
+/**
+ * 10. Reconciliation Reports (Admin)
+ * Route: GET /api/payment/reconciliation-reports?limit=20
+ *
+ * Results of the scheduled job that settles stale PENDING orders.
+ */
+export const getReconciliationReports = asyncHandler(async (req: Request, res: Response) => {
+    const limit = req.query.limit ? Number(req.query.limit) : 20;
+
+    if (!Number.isInteger(limit) || limit <= 0 || limit > 100) {
+        throw new ValidationError("Limit must be a whole number between 1 and 100");
+    }
+
+    const reports = await PaymentService.getReconciliationReports(limit);
+
+    return res.status(200).json({
+        success: true,
+        message: "Reconciliation reports fetched",
+        data: reports
+    });
+});
+
+/**
+ * 11. Download GST Invoice
+ * Route: GET /api/payment/invoice/:orderId
+ *
+ * PDF tax invoice for a paid order, followed by a credit note page per refund.
+ * Students get their own orders only; admins can download any.
+ */
+export const downloadInvoice = asyncHandler(async (req: Request<{ orderId: string }>, res: Response) => {
+    const orderId = Number(req.params.orderId);
+
+    if (!Number.isInteger(orderId) || orderId <= 0) {
+        throw new ValidationError("Invalid order ID");
+    }
+
+    const invoice = await getOrderInvoice(orderId, {
+        id: Number(req.user.id),
+        isAdmin: req.user.role === "ADMIN"
+    });
+
+    const pdf = await renderInvoicePdf(invoice);
+    const fileName = `invoice-${invoice.invoiceNumber.replace(/\//g, "-")}.pdf`;
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Content-Length", pdf.length);
+    return res.status(200).send(pdf);
+});
+
+/**
+ * 12. Get Exchange Rates (Admin)
+ * Route: GET /api/payment/exchange-rates
+ */
+export const getExchangeRates = asyncHandler(async (_req: Request, res: Response) => {
+    const rates = await PricingService.getExchangeRates();
+
+    return res.status(200).json({
+        success: true,
+        message: "Exchange rates fetched",
+        data: rates
+    });
+});
+
+/**
+ * 13. Update Exchange Rate (Admin)
+ * Route: PUT /api/payment/exchange-rates/:currency
+ *
+ * Body: { baseRate: number } - e.g. 1 USD = 83.5 INR -> 83.5
+ * Orders already placed keep the rate they were paid at.
+ */
+export const updateExchangeRate = asyncHandler(async (req: Request<{ currency: string }>, res: Response) => {
+    const rate = await PricingService.setExchangeRate(req.params.currency, req.body.baseRate, Number(req.user.id));
+
+    return res.status(200).json({
+        success: true,
+        message: `Exchange rate for ${rate.currency} updated`,
+        data: rate
+    });
+});
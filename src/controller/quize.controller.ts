@@ -1,9 +1,10 @@
 import { prisma } from "../prisma";
 import asyncHandler from "../utils/async_handler.utils";
 import { Request, Response } from "express";
-import { ValidationError } from "../utils/api_error.utils";
+import { AuthError, ValidationError } from "../utils/api_error.utils";
 import { upsertQuizeSchema } from "../validation/quize.validation";
 import { logger } from "../config/logger.config";
+import { hasCourseAccess } from "../services/access.service";
 
 export const upsertQuize = asyncHandler(
     async (req: Request, res: Response) => {
@@ -159,6 +160,7 @@ export const submitQuiz = asyncHandler(
         const quiz = await prisma.quize.findUnique({
             where: { id: quizId },
             include: {
+                section: { select: { courseId: true } },
                 questions: {
                     include: { options: true }
                 }
@@ -169,6 +171,10 @@ export const submitQuiz = asyncHandler(
             throw new ValidationError("Quiz not found");
         }
 
+        if (!(await hasCourseAccess(userId, quiz.section.courseId))) {
+            throw new AuthError("You must be enrolled in this course to submit this quiz");
+        }
+
         // Calculate score
         let correct = 0;
         const total = quiz.questions.length;
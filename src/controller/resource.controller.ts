@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import asyncHandler from "../utils/async_handler.utils";
 import { prisma } from "../prisma";
+import { hasCourseAccess } from "../services/access.service";
 import { ValidationError, NotFoundError, AuthError } from "../utils/api_error.utils";
 import path from "path";
 import fs from "fs";
@@ -32,15 +33,8 @@ export const getResourceMetadata = asyncHandler(async (req: Request<{ resourceId
 
     const courseId = resource.lesson.section.courseId;
 
-    // Check enrollment
-    const enrollment = await prisma.enrollment.findFirst({
-        where: {
-            userId: userId,
-            courseId: courseId
-        }
-    });
-
-    if (!enrollment) {
+    // Check enrollment (or a membership covering the course)
+    if (!(await hasCourseAccess(userId, courseId))) {
         throw new AuthError("You must be enrolled in this course to access this resource");
     }
 
@@ -101,15 +95,8 @@ export const getProtectedResource = asyncHandler(async (req: Request<{ resourceI
 
     const courseId = resource.lesson.section.courseId;
 
-    // Check if user is enrolled in the course
-    const enrollment = await prisma.enrollment.findFirst({
-        where: {
-            userId: userId,
-            courseId: courseId
-        }
-    });
-
-    if (!enrollment) {
+    // Check if user is enrolled in the course (or has a membership covering it)
+    if (!(await hasCourseAccess(userId, courseId))) {
         throw new AuthError("You must be enrolled in this course to access this resource");
     }
 
@@ -2,6 +2,7 @@ import { Request, Response } from "express"
 import asyncHandler from "../utils/async_handler.utils"
 import { prisma } from "../prisma"
 import { ApiError } from "../utils/api_error.utils"
+import { hasCourseAccess } from "../services/access.service"
 import sanitizeHtml from "sanitize-html"
 
 /**
@@ -68,14 +69,8 @@ export const submitReview = asyncHandler(async (req: Request, res: Response) =>
     // Sanitize comment - production-level XSS protection
     const sanitizedComment = sanitizeComment(comment)
 
-    // Check if user is enrolled in the course
-    const enrollment = await prisma.enrollment.findUnique({
-        where: {
-            userId_courseId: { userId, courseId }
-        }
-    })
-
-    if (!enrollment) {
+    // Check if user has access to the course (unexpired enrollment or a covering membership)
+    if (!(await hasCourseAccess(userId, courseId))) {
         throw new ApiError(403, "You must be enrolled in this course to leave a review")
     }
 
@@ -0,0 +1,35 @@
+import { Request, Response } from "express";
+import asyncHandler from "../utils/async_handler.utils";
+import { NotFoundError } from "../utils/api_error.utils";
+import { getActiveSessions, invalidateAllSessions, invalidateSession } from "../services/session.service";
+
+// Devices the user is logged in on; the one making the request is flagged
+export const listSessions = asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await getActiveSessions(req.user.id);
+
+    res.success("Active sessions fetched successfully", sessions.map(session => ({
+        ...session,
+        isCurrent: session.id === req.user.sessionId
+    })));
+});
+
+// Log out one device (revoking the current one is the same as logging out)
+export const revokeSession = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const sessions = await getActiveSessions(req.user.id);
+
+    // Someone else's session looks exactly like a missing one
+    if (!sessions.some(session => session.id === req.params.id)) {
+        throw new NotFoundError("Session not found");
+    }
+
+    await invalidateSession(req.params.id);
+
+    res.success("Session revoked successfully", { revokedSessionId: req.params.id });
+});
+
+// Log out every device except the one making the request
+export const revokeOtherSessions = asyncHandler(async (req: Request, res: Response) => {
+    const revokedCount = await invalidateAllSessions(req.user.id, req.user.sessionId);
+
+    res.success("Other sessions revoked successfully", { revokedCount });
+});
@@ -0,0 +1,113 @@
+import { Request, Response } from "express";
+import asyncHandler from "../utils/async_handler.utils";
+import { ValidationError } from "../utils/api_error.utils";
+import { CreatePlanDto, UpdatePlanDto, StartSubscriptionDto, VerifySubscriptionDto } from "../dtos/subscription.dtos";
+import * as SubscriptionService from "../services/subscription.service";
+import { BASE_CURRENCY } from "../utils/currency.utils";
+import { toMajorUnits, toMinorUnits } from "../utils/money.utils";
+
+// Plan prices are stored in minor units of the base currency
+const serializePlan = <T extends { price: number }>(plan: T) => ({
+    ...plan,
+    price: toMajorUnits(plan.price),
+    currency: BASE_CURRENCY
+});
+
+const parseId = (id: string | undefined, label: string) => {
+    const parsed = Number(id);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new ValidationError(`Invalid ${label} id`)
+    }
+    return parsed;
+};
+
+// Admin: create a plan (also created on the active payment gateway)
+export const createPlan = asyncHandler(async (req: Request<{}, {}, CreatePlanDto>, res: Response) => {
+    const { name, description, interval, price, categoryId } = req.body;
+
+    const plan = await SubscriptionService.createPlan({
+        name,
+        description: description?.trim() || null,
+        interval,
+        price: toMinorUnits(price),
+        categoryId: categoryId ?? null
+    })
+
+    res.success("Plan created successfully", serializePlan(plan), 201)
+})
+
+// Admin: rename, describe or retire a plan
+export const updatePlan = asyncHandler(async (req: Request<{ id: string }, {}, UpdatePlanDto>, res: Response) => {
+    const planId = parseId(req.params.id, 'plan');
+    const { name, description, isActive } = req.body;
+
+    const plan = await SubscriptionService.updatePlan(planId, {
+        name,
+        description: description === undefined ? undefined : description?.trim() || null,
+        isActive
+    })
+
+    res.success("Plan updated successfully", serializePlan(plan))
+})
+
+// Membership plans (admins also see retired ones)
+export const getPlans = asyncHandler(async (req: Request, res: Response) => {
+    const plans = await SubscriptionService.listPlans(req.user?.role === "ADMIN")
+
+    res.success("Plans fetched successfully", plans.map(serializePlan))
+})
+
+// Student: own subscriptions with their payments
+export const getMySubscriptions = asyncHandler(async (req: Request, res: Response) => {
+    const userId = Number(req.user!.id);
+    const subscriptions = await SubscriptionService.getUserSubscriptions(userId)
+
+    res.success("Subscriptions fetched successfully", subscriptions.map(subscription => ({
+        ...subscription,
+        plan: serializePlan(subscription.plan),
+        payments: subscription.payments.map(p => ({ ...p, amount: toMajorUnits(p.amount) }))
+    })))
+})
+
+// Student: start a subscription, returns what the gateway checkout needs
+export const startSubscription = asyncHandler(async (req: Request<{}, {}, StartSubscriptionDto>, res: Response) => {
+    const userId = Number(req.user!.id);
+    const result = await SubscriptionService.startSubscription(userId, req.body.planId)
+
+    res.success("Subscription created. Complete the payment to activate it.", {
+        ...result,
+        plan: serializePlan(result.plan)
+    }, 201)
+})
+
+// Student: confirm the authorisation payment
+export const verifySubscription = asyncHandler(async (req: Request<{}, {}, VerifySubscriptionDto>, res: Response) => {
+    const userId = Number(req.user!.id);
+    const { gatewaySubscriptionId, gatewayPaymentId, gatewaySignature } = req.body;
+
+    const result = await SubscriptionService.verifySubscription(userId, {
+        gatewaySubscriptionId,
+        gatewayPaymentId,
+        gatewaySignature
+    })
+
+    res.success(
+        result.activated ? "Membership activated successfully" : "Payment authorised. Your membership will activate shortly.",
+        result.subscription
+    )
+})
+
+// Student: cancel (paid subscriptions keep access until the period ends)
+export const cancelSubscription = asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+    const userId = Number(req.user!.id);
+    const subscriptionId = parseId(req.params.id, 'subscription');
+
+    const subscription = await SubscriptionService.cancelSubscription(userId, subscriptionId)
+
+    res.success(
+        subscription.cancelAtPeriodEnd
+            ? "Subscription cancelled. You keep access until the end of the current period."
+            : "Subscription cancelled",
+        subscription
+    )
+})
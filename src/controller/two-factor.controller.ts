@@ -0,0 +1,39 @@
+import { Request, Response } from "express";
+import asyncHandler from "../utils/async_handler.utils";
+import { DisableTwoFactorDTO, TwoFactorCodeDTO } from "../dtos/auth.dtos";
+import {
+    disableTwoFactor,
+    enableTwoFactor,
+    getTwoFactorStatus,
+    regenerateRecoveryCodes,
+    startTwoFactorSetup
+} from "../services/two-factor.service";
+
+// Whether 2FA is on (and required), plus unused recovery codes left
+export const getStatus = asyncHandler(async (req: Request, res: Response) => {
+    const status = await getTwoFactorStatus(req.user.id);
+    res.success("Two-factor status fetched successfully", status);
+});
+
+// New secret + otpauth URI to scan with an authenticator app
+export const setup = asyncHandler(async (req: Request, res: Response) => {
+    const result = await startTwoFactorSetup(req.user.id);
+    res.success("Scan the QR code with your authenticator app, then confirm a code", result);
+});
+
+// Confirm the first code from the app; recovery codes are only shown here
+export const enable = asyncHandler(async (req: Request<{}, {}, TwoFactorCodeDTO>, res: Response) => {
+    const recoveryCodes = await enableTwoFactor(req.user.id, req.body.code);
+    res.success("Two-factor authentication enabled. Login again to use it on this device.", { recoveryCodes });
+});
+
+export const disable = asyncHandler(async (req: Request<{}, {}, DisableTwoFactorDTO>, res: Response) => {
+    const { password, code, recoveryCode } = req.body;
+    await disableTwoFactor(req.user.id, password, { code, recoveryCode });
+    res.success("Two-factor authentication disabled");
+});
+
+export const regenerateCodes = asyncHandler(async (req: Request<{}, {}, TwoFactorCodeDTO>, res: Response) => {
+    const recoveryCodes = await regenerateRecoveryCodes(req.user.id, req.body.code);
+    res.success("Recovery codes regenerated. The old codes no longer work.", { recoveryCodes });
+});
@@ -5,6 +5,8 @@ import { getCache, setCache } from "../utils/cache";
 import { slugify } from "../utils/slugify.utils";
 import { BaseDashboardAnalytics, MonthlyData, RecentOrder, QuizAnalytics, CourseQuizStats } from "./dashboard.controller";
 import { ApiError } from "../utils/api_error.utils";
+import { BASE_CURRENCY, toBaseAmount } from "../utils/currency.utils";
+import { toMajorUnits } from "../utils/money.utils";
 
 const USER_ANALYTICS_CACHE_TTL = 300; // 5 minutes
 
@@ -124,7 +126,7 @@ export const getUserAnalytics = asyncHandler(async (req: Request, res: Response)
         prisma.certificate.count({ where: { userId } }),
         prisma.order.findMany({
             where: { userId, status: "COMPLETED", createdAt: { gte: twelveMonthsAgo } },
-            select: { amount: true, createdAt: true }
+            select: { amount: true, exchangeRate: true, createdAt: true }
         }),
         prisma.enrollment.findMany({
             where: { userId, createdAt: { gte: twelveMonthsAgo } },
@@ -141,6 +143,8 @@ export const getUserAnalytics = asyncHandler(async (req: Request, res: Response)
             select: {
                 id: true,
                 amount: true,
+                currency: true,
+                exchangeRate: true,
                 status: true,
                 createdAt: true,
                 courseId: true,
@@ -178,28 +182,29 @@ export const getUserAnalytics = asyncHandler(async (req: Request, res: Response)
 
     // For user, revenue = spending
     completedOrders.forEach(order => {
-        totalSpent += order.amount;
+        const amount = toBaseAmount(order.amount, order.exchangeRate);
+        totalSpent += amount;
         const month = formatMonthYear(order.createdAt);
         if (revenueMap.has(month)) {
-            revenueMap.set(month, (revenueMap.get(month) || 0) + order.amount);
+            revenueMap.set(month, (revenueMap.get(month) || 0) + amount);
         }
         
         if (order.createdAt >= thirtyDaysAgo) {
             const day = formatDayMonth(order.createdAt);
             if (revenueDayMap.has(day)) {
-                revenueDayMap.set(day, (revenueDayMap.get(day) || 0) + order.amount);
+                revenueDayMap.set(day, (revenueDayMap.get(day) || 0) + amount);
             }
         }
     });
 
     const revenueByMonth = monthsArray.map(month => ({
         month,
-        value: revenueMap.get(month) || 0
+        value: toMajorUnits(revenueMap.get(month) || 0)
     }));
 
     const revenueByDay = daysArray.map(day => ({
         month: day,
-        value: revenueDayMap.get(day) || 0
+        value: toMajorUnits(revenueDayMap.get(day) || 0)
     }));
 
     // Enrollments
@@ -277,7 +282,9 @@ export const getUserAnalytics = asyncHandler(async (req: Request, res: Response)
         userName: `${order.user.firstName} ${order.user.lastName}`,
         // @ts-ignore
         userEmail: order.user.email,
-        amount: order.amount,
+        amount: toMajorUnits(order.amount),
+        currency: order.currency,
+        baseAmount: toMajorUnits(toBaseAmount(order.amount, order.exchangeRate)),
         status: order.status,
         createdAt: order.createdAt,
         couponCode: null,
@@ -388,12 +395,13 @@ export const getUserAnalytics = asyncHandler(async (req: Request, res: Response)
             isBlocked: user.isBlocked,
             isActive: user.isActive
         },
+        baseCurrency: BASE_CURRENCY,
         totalUsers: 1, // Scoped to 1 user
         totalStudents: user.role === 'STUDENT' ? 1 : 0,
         totalCourses: 0, // Not applicable
         totalEnrollments,
         totalCertificates,
-        totalRevenue: totalSpent,
+        totalRevenue: toMajorUnits(totalSpent),
         revenueByMonth,
         revenueByDay,
         userRegistrationsByMonth: [], // Not applicable
@@ -0,0 +1,163 @@
+import { Request, Response } from "express";
+import asyncHandler from "../utils/async_handler.utils";
+import { prisma } from "../prisma";
+import { ValidationError, NotFoundError } from "../utils/api_error.utils";
+import { WishlistCourseDto } from "../dtos/wishlist.dtos";
+import { withMajorPrices } from "../utils/money.utils";
+
+const WISHLIST_COURSE_SELECT = {
+    id: true,
+    title: true,
+    description: true,
+    price: true,
+    originalPrice: true,
+    thumbnail: true,
+    status: true,
+    category: {
+        select: {
+            id: true,
+            name: true
+        }
+    }
+} as const;
+
+// lastSeenPrice is internal bookkeeping for alerts
+const WISHLIST_ITEM_SELECT = {
+    id: true,
+    courseId: true,
+    addedAt: true,
+    course: { select: WISHLIST_COURSE_SELECT }
+} as const;
+
+// Published courses the student does not own for life can be saved or bought
+const getPurchasableCourse = async (userId: number, courseId: number) => {
+    const course = await prisma.course.findUnique({
+        where: { id: courseId },
+        select: { id: true, status: true, price: true }
+    });
+
+    if (!course) {
+        throw new NotFoundError("Course not found");
+    }
+
+    if (course.status !== "PUBLISHED") {
+        throw new ValidationError("This course is not available for purchase");
+    }
+
+    // Time-limited access can be renewed
+    const existingEnrollment = await prisma.enrollment.findUnique({
+        where: { userId_courseId: { userId, courseId } },
+        select: { expiresAt: true }
+    });
+
+    if (existingEnrollment && existingEnrollment.expiresAt === null) {
+        throw new ValidationError("You are already enrolled in this course");
+    }
+
+    return course;
+};
+
+export const getWishlist = asyncHandler(async (req: Request, res: Response) => {
+    const userId = Number(req.user.id);
+
+    const items = await prisma.wishlistItem.findMany({
+        where: { userId },
+        select: WISHLIST_ITEM_SELECT,
+        orderBy: { addedAt: "desc" } // Most recently added first
+    });
+
+    res.success("Wishlist fetched successfully", {
+        items: items.map(item => ({ ...item, course: withMajorPrices(item.course) })),
+        itemCount: items.length
+    });
+});
+
+export const addToWishlist = asyncHandler(async (req: Request<{}, {}, WishlistCourseDto>, res: Response) => {
+    const userId = Number(req.user.id);
+    const { courseId } = req.body;
+
+    const course = await getPurchasableCourse(userId, courseId);
+
+    const existingItem = await prisma.wishlistItem.findUnique({
+        where: { userId_courseId: { userId, courseId } }
+    });
+
+    if (existingItem) {
+        throw new ValidationError("This course is already in your wishlist");
+    }
+
+    // The current price is the baseline for price drop alerts
+    const wishlistItem = await prisma.wishlistItem.create({
+        data: { userId, courseId, lastSeenPrice: course.price },
+        select: WISHLIST_ITEM_SELECT
+    });
+
+    const itemCount = await prisma.wishlistItem.count({ where: { userId } });
+
+    res.success("Course added to wishlist successfully", {
+        wishlistItem: { ...wishlistItem, course: withMajorPrices(wishlistItem.course) },
+        itemCount
+    }, 201);
+});
+
+export const removeFromWishlist = asyncHandler(async (req: Request<{}, {}, WishlistCourseDto>, res: Response) => {
+    const userId = Number(req.user.id);
+    const { courseId } = req.body;
+
+    const { count } = await prisma.wishlistItem.deleteMany({
+        where: { userId, courseId }
+    });
+
+    if (count === 0) {
+        throw new NotFoundError("This course is not in your wishlist");
+    }
+
+    const itemCount = await prisma.wishlistItem.count({ where: { userId } });
+
+    res.success("Course removed from wishlist successfully", {
+        removedCourseId: courseId,
+        itemCount
+    });
+});
+
+// Move a wishlisted course into the cart (already in the cart counts as moved)
+export const moveToCart = asyncHandler(async (req: Request<{}, {}, WishlistCourseDto>, res: Response) => {
+    const userId = Number(req.user.id);
+    const { courseId } = req.body;
+
+    const wishlistItem = await prisma.wishlistItem.findUnique({
+        where: { userId_courseId: { userId, courseId } }
+    });
+
+    if (!wishlistItem) {
+        throw new NotFoundError("This course is not in your wishlist");
+    }
+
+    const course = await getPurchasableCourse(userId, courseId);
+
+    const cartItemCount = await prisma.$transaction(async (tx) => {
+        const cart = await tx.cart.upsert({
+            where: { userId },
+            create: { userId },
+            update: {}
+        });
+
+        await tx.cartItem.upsert({
+            where: { cartId_courseId: { cartId: cart.id, courseId } },
+            create: { cartId: cart.id, courseId, priceAtAdd: course.price },
+            update: {}
+        });
+
+        await tx.wishlistItem.delete({ where: { id: wishlistItem.id } });
+
+        return await tx.cartItem.count({ where: { cartId: cart.id } });
+    });
+
+    const wishlistItemCount = await prisma.wishlistItem.count({ where: { userId } });
+
+    res.success("Course moved to cart successfully", {
+        movedCourseId: courseId,
+        cartItemCount,
+        wishlistItemCount
+    });
+});
@@ -1,8 +1,12 @@
 import z from 'zod';
-import { changePasswordSchema, forgotPasswordResetSchema, forgotPasswordSchema, loginSchema, registerWithOtpSchema } from '../validation/auth.validation';
+import { changePasswordSchema, disableTwoFactorSchema, forgotPasswordResetSchema, forgotPasswordSchema, loginSchema, loginTwoFactorSchema, oauthCallbackSchema, registerWithOtpSchema, twoFactorCodeSchema } from '../validation/auth.validation';
 
 export type RegisterDTO = z.infer<typeof registerWithOtpSchema>;
 export type LoginDTO = z.infer<typeof loginSchema>;
 export type ChangePasswordDTO = z.infer<typeof changePasswordSchema>;
 export type ForgotPasswordDTO = z.infer<typeof forgotPasswordSchema>;
 export type ForgotPasswordResetDTO = z.infer<typeof forgotPasswordResetSchema>;
+export type LoginTwoFactorDTO = z.infer<typeof loginTwoFactorSchema>;
+export type TwoFactorCodeDTO = z.infer<typeof twoFactorCodeSchema>;
+export type DisableTwoFactorDTO = z.infer<typeof disableTwoFactorSchema>;
+export type OAuthCallbackDTO = z.infer<typeof oauthCallbackSchema>;
@@ -0,0 +1,4 @@
+import z from "zod";
+import { createBundleSchema } from "../validation/bundle.validation";
+
+export type CreateBundleDto = z.infer<typeof createBundleSchema>
@@ -0,0 +1,7 @@
+import z from "zod";
+import { createPlanSchema, updatePlanSchema, startSubscriptionSchema, verifySubscriptionSchema } from "../validation/subscription.validation";
+
+export type CreatePlanDto = z.infer<typeof createPlanSchema>
+export type UpdatePlanDto = z.infer<typeof updatePlanSchema>
+export type StartSubscriptionDto = z.infer<typeof startSubscriptionSchema>
+export type VerifySubscriptionDto = z.infer<typeof verifySubscriptionSchema>
@@ -0,0 +1,7 @@
+import { wishlistCourseSchema } from "../validation/wishlist.validation";
+import z from "zod";
+
+/**
+ * DTO for adding, removing or moving a wishlisted course
+ */
+export type WishlistCourseDto = z.infer<typeof wishlistCourseSchema>;
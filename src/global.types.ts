@@ -8,6 +8,12 @@ export interface JWTPayload {
   email: string;
   role: ROLE;
   sessionId?: string;
+  twoFactor?: boolean; // issued after a verified second factor
+}
+
+/** JWT payload for refresh tokens (jti is rotated on every refresh) */
+export interface RefreshTokenPayload extends JWTPayload {
+  jti?: string;
 }
 
 /** JWT payload for email verification tokens */
@@ -34,6 +40,7 @@ declare global {
   namespace Express {
     interface Request {
       user: JWTPayload;
+      rawBody?: string; // Unparsed JSON body (needed for webhook signature checks)
     }
   }
 }
@@ -19,6 +19,10 @@ import path from 'path';
 import fileUpload from 'express-fileupload';
 import cron from 'node-cron';
 import { cleanupOldSessions } from './jobs/session-cleanup.job';
+import { reconcileStaleOrders } from './jobs/order-reconciliation.job';
+import { sendCourseAccessReminders } from './jobs/course-access-reminder.job';
+import { sendWishlistAlerts } from './jobs/wishlist-alerts.job';
+import { sendAbandonedCartReminders } from './jobs/abandoned-cart.job';
 
 dotenv.config();
 const app = express();
@@ -93,7 +97,12 @@ app.use(
 // using cookies parser for safe cookies parsing
 app.use(cookieParser());
 // using express json middlewere for  parse JSON  Data
-app.use(express.json());
+// keep the raw body as well, payment webhooks verify signatures against it
+app.use(express.json({
+  verify: (req: Request, _res, buf) => {
+    req.rawBody = buf.toString('utf8');
+  }
+}));
 
 //use Success Response middlewere
 app.use(responseHandler);
@@ -121,4 +130,52 @@ app.listen(process.env.PORT, () => {
   });
 
   logger.info('Session cleanup job scheduled for 2 AM daily');
+
+  // Schedule stale PENDING order reconciliation every 30 minutes
+  cron.schedule('*/30 * * * *', async () => {
+    try {
+      logger.info('Running scheduled order reconciliation');
+      await reconcileStaleOrders();
+    } catch (error) {
+      logger.error('Order reconciliation cron job failed:', error);
+    }
+  });
+
+  logger.info('Order reconciliation job scheduled every 30 minutes');
+
+  // Schedule "access ends soon" emails for time-limited courses daily at 9 AM
+  cron.schedule('0 9 * * *', async () => {
+    try {
+      logger.info('Running scheduled course access reminders');
+      await sendCourseAccessReminders();
+    } catch (error) {
+      logger.error('Course access reminder cron job failed:', error);
+    }
+  });
+
+  logger.info('Course access reminder job scheduled for 9 AM daily');
+
+  // Schedule wishlist price drop and coupon emails every hour
+  cron.schedule('15 * * * *', async () => {
+    try {
+      logger.info('Running scheduled wishlist alerts');
+      await sendWishlistAlerts();
+    } catch (error) {
+      logger.error('Wishlist alert cron job failed:', error);
+    }
+  });
+
+  logger.info('Wishlist alert job scheduled every hour');
+
+  // Schedule abandoned cart reminder emails every hour
+  cron.schedule('45 * * * *', async () => {
+    try {
+      logger.info('Running scheduled abandoned cart reminders');
+      await sendAbandonedCartReminders();
+    } catch (error) {
+      logger.error('Abandoned cart reminder cron job failed:', error);
+    }
+  });
+
+  logger.info('Abandoned cart reminder job scheduled every hour');
 });
@@ -0,0 +1,112 @@
+import { prisma } from '../prisma';
+import { logger } from '../config/logger.config';
+import { sendMail } from '../utils/send_mail.utils';
+import { BASE_CURRENCY } from '../utils/currency.utils';
+import { sumMinorUnits } from '../utils/money.utils';
+import { createCartRecoveryCoupon } from '../services/coupon.service';
+import { abandonedCartTemplate } from '../template/abandoned-cart.template';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a cart sits untouched before the first reminder
+const IDLE_HOURS = Number(process.env.ABANDONED_CART_IDLE_HOURS) || 24;
+// Gap between two reminders for the same cart
+const REMINDER_INTERVAL_HOURS = Number(process.env.ABANDONED_CART_REMINDER_INTERVAL_HOURS) || 48;
+// Reminders per abandonment (adding a course to the cart starts over)
+const MAX_REMINDERS = Number(process.env.ABANDONED_CART_MAX_REMINDERS) || 3;
+// Percent off with the last reminder; 0 sends no coupon
+const COUPON_PERCENT = Number(process.env.ABANDONED_CART_COUPON_PERCENT) || 0;
+const COUPON_VALID_DAYS = Number(process.env.ABANDONED_CART_COUPON_VALID_DAYS) || 3;
+
+const BATCH_SIZE = 200;
+
+export const sendAbandonedCartReminders = async (): Promise<void> => {
+  try {
+    const now = new Date();
+    const idleSince = new Date(now.getTime() - IDLE_HOURS * HOUR_MS);
+    const remindAfter = new Date(now.getTime() - REMINDER_INTERVAL_HOURS * HOUR_MS);
+
+    let lastCartId = 0;
+    let sent = 0;
+
+    while (true) {
+      // Carts whose newest course was added before the idle cutoff
+      const carts = await prisma.cart.findMany({
+        where: {
+          id: { gt: lastCartId },
+          items: { some: {}, none: { addedAt: { gt: idleSince } } },
+          user: { isBlocked: false }
+        },
+        include: {
+          user: { select: { id: true, firstName: true, email: true } },
+          items: {
+            include: { course: { select: { title: true, price: true, status: true } } },
+            orderBy: { addedAt: 'desc' }
+          },
+          reminders: { orderBy: { sentAt: 'desc' }, take: MAX_REMINDERS }
+        },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE
+      });
+
+      if (carts.length === 0) break;
+      // Non-null: the batch is not empty
+      lastCartId = carts[carts.length - 1]!.id;
+
+      for (const cart of carts) {
+        // Non-null: only carts with items are selected (newest first)
+        const lastActivity = cart.items[0]!.addedAt;
+
+        // Reminders since the cart last changed belong to this abandonment
+        const reminders = cart.reminders.filter(r => r.sentAt >= lastActivity);
+        const latest = reminders[0];
+        if (reminders.length >= MAX_REMINDERS || (latest && latest.sentAt > remindAfter)) continue;
+
+        const items = cart.items.filter(item => item.course.status === 'PUBLISHED');
+        if (items.length === 0) continue;
+
+        // Bought something since (e.g. with Buy Now) - not abandoned
+        const completedOrders = await prisma.order.count({
+          where: { userId: cart.userId, status: 'COMPLETED', createdAt: { gte: lastActivity } }
+        });
+        if (completedOrders > 0) continue;
+
+        const reminderNumber = reminders.length + 1;
+        const coupon = COUPON_PERCENT > 0 && reminderNumber === MAX_REMINDERS
+          ? await createCartRecoveryCoupon(cart.user.email, COUPON_PERCENT, COUPON_VALID_DAYS)
+          : null;
+
+        try {
+          await sendMail(
+            cart.user.email,
+            coupon ? `🛒 ${COUPON_PERCENT}% off the courses in your cart` : '🛒 Your cart is waiting for you',
+            abandonedCartTemplate({
+              firstName: cart.user.firstName,
+              currency: BASE_CURRENCY,
+              items: items.map(item => ({ courseName: item.course.title, price: item.course.price })),
+              total: sumMinorUnits(items.map(item => item.course.price)),
+              // Non-null: recovery coupons always expire
+              coupon: coupon && { code: coupon.code, percentOff: COUPON_PERCENT, validTill: coupon.validTill! }
+            })
+          );
+          sent++;
+        } catch (error: any) {
+          // Try again on the next run; the unsent code must not stay usable
+          logger.error(`Abandoned cart reminder failed for Cart:${cart.id}: ${error.message}`);
+          if (coupon) {
+            await prisma.coupon.update({ where: { id: coupon.id }, data: { isActive: false } });
+          }
+          continue;
+        }
+
+        await prisma.cartReminder.create({
+          data: { cartId: cart.id, reminderNumber, couponId: coupon?.id ?? null, sentAt: now }
+        });
+      }
+    }
+
+    logger.info(`Abandoned cart reminders: Sent ${sent} reminders`);
+  } catch (error) {
+    logger.error('Abandoned cart reminder job failed:', error);
+  }
+};
@@ -0,0 +1,69 @@
+import { prisma } from '../prisma';
+import { logger } from '../config/logger.config';
+import { sendMail } from '../utils/send_mail.utils';
+import { courseAccessExpiringTemplate } from '../template/course-access-expiring.template';
+
+// Remind students this many days before time-limited access runs out
+const REMINDER_DAYS_BEFORE_EXPIRY = 7;
+const BATCH_SIZE = 200;
+
+export const sendCourseAccessReminders = async (): Promise<void> => {
+  try {
+    const now = new Date();
+    const remindBefore = new Date(now.getTime() + REMINDER_DAYS_BEFORE_EXPIRY * 24 * 60 * 60 * 1000);
+
+    const enrollments = await prisma.enrollment.findMany({
+      where: {
+        expiresAt: { gt: now, lte: remindBefore },
+        expiryReminderSentAt: null
+      },
+      include: {
+        user: { select: { firstName: true, email: true, isBlocked: true } },
+        course: { select: { id: true, title: true } }
+      },
+      orderBy: { expiresAt: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    let sent = 0;
+    for (const enrollment of enrollments) {
+      // Non-null: only enrollments with an expiry are selected
+      const expiresAt = enrollment.expiresAt!;
+
+      if (!enrollment.user.isBlocked) {
+        try {
+          const progress = await prisma.courseProgress.findUnique({
+            where: { userId_courseId: { userId: enrollment.userId, courseId: enrollment.courseId } },
+            select: { percentage: true }
+          });
+
+          await sendMail(
+            enrollment.user.email,
+            `⏳ Your access to ${enrollment.course.title} ends soon`,
+            courseAccessExpiringTemplate({
+              firstName: enrollment.user.firstName,
+              courseName: enrollment.course.title,
+              courseId: enrollment.course.id,
+              expiresAt,
+              progress: progress?.percentage ?? 0
+            })
+          );
+          sent++;
+        } catch (error: any) {
+          // Try again on the next run
+          logger.error(`Access reminder failed for Enrollment:${enrollment.id}: ${error.message}`);
+          continue;
+        }
+      }
+
+      await prisma.enrollment.update({
+        where: { id: enrollment.id },
+        data: { expiryReminderSentAt: now }
+      });
+    }
+
+    logger.info(`Course access reminders: Sent ${sent} of ${enrollments.length} due reminders`);
+  } catch (error) {
+    logger.error('Course access reminder job failed:', error);
+  }
+};
@@ -0,0 +1,16 @@
+import { logger } from '../config/logger.config';
+import { reconcilePendingOrders } from '../services/payment/payment.service';
+import { sendGiftEmails } from '../services/gift.service';
+
+export const reconcileStaleOrders = async (): Promise<void> => {
+  try {
+    const report = await reconcilePendingOrders(30);
+
+    logger.info(`Order reconciliation: Report ${report.id} saved (${report.checkedCount} orders checked)`);
+
+    // Gifts paid here (or whose email failed earlier) still need to reach their recipient
+    await sendGiftEmails({});
+  } catch (error) {
+    logger.error('Order reconciliation job failed:', error);
+  }
+};
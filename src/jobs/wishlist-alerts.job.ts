@@ -0,0 +1,137 @@
+import { prisma } from '../prisma';
+import { logger } from '../config/logger.config';
+import { sendMail } from '../utils/send_mail.utils';
+import { BASE_CURRENCY } from '../utils/currency.utils';
+import { formatMoney } from '../utils/money.utils';
+import { wishlistAlertTemplate } from '../template/wishlist-alert.template';
+
+const BATCH_SIZE = 200;
+
+/**
+ * Email students about their wishlist: courses whose price dropped since they
+ * last heard of it, and live coupons that apply to it (each coupon only once).
+ * Only coupons anyone could use are announced - campaign codes are handed out
+ * individually, and email-restricted ones only go to the listed students.
+ */
+export const sendWishlistAlerts = async (): Promise<void> => {
+  try {
+    const now = new Date();
+
+    const liveCoupons = (await prisma.coupon.findMany({
+      where: {
+        isActive: true,
+        campaignId: null,
+        validFrom: { lte: now },
+        OR: [{ validTill: null }, { validTill: { gt: now } }]
+      },
+      include: {
+        courses: { select: { id: true } },
+        categories: { select: { id: true } }
+      }
+    })).filter(c => c.totalUsageLimit === null || c.usedCount < c.totalUsageLimit);
+
+    let lastUserId = 0;
+    let sent = 0;
+
+    while (true) {
+      const users = await prisma.user.findMany({
+        where: { id: { gt: lastUserId }, isBlocked: false, wishlist: { some: {} } },
+        select: {
+          id: true,
+          firstName: true,
+          email: true,
+          couponAlerts: { select: { couponId: true } },
+          wishlist: {
+            include: {
+              course: { select: { id: true, title: true, price: true, status: true, categoryId: true } }
+            }
+          }
+        },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE
+      });
+
+      if (users.length === 0) break;
+      // Non-null: the batch is not empty
+      lastUserId = users[users.length - 1]!.id;
+
+      for (const user of users) {
+        const items = user.wishlist.filter(item => item.course.status === 'PUBLISHED');
+        const priceDrops = items.filter(item => item.course.price < item.lastSeenPrice);
+        const alerted = new Set(user.couponAlerts.map(a => a.couponId));
+
+        let coupons = liveCoupons
+          .filter(c => !alerted.has(c.id))
+          .filter(c => c.allowedEmails.length === 0 || c.allowedEmails.includes(user.email.toLowerCase()))
+          .map(coupon => ({
+            coupon,
+            courses: items
+              .filter(item => item.course.price > 0)
+              .filter(item => (coupon.courses.length === 0 && coupon.categories.length === 0)
+                || coupon.courses.some(c => c.id === item.course.id)
+                || coupon.categories.some(c => c.id === item.course.categoryId))
+              .map(item => item.course)
+          }))
+          .filter(entry => entry.courses.length > 0);
+
+        if (coupons.some(entry => entry.coupon.firstPurchaseOnly)) {
+          const paidOrders = await prisma.order.count({
+            where: { userId: user.id, status: { in: ['COMPLETED', 'REFUNDED'] }, amount: { gt: 0 } }
+          });
+          if (paidOrders > 0) {
+            coupons = coupons.filter(entry => !entry.coupon.firstPurchaseOnly);
+          }
+        }
+
+        if (priceDrops.length > 0 || coupons.length > 0) {
+          try {
+            await sendMail(
+              user.email,
+              priceDrops.length > 0 ? '💝 Prices dropped on your wishlist' : '💝 A coupon for your wishlist',
+              wishlistAlertTemplate({
+                firstName: user.firstName,
+                currency: BASE_CURRENCY,
+                priceDrops: priceDrops.map(item => ({
+                  courseId: item.course.id,
+                  courseName: item.course.title,
+                  oldPrice: item.lastSeenPrice,
+                  newPrice: item.course.price
+                })),
+                coupons: coupons.map(({ coupon, courses }) => ({
+                  code: coupon.code,
+                  discountLabel: coupon.discountType === 'PERCENTAGE'
+                    ? `${coupon.discountValue}% off`
+                    : `${formatMoney(coupon.discountValue, BASE_CURRENCY)} off`,
+                  validTill: coupon.validTill,
+                  courseNames: courses.map(c => c.title)
+                }))
+              })
+            );
+            sent++;
+          } catch (error: any) {
+            // Try again on the next run
+            logger.error(`Wishlist alert failed for User:${user.id}: ${error.message}`);
+            continue;
+          }
+
+          await prisma.couponAlert.createMany({
+            data: coupons.map(({ coupon }) => ({ userId: user.id, couponId: coupon.id })),
+            skipDuplicates: true
+          });
+        }
+
+        // Price rises move the baseline too, so the next drop is measured from there
+        for (const item of user.wishlist.filter(i => i.course.price !== i.lastSeenPrice)) {
+          await prisma.wishlistItem.update({
+            where: { id: item.id },
+            data: { lastSeenPrice: item.course.price }
+          });
+        }
+      }
+    }
+
+    logger.info(`Wishlist alerts: Sent ${sent} alert emails`);
+  } catch (error) {
+    logger.error('Wishlist alert job failed:', error);
+  }
+};
@@ -93,6 +93,10 @@ export const isAdmin = async (req: Request, res: Response, next: NextFunction) =
     if (user.role !== "ADMIN") {
         throw new ApiError(401, 'Admin access required');
     }
+    // Admin tokens only count when the login passed two-factor authentication
+    if (!user.twoFactor) {
+        throw new ApiError(403, 'Two-factor authentication is required for admin access. Set it up and login again.');
+    }
     next();
 }
 
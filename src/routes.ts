@@ -7,6 +7,7 @@ import lessonRouter from './routes/lesson.routes';
 import bunnyRouter from './routes/bunny.routes';
 import { quizeRouter } from './routes/quize.routes';
 import { cartRouter } from './routes/cart.routes';
+import { wishlistRouter } from './routes/wishlist.routes';
 import { paymentRouter } from './routes/payment.routes';
 import resourceRouter from './routes/resource.routes';
 import { certificateRouter } from './routes/certificate.routes';
@@ -14,6 +15,9 @@ import reviewRouter from './routes/review.routes';
 import { dashboardRouter } from './routes/dashboard.routes';
 import userRouter from './routes/user.routes';
 import couponRouter from './routes/coupon.routes';
+import { bundleRouter } from './routes/bundle.routes';
+import { subscriptionRouter } from './routes/subscription.routes';
+import { giftRouter } from './routes/gift.routes';
 
 
 const router = Router();
@@ -24,6 +28,12 @@ router.use('/auth', authRouter);
 router.use('/categories', categoryRouter);
 // Course Routes
 router.use('/courses', courseRouter);
+// Bundle Routes
+router.use('/bundles', bundleRouter);
+// Membership Subscription Routes
+router.use('/subscriptions', subscriptionRouter);
+// Gift Routes
+router.use('/gifts', giftRouter);
 // Section Routes
 router.use('/sections', sectionRouter);
 // Lesson Routes
@@ -34,6 +44,8 @@ router.use('/bunny', bunnyRouter);
 router.use('/quizes', quizeRouter);
 // Cart Routes
 router.use('/cart', cartRouter);
+// Wishlist Routes
+router.use('/wishlist', wishlistRouter);
 // Payment Routes
 router.use('/payment', paymentRouter);
 // Protected Resource Routes
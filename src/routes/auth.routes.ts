@@ -2,15 +2,23 @@ import express from 'express';
 
 import {
   changePasswordSchema,
+  disableTwoFactorSchema,
   forgotPasswordResetSchema,
   forgotPasswordSchema,
   loginSchema,
+  loginTwoFactorSchema,
+  oauthCallbackSchema,
   registerWithoutOtpSchema,
-  resendVerificationEmailSchema
+  resendVerificationEmailSchema,
+  twoFactorCodeSchema,
+  unlockAccountSchema,
+  updatePreferredCurrencySchema
 } from '../validation/auth.validation';
 import { validate } from '../middleware/zod_validate.middleware';
 
-import { changePassword, forgotPasswordRequest, forgotPasswordReset, getProfile, login, logout, refreshToken, register, verifyEmail, resendVerificationEmail } from '../controller/auth.controller';
+import { changePassword, forgotPasswordRequest, forgotPasswordReset, getProfile, login, loginTwoFactor, logout, refreshToken, register, verifyEmail, resendVerificationEmail, updatePreferredCurrency, unlockLockedAccount, listOAuthProviders, startOAuthLogin, finishOAuthLogin } from '../controller/auth.controller';
+import { listSessions, revokeOtherSessions, revokeSession } from '../controller/session.controller';
+import { disable, enable, getStatus, regenerateCodes, setup } from '../controller/two-factor.controller';
 import { isAuthenticated } from '../middleware/auth.middleware';
 
 
@@ -28,6 +36,21 @@ authRouter.post('/resend-verification', validate(resendVerificationEmailSchema),
 // Login By Email Or Username
 // https://localhost:3000/api/auth/login
 authRouter.post('/login', validate(loginSchema), login);
+// Second login step when two-factor authentication is enabled
+// https://localhost:3000/api/auth/login/2fa
+authRouter.post('/login/2fa', validate(loginTwoFactorSchema), loginTwoFactor);
+// Unlock an account locked after failed logins (link from the lockout email)
+// https://localhost:3000/api/auth/unlock-account
+authRouter.post('/unlock-account', validate(unlockAccountSchema), unlockLockedAccount);
+// Sign-in providers that are configured (e.g. ["google"])
+// https://localhost:3000/api/auth/oauth/providers
+authRouter.get('/oauth/providers', listOAuthProviders);
+// Start signing in with a provider - returns the provider's authorization URL
+// https://localhost:3000/api/auth/oauth/google/start
+authRouter.post('/oauth/:provider/start', startOAuthLogin);
+// Finish signing in with the code the provider redirected back with
+// https://localhost:3000/api/auth/oauth/google/callback
+authRouter.post('/oauth/:provider/callback', validate(oauthCallbackSchema), finishOAuthLogin);
 // Refresh Tokens
 // https://localhost:3000/api/auth/refresh-tokens
 authRouter.post('/refresh-tokens', refreshToken);
@@ -46,6 +69,33 @@ authRouter.post('/forgot-password-reset', validate(forgotPasswordResetSchema), f
 // get logged in user profile
 // https://localhost:3000/api/auth/get-profile
 authRouter.get('/get-profile', isAuthenticated, getProfile);
+// set the currency prices are shown and charged in
+// https://localhost:3000/api/auth/preferences/currency
+authRouter.patch('/preferences/currency', isAuthenticated, validate(updatePreferredCurrencySchema), updatePreferredCurrency);
+// list devices the user is logged in on
+// https://localhost:3000/api/auth/sessions
+authRouter.get('/sessions', isAuthenticated, listSessions);
+// log out every other device
+// https://localhost:3000/api/auth/sessions
+authRouter.delete('/sessions', isAuthenticated, revokeOtherSessions);
+// log out one device
+// https://localhost:3000/api/auth/sessions/:id
+authRouter.delete('/sessions/:id', isAuthenticated, revokeSession);
+// two-factor authentication status
+// https://localhost:3000/api/auth/2fa
+authRouter.get('/2fa', isAuthenticated, getStatus);
+// start two-factor setup (returns the otpauth uri)
+// https://localhost:3000/api/auth/2fa/setup
+authRouter.post('/2fa/setup', isAuthenticated, setup);
+// confirm a code and enable two-factor authentication
+// https://localhost:3000/api/auth/2fa/enable
+authRouter.post('/2fa/enable', isAuthenticated, validate(twoFactorCodeSchema), enable);
+// disable two-factor authentication (not allowed for admins)
+// https://localhost:3000/api/auth/2fa/disable
+authRouter.post('/2fa/disable', isAuthenticated, validate(disableTwoFactorSchema), disable);
+// replace the recovery codes
+// https://localhost:3000/api/auth/2fa/recovery-codes
+authRouter.post('/2fa/recovery-codes', isAuthenticated, validate(twoFactorCodeSchema), regenerateCodes);
 
 
 
@@ -0,0 +1,27 @@
+import e from "express";
+import { isAdmin, isAuthenticated, optionalAuth } from "../middleware/auth.middleware";
+import { validate } from "../middleware/zod_validate.middleware";
+import { createBundleSchema, updateBundleStatusSchema } from "../validation/bundle.validation";
+import { createBundle, updateBundle, updateBundleStatus, archiveBundle, getAllBundlesForAdmin, getAllBundlesForStudent, getBundleById } from "../controller/bundle.controller";
+export const bundleRouter = e.Router()
+
+// Create a new bundle
+bundleRouter.post("/", isAuthenticated, isAdmin, validate(createBundleSchema), createBundle)
+
+// Update bundle details and courses
+bundleRouter.put("/:id", isAuthenticated, isAdmin, validate(createBundleSchema), updateBundle)
+
+// Publish or unpublish a bundle
+bundleRouter.patch("/:id/status", isAuthenticated, isAdmin, validate(updateBundleStatusSchema), updateBundleStatus)
+
+// Archive a bundle
+bundleRouter.delete("/:id", isAuthenticated, isAdmin, archiveBundle)
+
+// Get all bundles for administrative view
+bundleRouter.get("/admin", isAuthenticated, isAdmin, getAllBundlesForAdmin)
+
+// Get published bundles for students
+bundleRouter.get("/", getAllBundlesForStudent)
+
+// Get specific bundle details by ID (buy through POST /api/payment/buy-now with bundleId)
+bundleRouter.get("/:id", optionalAuth, getBundleById)
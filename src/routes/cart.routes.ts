@@ -8,7 +8,8 @@ import {
     removeFromCart,
     clearCart,
     getCartItemCount,
-    checkCourseInCart
+    checkCourseInCart,
+    acceptCartChanges
 } from "../controller/cart.controller";
 
 export const cartRouter = Router();
@@ -54,3 +55,10 @@ cartRouter.get("/count", isAuthenticated, getCartItemCount);
  * Check if a specific course is in cart
  */
 cartRouter.get("/check/:courseId", isAuthenticated, checkCourseInCart);
+
+/**
+ * POST /cart/accept-changes
+ * Accept price changes and drop courses that can no longer be bought
+ * (required before checkout when the cart has warnings)
+ */
+cartRouter.post("/accept-changes", isAuthenticated, acceptCartChanges);
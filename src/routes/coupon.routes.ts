@@ -7,7 +7,11 @@ import {
     getCouponById,
     updateCoupon,
     deleteCoupon,
-    validateCouponCode
+    validateCouponCode,
+    createCampaign,
+    getAllCampaigns,
+    getCampaignById,
+    exportCampaignCodes
 } from "../controller/coupon.controller";
 
 const router = Router();
@@ -19,6 +23,12 @@ router.get("/admin/coupons/:id", isAuthenticated, isAdmin, getCouponById);
 router.patch("/admin/coupons/:id", isAuthenticated, isAdmin, updateCoupon);
 router.delete("/admin/coupons/:id", isAuthenticated, isAdmin, deleteCoupon);
 
+// Campaigns - bulk generated codes sharing one discount rule
+router.post("/admin/coupon-campaigns", isAuthenticated, isAdmin, createCampaign);
+router.get("/admin/coupon-campaigns", isAuthenticated, isAdmin, getAllCampaigns);
+router.get("/admin/coupon-campaigns/:id", isAuthenticated, isAdmin, getCampaignById);
+router.get("/admin/coupon-campaigns/:id/export", isAuthenticated, isAdmin, exportCampaignCodes);
+
 // User routes - require authentication
 router.post("/coupons/validate", isAuthenticated, validateCouponCode);
 
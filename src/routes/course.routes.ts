@@ -1,8 +1,8 @@
 import e from "express";
 import { isAdmin, isAuthenticated, isStudent, optionalAuth } from "../middleware/auth.middleware";
 import { validate } from "../middleware/zod_validate.middleware";
-import { createCourseSchema } from "../validation/course.validation";
-import { archiveCourse, uploadThumbnailController, createCourse, getAllCoursesForAdmin, getCourseById, getAllCoursesForStudent, updateCourse, updateCourseStatus, clearAllCache, getEnrolledCourses } from "../controller/course.controller";
+import { createCourseSchema, setCoursePricesSchema } from "../validation/course.validation";
+import { archiveCourse, uploadThumbnailController, createCourse, getAllCoursesForAdmin, getCourseById, getAllCoursesForStudent, updateCourse, updateCourseStatus, clearAllCache, getEnrolledCourses, enrollInFreeCourse, setCoursePrices } from "../controller/course.controller";
 export const courseRouter = e.Router()
 // Upload course thumbnail
 courseRouter.post("/upload-thumbnail", isAuthenticated, isAdmin, uploadThumbnailController)
@@ -28,11 +28,16 @@ courseRouter.get("/", getAllCoursesForStudent)
 // Get courses current student is enrolled in
 courseRouter.get('/enrolled', isAuthenticated, isStudent, getEnrolledCourses)
 
+// Enroll in a free course (no payment needed)
+courseRouter.post('/:id/enroll', isAuthenticated, isStudent, enrollInFreeCourse)
+
 // Get specific course details by ID
 courseRouter.get("/:id", optionalAuth, getCourseById)
 
 // Update the status of a course
 courseRouter.post('/update-status/:id', isAuthenticated, isAdmin, updateCourseStatus)
+// Set fixed prices in other currencies
+courseRouter.put('/:id/prices', isAuthenticated, isAdmin, validate(setCoursePricesSchema), setCoursePrices)
 
 
 
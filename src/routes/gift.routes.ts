@@ -0,0 +1,15 @@
+import e from "express";
+import { isAuthenticated } from "../middleware/auth.middleware";
+import { validate } from "../middleware/zod_validate.middleware";
+import { redeemGiftSchema } from "../validation/gift.validation";
+import { redeemGift, getSentGifts, resendGiftEmail } from "../controller/gift.controller";
+export const giftRouter = e.Router()
+
+// Redeem a gift code (buy gifts through POST /api/payment/buy-now with a gift recipient)
+giftRouter.post("/redeem", isAuthenticated, validate(redeemGiftSchema), redeemGift)
+
+// Get gifts bought by the logged in user
+giftRouter.get("/sent", isAuthenticated, getSentGifts)
+
+// Resend the gift email to its recipient
+giftRouter.post("/:id/resend", isAuthenticated, resendGiftEmail)
@@ -3,8 +3,8 @@ import { isAuthenticated, isAdmin } from "../middleware/auth.middleware";
 import { validate } from "../middleware/zod_validate.middleware";
 
 // Import Controllers and Schemas
-import { initiateBuyNow, cancelOrder, verifyPayment, getPaymentSettings, updatePaymentSettings, initiateCheckout, verifyCheckout, getPurchaseHistory } from "../controller/payment.controller";
-import { initiatePaymentSchema, verifyPaymentSchema, updatePaymentSettingsSchema } from "../validation/payment.validation";
+import { initiateBuyNow, cancelOrder, verifyPayment, getPaymentSettings, updatePaymentSettings, initiateCheckout, verifyCheckout, getPurchaseHistory, handlePaymentWebhook, refundOrder, refundCheckout, getReconciliationReports, downloadInvoice, getExchangeRates, updateExchangeRate } from "../controller/payment.controller";
+import { initiatePaymentSchema, initiateCheckoutSchema, verifyPaymentSchema, updatePaymentSettingsSchema, refundOrderSchema, refundCheckoutSchema, updateExchangeRateSchema } from "../validation/payment.validation";
 
 export const paymentRouter = Router();
 
@@ -20,7 +20,7 @@ paymentRouter.get(
 );
 /**
  * Route: POST /api/payment/buy-now
- * Desc: Initiates a transaction. Returns order details for Razorpay SDK.
+ * Desc: Initiates a transaction for a course or a bundle. Returns order details for Razorpay SDK.
  * Auth: Student/Admin (Authenticated)
  */
 paymentRouter.post(
@@ -33,11 +33,13 @@ paymentRouter.post(
 /**
  * Route: POST /api/payment/checkout
  * Desc: Checkout entire cart. Creates orders for all cart items.
+ *       Refused until changes flagged by GET /cart are accepted.
  * Auth: Authenticated
  */
 paymentRouter.post(
     "/checkout",
     isAuthenticated,
+    validate(initiateCheckoutSchema),
     initiateCheckout
 );
 
@@ -100,3 +102,90 @@ paymentRouter.put(
     validate(updatePaymentSettingsSchema),
     updatePaymentSettings
 );
+
+/**
+ * Route: POST /api/payment/webhook/:provider
+ * Desc: Server-to-server payment notification (razorpay | phonepe | cashfree).
+ *       Completes the order even if the student closed the tab after paying.
+ * Auth: None (verified by the gateway's webhook signature)
+ */
+paymentRouter.post(
+    "/webhook/:provider",
+    handlePaymentWebhook
+);
+
+/**
+ * Route: POST /api/payment/refund/:orderId
+ * Desc: Refunds a completed order (fully or partly) through its original gateway.
+ *       Optionally revokes the enrollment and certificate.
+ * Auth: Admin Only
+ */
+paymentRouter.post(
+    "/refund/:orderId",
+    isAuthenticated,
+    isAdmin,
+    validate(refundOrderSchema),
+    refundOrder
+);
+
+/**
+ * Route: POST /api/payment/refund/checkout/:checkoutSessionId
+ * Desc: Fully refunds every order of one gateway transaction (e.g. a cart checkout).
+ *       Optionally revokes the enrollments and certificates.
+ * Auth: Admin Only
+ */
+paymentRouter.post(
+    "/refund/checkout/:checkoutSessionId",
+    isAuthenticated,
+    isAdmin,
+    validate(refundCheckoutSchema),
+    refundCheckout
+);
+
+/**
+ * Route: GET /api/payment/reconciliation-reports
+ * Desc: Reports from the scheduled job that settles stale PENDING orders.
+ * Auth: Admin Only
+ */
+paymentRouter.get(
+    "/reconciliation-reports",
+    isAuthenticated,
+    isAdmin,
+    getReconciliationReports
+);
+
+/**
+ * Route: GET /api/payment/invoice/:orderId
+ * Desc: Downloads the GST tax invoice (PDF) of a paid order, with its credit notes.
+ * Auth: Authenticated (own orders) / Admin (any order)
+ */
+paymentRouter.get(
+    "/invoice/:orderId",
+    isAuthenticated,
+    downloadInvoice
+);
+
+/**
+ * Route: GET /api/payment/exchange-rates
+ * Desc: Base currency, supported currencies and the current exchange rates.
+ * Auth: Admin Only
+ */
+paymentRouter.get(
+    "/exchange-rates",
+    isAuthenticated,
+    isAdmin,
+    getExchangeRates
+);
+
+/**
+ * Route: PUT /api/payment/exchange-rates/:currency
+ * Desc: Sets how many base currency units one unit of the currency is worth.
+ * Auth: Admin Only
+ */
+paymentRouter.put(
+    "/exchange-rates/:currency",
+    isAuthenticated,
+    isAdmin,
+    validate(updateExchangeRateSchema),
+    updateExchangeRate
+);
@@ -0,0 +1,27 @@
+import e from "express";
+import { isAdmin, isAuthenticated, optionalAuth } from "../middleware/auth.middleware";
+import { validate } from "../middleware/zod_validate.middleware";
+import { createPlanSchema, updatePlanSchema, startSubscriptionSchema, verifySubscriptionSchema } from "../validation/subscription.validation";
+import { createPlan, updatePlan, getPlans, getMySubscriptions, startSubscription, verifySubscription, cancelSubscription } from "../controller/subscription.controller";
+export const subscriptionRouter = e.Router()
+
+// Create a membership plan
+subscriptionRouter.post("/plans", isAuthenticated, isAdmin, validate(createPlanSchema), createPlan)
+
+// Rename, describe or retire a plan
+subscriptionRouter.patch("/plans/:id", isAuthenticated, isAdmin, validate(updatePlanSchema), updatePlan)
+
+// Get membership plans
+subscriptionRouter.get("/plans", optionalAuth, getPlans)
+
+// Get the logged in user's subscriptions
+subscriptionRouter.get("/me", isAuthenticated, getMySubscriptions)
+
+// Subscribe to a plan
+subscriptionRouter.post("/", isAuthenticated, validate(startSubscriptionSchema), startSubscription)
+
+// Verify the subscription's authorisation payment
+subscriptionRouter.post("/verify", isAuthenticated, validate(verifySubscriptionSchema), verifySubscription)
+
+// Cancel a subscription
+subscriptionRouter.post("/:id/cancel", isAuthenticated, cancelSubscription)
@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { isAuthenticated } from "../middleware/auth.middleware";
+import { validate } from "../middleware/zod_validate.middleware";
+import { wishlistCourseSchema } from "../validation/wishlist.validation";
+import {
+    getWishlist,
+    addToWishlist,
+    removeFromWishlist,
+    moveToCart
+} from "../controller/wishlist.controller";
+
+export const wishlistRouter = Router();
+
+// ============================================================================
+// All wishlist routes require authentication
+// ============================================================================
+
+/**
+ * GET /wishlist
+ * Get user's wishlist
+ */
+wishlistRouter.get("/", isAuthenticated, getWishlist);
+
+/**
+ * POST /wishlist/add
+ * Save a course for later
+ * Body: { courseId: number }
+ */
+wishlistRouter.post("/add", isAuthenticated, validate(wishlistCourseSchema), addToWishlist);
+
+/**
+ * DELETE /wishlist/remove
+ * Remove a course from wishlist
+ * Body: { courseId: number }
+ */
+wishlistRouter.delete("/remove", isAuthenticated, validate(wishlistCourseSchema), removeFromWishlist);
+
+/**
+ * POST /wishlist/move-to-cart
+ * Move a wishlisted course into the cart
+ * Body: { courseId: number }
+ */
+wishlistRouter.post("/move-to-cart", isAuthenticated, validate(wishlistCourseSchema), moveToCart);
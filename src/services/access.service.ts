@@ -0,0 +1,138 @@
+// Access Service - Can this user study this course?
+// Either they own it (an Enrollment that has not expired) or a live membership covers it
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { findCoveringSubscription } from "./subscription.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether an enrollment still unlocks its course (null expiry = lifetime)
+ */
+export const isEnrollmentActive = (enrollment: { expiresAt: Date | null }) => {
+    return enrollment.expiresAt === null || enrollment.expiresAt > new Date();
+};
+
+/**
+ * When access bought now ends
+ * Renewing before expiry adds to the time that is left, never cuts it short.
+ */
+export const getAccessExpiry = (accessDays: number | null, currentExpiry: Date | null = null) => {
+    if (accessDays === null) return null;
+
+    const now = new Date();
+    const start = currentExpiry && currentExpiry > now ? currentExpiry : now;
+    return new Date(start.getTime() + accessDays * DAY_MS);
+};
+
+/**
+ * Create the enrollment an order pays for, or extend it for a renewal
+ * A non-renewal for a course the user already has (e.g. enrolled by another
+ * order meanwhile) leaves that enrollment as it is instead of failing, so the
+ * caller's transaction survives - check `alreadyEnrolled`.
+ * Must run inside the caller's transaction.
+ *
+ * @returns The enrollment, whether this call created it, and whether it already existed (non-renewal)
+ */
+export const grantCourseAccess = async (
+    tx: Prisma.TransactionClient,
+    userId: number,
+    courseId: number,
+    isRenewal: boolean
+) => {
+    const course = await tx.course.findUniqueOrThrow({
+        where: { id: courseId },
+        select: { accessDays: true }
+    });
+
+    const existing = isRenewal
+        ? await tx.enrollment.findUnique({ where: { userId_courseId: { userId, courseId } } })
+        : null;
+
+    if (!existing) {
+        // ON CONFLICT DO NOTHING - a unique violation would abort the whole transaction
+        const inserted = await tx.enrollment.createMany({
+            data: { userId, courseId, expiresAt: getAccessExpiry(course.accessDays) },
+            skipDuplicates: true
+        });
+        const enrollment = await tx.enrollment.findUniqueOrThrow({
+            where: { userId_courseId: { userId, courseId } }
+        });
+        const created = inserted.count > 0;
+        return { enrollment, created, alreadyEnrolled: !created };
+    }
+
+    const enrollment = await tx.enrollment.update({
+        where: { id: existing.id },
+        data: {
+            expiresAt: getAccessExpiry(course.accessDays, existing.expiresAt),
+            expiryReminderSentAt: null
+        }
+    });
+    return { enrollment, created: false, alreadyEnrolled: false };
+};
+
+/**
+ * Take back the time a refunded renewal added to an enrollment
+ * The enrollment (and any certificate) predates the renewal, so it is kept -
+ * only expiresAt moves back by the course's access period.
+ * Must run inside the caller's transaction.
+ */
+export const revokeRenewal = async (
+    tx: Prisma.TransactionClient,
+    userId: number,
+    courseId: number
+) => {
+    const course = await tx.course.findUniqueOrThrow({
+        where: { id: courseId },
+        select: { accessDays: true }
+    });
+    const enrollment = await tx.enrollment.findUnique({
+        where: { userId_courseId: { userId, courseId } }
+    });
+
+    // Lifetime access (course made lifetime after the renewal) has nothing to roll back
+    if (!enrollment?.expiresAt || course.accessDays === null) return;
+
+    await tx.enrollment.update({
+        where: { id: enrollment.id },
+        data: { expiresAt: new Date(enrollment.expiresAt.getTime() - course.accessDays * DAY_MS) }
+    });
+};
+
+/**
+ * Whether the user may open the course's lessons, videos, resources and quizzes
+ */
+export const hasCourseAccess = async (userId: number, courseId: number): Promise<boolean> => {
+    const enrollment = await prisma.enrollment.findUnique({
+        where: { userId_courseId: { userId, courseId } },
+        select: { expiresAt: true }
+    });
+    if (enrollment && isEnrollmentActive(enrollment)) return true;
+
+    const course = await prisma.course.findUnique({
+        where: { id: courseId },
+        select: { status: true, categoryId: true }
+    });
+    if (!course) return false;
+
+    return (await findCoveringSubscription(userId, course)) !== null;
+};
+
+/**
+ * Split the courses a user is about to buy by what they already have
+ * - ownedCourseIds: lifetime access, nothing left to buy
+ * - renewalCourseIds: time-limited access (active or expired), buying renews it
+ */
+export const getExistingAccess = async (userId: number, courseIds: number[]) => {
+    const enrollments = await prisma.enrollment.findMany({
+        where: { userId, courseId: { in: courseIds } },
+        select: { courseId: true, expiresAt: true }
+    });
+
+    return {
+        ownedCourseIds: enrollments.filter(e => e.expiresAt === null).map(e => e.courseId),
+        renewalCourseIds: enrollments.filter(e => e.expiresAt !== null).map(e => e.courseId)
+    };
+};
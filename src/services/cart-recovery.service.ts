@@ -0,0 +1,78 @@
+// Cart Recovery Service - Attributing checkouts to abandoned cart reminders
+// The reminders themselves are sent by jobs/abandoned-cart.job.ts
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { logger } from "../config/logger.config";
+import { sumMinorUnits } from "../utils/money.utils";
+
+// A checkout this soon after a reminder counts as recovered by it
+const RECOVERY_WINDOW_DAYS = 7;
+
+/**
+ * Credit a completed checkout to the student's latest open reminder
+ * Only courses that were in the cart when the reminder went out (added no
+ * later than it) count - buying something else is not a recovery.
+ * Must run inside the caller's transaction.
+ *
+ * @param cartItems - The cart as it was before the checkout removed the bought courses
+ * @param orders - Courses bought in the checkout, amounts in minor units of the base currency
+ */
+export const recordCartRecovery = async (
+    tx: Prisma.TransactionClient,
+    userId: number,
+    cartItems: { courseId: number; addedAt: Date }[],
+    orders: { courseId: number; amount: number }[]
+) => {
+    const now = new Date();
+    const since = new Date(now.getTime() - RECOVERY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const reminder = await tx.cartReminder.findFirst({
+        where: { cart: { userId }, recoveredAt: null, sentAt: { gte: since } },
+        orderBy: { sentAt: "desc" }
+    });
+
+    if (!reminder) return;
+
+    const remindedCourseIds = new Set(
+        cartItems.filter(item => item.addedAt <= reminder.sentAt).map(item => item.courseId)
+    );
+    const recovered = orders.filter(order => remindedCourseIds.has(order.courseId));
+
+    if (recovered.length === 0) return;
+
+    await tx.cartReminder.update({
+        where: { id: reminder.id },
+        data: { recoveredAt: now, recoveredAmount: sumMinorUnits(recovered.map(order => order.amount)) }
+    });
+
+    logger.info(`[CartRecovery] Checkout by User:${userId} recovered after CartReminder:${reminder.id}`);
+};
+
+/**
+ * Reminder totals for the admin dashboard (amounts in minor units of the base currency)
+ * A cart counts once per abandonment, i.e. per first reminder.
+ */
+export const getCartRecoveryStats = async () => {
+    const [remindersSent, abandonedCarts, recovered, recoveredWithCoupon] = await prisma.$transaction([
+        prisma.cartReminder.count(),
+        prisma.cartReminder.count({ where: { reminderNumber: 1 } }),
+        prisma.cartReminder.aggregate({
+            where: { recoveredAt: { not: null } },
+            _count: { _all: true },
+            _sum: { recoveredAmount: true }
+        }),
+        prisma.cartReminder.count({ where: { recoveredAt: { not: null }, couponId: { not: null } } })
+    ]);
+
+    const recoveredCarts = recovered._count._all;
+
+    return {
+        remindersSent,
+        abandonedCarts,
+        recoveredCarts,
+        recoveredWithCoupon,
+        recoveryRate: abandonedCarts > 0 ? Math.round((recoveredCarts / abandonedCarts) * 100) : 0,
+        recoveredRevenue: recovered._sum.recoveredAmount || 0
+    };
+};
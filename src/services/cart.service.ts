@@ -0,0 +1,104 @@
+// Cart Service - What changed in a cart since its courses were added
+// Checkout is refused until the student has seen (and accepted) every change
+
+import { prisma } from "../prisma";
+import { logger } from "../config/logger.config";
+import { getExistingAccess } from "./access.service";
+import { BASE_CURRENCY } from "../utils/currency.utils";
+import { formatMoney } from "../utils/money.utils";
+
+export type CartWarningType = "PRICE_INCREASED" | "PRICE_DECREASED" | "UNAVAILABLE" | "ALREADY_ENROLLED";
+
+// Prices in minor units of the base currency
+export interface CartItemWarning {
+    type: CartWarningType;
+    message: string;
+    previousPrice?: number;
+    currentPrice?: number;
+}
+
+interface CartItemState {
+    courseId: number;
+    priceAtAdd: number;
+    course: { price: number; status: string };
+}
+
+/**
+ * Warnings for every cart item that changed since it was added
+ * Only lifetime enrollments count as "already enrolled" - time-limited
+ * access can be renewed from the cart.
+ *
+ * @returns courseId -> warnings (courses without changes are left out)
+ */
+export const getCartWarnings = async (userId: number, items: CartItemState[]) => {
+    const warnings = new Map<number, CartItemWarning[]>();
+    const add = (courseId: number, warning: CartItemWarning) => {
+        warnings.set(courseId, [...(warnings.get(courseId) || []), warning]);
+    };
+
+    const { ownedCourseIds } = await getExistingAccess(userId, items.map(item => item.courseId));
+
+    for (const item of items) {
+        if (item.course.status !== "PUBLISHED") {
+            add(item.courseId, { type: "UNAVAILABLE", message: "This course is no longer available" });
+            continue;
+        }
+
+        if (ownedCourseIds.includes(item.courseId)) {
+            add(item.courseId, { type: "ALREADY_ENROLLED", message: "You are already enrolled in this course" });
+            continue;
+        }
+
+        const { price } = item.course;
+        if (price !== item.priceAtAdd) {
+            add(item.courseId, {
+                type: price > item.priceAtAdd ? "PRICE_INCREASED" : "PRICE_DECREASED",
+                message: `Price changed from ${formatMoney(item.priceAtAdd, BASE_CURRENCY)} to ${formatMoney(price, BASE_CURRENCY)}`,
+                previousPrice: item.priceAtAdd,
+                currentPrice: price
+            });
+        }
+    }
+
+    return warnings;
+};
+
+/**
+ * Accept every change in the user's cart
+ * Changed prices become the new snapshot; courses that can no longer be
+ * bought (unavailable or already owned) are removed.
+ */
+export const acceptCartChanges = async (userId: number) => {
+    const cart = await prisma.cart.findUnique({
+        where: { userId },
+        include: { items: { include: { course: { select: { price: true, status: true } } } } }
+    });
+
+    if (!cart) {
+        return { updatedCourseIds: [], removedCourseIds: [] };
+    }
+
+    const warnings = await getCartWarnings(userId, cart.items);
+    const updatedCourseIds: number[] = [];
+    const removedCourseIds: number[] = [];
+
+    await prisma.$transaction(async (tx) => {
+        for (const item of cart.items) {
+            const types = (warnings.get(item.courseId) || []).map(w => w.type);
+
+            if (types.includes("UNAVAILABLE") || types.includes("ALREADY_ENROLLED")) {
+                await tx.cartItem.delete({ where: { id: item.id } });
+                removedCourseIds.push(item.courseId);
+            } else if (types.length > 0) {
+                await tx.cartItem.update({
+                    where: { id: item.id },
+                    data: { priceAtAdd: item.course.price }
+                });
+                updatedCourseIds.push(item.courseId);
+            }
+        }
+    });
+
+    logger.info(`[Cart] User:${userId} accepted cart changes - updated: ${updatedCourseIds.join(",") || "none"}, removed: ${removedCourseIds.join(",") || "none"}`);
+    return { updatedCourseIds, removedCourseIds };
+};
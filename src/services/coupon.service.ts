@@ -1,14 +1,17 @@
 // Coupon Service - Business Logic for Coupon Validation and Consumption
 // Safe implementation with feature flag support
 
+import crypto from "crypto";
 import { prisma } from "../prisma";
-import { DiscountType } from "@prisma/client";
+import { DiscountType, OrderStatus, Prisma } from "@prisma/client";
 import { logger } from "../config/logger.config";
+import { convertMinorUnits, formatMoney, percentOfMinorUnits, sumMinorUnits } from "../utils/money.utils";
+import { BASE_CURRENCY, toBaseAmount } from "../utils/currency.utils";
 
 // Feature flag - can be disabled via environment
 const COUPON_SYSTEM_ENABLED = process.env.COUPON_SYSTEM_ENABLED?.toLowerCase().trim() !== "false";
 
-// Validation result types
+// Validation result types (amounts in minor units of the order currency)
 export interface CouponValidationResult {
     valid: boolean;
     reason?: string;
@@ -18,6 +21,13 @@ export interface CouponValidationResult {
     discountValue?: number;
     discountAmount?: number;
     finalAmount?: number;
+    eligibleCourseIds?: number[];   // Courses the discount applies to (scoped coupons)
+}
+
+// One course being bought (price comes from the DB, never the client)
+export interface CouponOrderLine {
+    courseId: number;
+    amount: number; // minor units
 }
 
 // Validation error reasons
@@ -29,6 +39,8 @@ const VALIDATION_ERRORS = {
     LIMIT_EXCEEDED: "This coupon has reached its usage limit",
     USER_LIMIT_EXCEEDED: "You have already used this coupon",
     NOT_APPLICABLE: "This coupon is not applicable to this course",
+    FIRST_PURCHASE_ONLY: "This coupon is only valid on your first purchase",
+    NOT_ELIGIBLE: "This coupon is not available for your account",
     MIN_ORDER_NOT_MET: "Minimum order amount not met for this coupon",
     INACTIVE: "This coupon is no longer active"
 };
@@ -36,12 +48,18 @@ const VALIDATION_ERRORS = {
 /**
  * Validate a coupon code for a specific order
  * All validation happens on backend - never trust frontend
+ *
+ * Scoped coupons (courses/categories) only discount the matching lines;
+ * the minimum order amount is still checked against the whole order.
+ *
+ * Fixed amounts, caps and minimums are set in the base currency; for an order
+ * in another currency pass its exchangeRate (base units per order unit).
  */
 export async function validateCoupon(
     code: string,
     userId: number,
-    courseId: number,
-    orderAmount: number
+    lines: CouponOrderLine[],
+    exchangeRate: number = 1
 ): Promise<CouponValidationResult> {
     // Feature flag check
     if (!COUPON_SYSTEM_ENABLED) {
@@ -52,12 +70,19 @@ export async function validateCoupon(
     // Normalize code
     const normalizedCode = code.trim().toUpperCase();
 
-    logger.info(`[Coupon] Validating code: ${normalizedCode} for user: ${userId}, course: ${courseId}, amount: ${orderAmount}`);
+    const orderAmount = sumMinorUnits(lines.map(line => line.amount));
+    const courseIds = lines.map(line => line.courseId);
+
+    logger.info(`[Coupon] Validating code: ${normalizedCode} for user: ${userId}, courses: ${courseIds.join(",")}, amount: ${orderAmount}`);
 
     try {
         // 1. Find coupon (case-insensitive via normalized code)
         const coupon = await prisma.coupon.findFirst({
-            where: { code: normalizedCode }
+            where: { code: normalizedCode },
+            include: {
+                courses: { select: { id: true } },
+                categories: { select: { id: true } }
+            }
         });
 
         if (!coupon) {
@@ -99,36 +124,86 @@ export async function validateCoupon(
             return { valid: false, reason: "USER_LIMIT_EXCEEDED", message: VALIDATION_ERRORS.USER_LIMIT_EXCEEDED };
         }
 
-        // 6. Check minimum order amount
-        if (coupon.minOrderAmount !== null && orderAmount < coupon.minOrderAmount) {
+        // 6. Check who the coupon is for
+        if (coupon.allowedEmails.length > 0) {
+            const user = await prisma.user.findUnique({
+                where: { id: userId },
+                select: { email: true }
+            });
+
+            if (!user || !coupon.allowedEmails.includes(user.email.toLowerCase())) {
+                logger.info(`[Coupon] User not in allowed emails: ${normalizedCode} for user: ${userId}`);
+                return { valid: false, reason: "NOT_ELIGIBLE", message: VALIDATION_ERRORS.NOT_ELIGIBLE };
+            }
+        }
+
+        if (coupon.firstPurchaseOnly) {
+            const paidOrders = await prisma.order.count({
+                where: { userId, status: { in: ["COMPLETED", "REFUNDED"] }, amount: { gt: 0 } }
+            });
+
+            if (paidOrders > 0) {
+                logger.info(`[Coupon] Not a first purchase: ${normalizedCode} for user: ${userId}`);
+                return { valid: false, reason: "FIRST_PURCHASE_ONLY", message: VALIDATION_ERRORS.FIRST_PURCHASE_ONLY };
+            }
+        }
+
+        // 7. Check which courses the coupon applies to
+        let eligibleCourseIds = courseIds;
+
+        if (coupon.courses.length > 0 || coupon.categories.length > 0) {
+            const scopedCourseIds = new Set(coupon.courses.map(c => c.id));
+            const scopedCategoryIds = new Set(coupon.categories.map(c => c.id));
+
+            const courses = await prisma.course.findMany({
+                where: { id: { in: courseIds } },
+                select: { id: true, categoryId: true }
+            });
+
+            eligibleCourseIds = courses
+                .filter(c => scopedCourseIds.has(c.id) || (c.categoryId !== null && scopedCategoryIds.has(c.categoryId)))
+                .map(c => c.id);
+
+            if (eligibleCourseIds.length === 0) {
+                logger.info(`[Coupon] Not applicable: ${normalizedCode} for courses: ${courseIds.join(",")}`);
+                return { valid: false, reason: "NOT_APPLICABLE", message: VALIDATION_ERRORS.NOT_APPLICABLE };
+            }
+        }
+
+        const eligibleAmount = sumMinorUnits(
+            lines.filter(line => eligibleCourseIds.includes(line.courseId)).map(line => line.amount)
+        );
+
+        // Base currency amounts in the order's currency
+        const toOrderCurrency = (baseAmount: number) => convertMinorUnits(baseAmount, 1 / exchangeRate);
+
+        // 8. Check minimum order amount
+        if (coupon.minOrderAmount !== null && orderAmount < toOrderCurrency(coupon.minOrderAmount)) {
             logger.info(`[Coupon] Min order not met: ${normalizedCode}, required: ${coupon.minOrderAmount}, got: ${orderAmount}`);
             return { 
                 valid: false, 
                 reason: "MIN_ORDER_NOT_MET", 
-                message: `Minimum order amount of ₹${coupon.minOrderAmount} required` 
+                message: `Minimum order amount of ${formatMoney(coupon.minOrderAmount, BASE_CURRENCY)} required` 
             };
         }
 
-        // 7. Calculate discount
+        // 9. Calculate discount (only on the courses it applies to)
         let discountAmount: number;
 
         if (coupon.discountType === "PERCENTAGE") {
-            discountAmount = (orderAmount * coupon.discountValue) / 100;
+            discountAmount = percentOfMinorUnits(eligibleAmount, coupon.discountValue);
             // Apply max discount cap if set
             if (coupon.maxDiscountAmount !== null) {
-                discountAmount = Math.min(discountAmount, coupon.maxDiscountAmount);
+                discountAmount = Math.min(discountAmount, toOrderCurrency(coupon.maxDiscountAmount));
             }
         } else {
             // Fixed amount
-            discountAmount = coupon.discountValue;
+            discountAmount = toOrderCurrency(coupon.discountValue);
         }
 
-        // 8. Ensure discount does not exceed order amount
-        discountAmount = Math.min(discountAmount, orderAmount);
-
-        // Round to 2 decimal places
-        discountAmount = Math.round(discountAmount * 100) / 100;
-        const finalAmount = Math.round((orderAmount - discountAmount) * 100) / 100;
+        // 10. Ensure discount does not exceed what it applies to
+        discountAmount = Math.min(discountAmount, eligibleAmount);
+        const finalAmount = orderAmount - discountAmount;
 
         logger.info(`[Coupon] Valid: ${normalizedCode}, discount: ${discountAmount}, final: ${finalAmount}`);
 
@@ -139,6 +214,7 @@ export async function validateCoupon(
             discountValue: coupon.discountValue,
             discountAmount,
             finalAmount,
+            eligibleCourseIds,
             message: "Coupon applied successfully"
         };
 
@@ -151,12 +227,15 @@ export async function validateCoupon(
 /**
  * Consume a coupon after successful payment
  * This is called ONLY after payment verification succeeds
- * Uses transaction for atomicity
+ * One usage per checkout, however many orders the discount was split across
+ * Must run inside the caller's (checkout completion) transaction, so the usage
+ * is recorded if and only if the orders complete - errors are not swallowed.
  */
 export async function consumeCoupon(
+    tx: Prisma.TransactionClient,
     couponCode: string,
     userId: number,
-    orderId: number
+    checkoutSessionId: number
 ): Promise<boolean> {
     if (!COUPON_SYSTEM_ENABLED) {
         return false;
@@ -164,56 +243,125 @@ export async function consumeCoupon(
 
     const normalizedCode = couponCode.trim().toUpperCase();
 
-    logger.info(`[Coupon] Consuming: ${normalizedCode} for order: ${orderId}`);
+    logger.info(`[Coupon] Consuming: ${normalizedCode} for checkout: ${checkoutSessionId}`);
 
-    try {
-        // Use transaction for atomic update
-        await prisma.$transaction(async (tx) => {
-            // Find coupon
-            const coupon = await tx.coupon.findFirst({
-                where: { code: normalizedCode }
-            });
+    // Find coupon
+    const coupon = await tx.coupon.findFirst({
+        where: { code: normalizedCode }
+    });
 
-            if (!coupon) {
-                logger.warn(`[Coupon] Not found during consume: ${normalizedCode}`);
-                return;
-            }
+    if (!coupon) {
+        logger.warn(`[Coupon] Not found during consume: ${normalizedCode}`);
+        return false;
+    }
+
+    // Check if already consumed for this checkout (prevent double consumption)
+    const existingUsage = await tx.couponUsage.findUnique({
+        where: { checkoutSessionId }
+    });
 
-            // Check if already consumed for this order (prevent double consumption)
-            const existingUsage = await tx.couponUsage.findUnique({
-                where: { orderId }
+    if (existingUsage) {
+        logger.warn(`[Coupon] Already consumed for checkout: ${checkoutSessionId}`);
+        return false;
+    }
+
+    // Increment usage count
+    await tx.coupon.update({
+        where: { id: coupon.id },
+        data: { usedCount: { increment: 1 } }
+    });
+
+    // Record usage
+    await tx.couponUsage.create({
+        data: {
+            couponId: coupon.id,
+            userId,
+            checkoutSessionId
+        }
+    });
+
+    logger.info(`[Coupon] Consumed successfully: ${normalizedCode} for checkout: ${checkoutSessionId}`);
+    return true;
+}
+
+/**
+ * Release a coupon after a checkout is fully refunded
+ * Reverses exactly what consumeCoupon recorded for this checkout
+ * (usage row removed, usedCount decremented) so the student can use it again
+ */
+export async function releaseCoupon(checkoutSessionId: number): Promise<boolean> {
+    logger.info(`[Coupon] Releasing usage for checkout: ${checkoutSessionId}`);
+
+    try {
+        const released = await prisma.$transaction(async (tx) => {
+            const usage = await tx.couponUsage.findUnique({
+                where: { checkoutSessionId }
             });
 
-            if (existingUsage) {
-                logger.warn(`[Coupon] Already consumed for order: ${orderId}`);
-                return;
+            if (!usage) {
+                logger.info(`[Coupon] No usage recorded for checkout: ${checkoutSessionId}`);
+                return false;
             }
 
-            // Increment usage count
-            await tx.coupon.update({
-                where: { id: coupon.id },
-                data: { usedCount: { increment: 1 } }
+            await tx.couponUsage.delete({
+                where: { id: usage.id }
             });
 
-            // Record usage
-            await tx.couponUsage.create({
-                data: {
-                    couponId: coupon.id,
-                    userId,
-                    orderId
-                }
+            // Never go below zero even if counts were edited by hand
+            await tx.coupon.updateMany({
+                where: { id: usage.couponId, usedCount: { gt: 0 } },
+                data: { usedCount: { decrement: 1 } }
             });
 
-            logger.info(`[Coupon] Consumed successfully: ${normalizedCode} for order: ${orderId}`);
+            logger.info(`[Coupon] Released coupon ${usage.couponId} for checkout: ${checkoutSessionId}`);
+            return true;
         });
 
-        return true;
+        return released;
     } catch (error) {
-        logger.error("[Coupon] Consumption error:", error);
+        logger.error("[Coupon] Release error:", error);
         return false;
     }
 }
 
+/**
+ * Redemption totals for a set of coupons (minor units of the base currency)
+ * Discount and revenue only count checkouts that were actually paid
+ */
+async function getRedemptionSummary(couponIds: number[]) {
+    const usages = await prisma.couponUsage.findMany({
+        where: { couponId: { in: couponIds } },
+        select: {
+            userId: true,
+            checkoutSession: {
+                select: {
+                    status: true,
+                    amount: true,
+                    discountAmount: true,
+                    orders: { select: { exchangeRate: true }, take: 1 } // every order of a checkout shares its rate
+                }
+            }
+        }
+    });
+
+    let totalDiscount = 0;
+    let totalRevenue = 0;
+    for (const usage of usages) {
+        const session = usage.checkoutSession;
+        if (session?.status !== OrderStatus.COMPLETED) continue;
+        const exchangeRate = session.orders[0]?.exchangeRate ?? 1;
+        totalDiscount += toBaseAmount(session.discountAmount ?? 0, exchangeRate);
+        totalRevenue += toBaseAmount(session.amount, exchangeRate);
+    }
+
+    return {
+        totalRedemptions: usages.length,
+        uniqueUsers: new Set(usages.map(u => u.userId)).size,
+        totalDiscount,
+        totalRevenue
+    };
+}
+
 /**
  * Get coupon statistics for admin dashboard
  */
@@ -221,6 +369,9 @@ export async function getCouponStats(couponId: number) {
     const coupon = await prisma.coupon.findUnique({
         where: { id: couponId },
         include: {
+            courses: { select: { id: true, title: true } },
+            categories: { select: { id: true, name: true } },
+            campaign: { select: { id: true, name: true } },
             usages: {
                 take: 10,
                 orderBy: { usedAt: "desc" }
@@ -234,6 +385,182 @@ export async function getCouponStats(couponId: number) {
         ...coupon,
         remainingUses: coupon.totalUsageLimit 
             ? coupon.totalUsageLimit - coupon.usedCount 
-            : null
+            : null,
+        redemptions: await getRedemptionSummary([coupon.id])
+    };
+}
+
+// ============================================
+// COUPON CAMPAIGNS (bulk generated codes)
+// ============================================
+
+// No 0/O or 1/I so codes can be read off a poster or typed from a phone
+const CAMPAIGN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CAMPAIGN_CODE_LENGTH = 8;
+export const MAX_CAMPAIGN_CODES = 1000;
+
+function generateCampaignCode(prefix: string | null): string {
+    let body = "";
+    for (let i = 0; i < CAMPAIGN_CODE_LENGTH; i++) {
+        body += CAMPAIGN_CODE_ALPHABET[crypto.randomInt(CAMPAIGN_CODE_ALPHABET.length)];
+    }
+    return prefix ? `${prefix}-${body}` : body;
+}
+
+// Discount rule copied onto every code of a campaign
+export interface CampaignCouponRule {
+    discountType: DiscountType;
+    discountValue: number;
+    maxDiscountAmount: number | null;
+    minOrderAmount: number | null;
+    perUserLimit: number;
+    validFrom: Date;
+    validTill: Date | null;
+    firstPurchaseOnly: boolean;
+    allowedEmails: string[];
+    courseIds: number[];
+    categoryIds: number[];
+}
+
+export interface CreateCampaignParams {
+    name: string;
+    description: string | null;
+    codePrefix: string | null;
+    codeCount: number;
+    usesPerCode: number;
+    createdById: number;
+    rule: CampaignCouponRule;
+}
+
+/**
+ * Create a campaign and generate its codes
+ * Every code is its own Coupon row (so validation, consumption and refunds
+ * work unchanged), limited to usesPerCode redemptions in total
+ */
+export async function createCouponCampaign(params: CreateCampaignParams) {
+    const { name, description, codePrefix, codeCount, usesPerCode, createdById, rule } = params;
+
+    // Draw codes until we have enough that are unique here and not already taken
+    const codes = new Set<string>();
+    while (codes.size < codeCount) {
+        const batch = new Set<string>();
+        while (batch.size < codeCount - codes.size) {
+            const code = generateCampaignCode(codePrefix);
+            if (!codes.has(code)) batch.add(code);
+        }
+
+        const taken = await prisma.coupon.findMany({
+            where: { code: { in: [...batch] } },
+            select: { code: true }
+        });
+        const takenCodes = new Set(taken.map(c => c.code));
+        batch.forEach(code => { if (!takenCodes.has(code)) codes.add(code); });
+    }
+
+    const campaign = await prisma.$transaction(async (tx) => {
+        const created = await tx.couponCampaign.create({
+            data: { name, description, codePrefix, codeCount, createdById }
+        });
+
+        // One create per code: targeting relations cannot be set through createMany
+        for (const code of codes) {
+            await tx.coupon.create({
+                data: {
+                    code,
+                    campaignId: created.id,
+                    discountType: rule.discountType,
+                    discountValue: rule.discountValue,
+                    maxDiscountAmount: rule.maxDiscountAmount,
+                    minOrderAmount: rule.minOrderAmount,
+                    totalUsageLimit: usesPerCode,
+                    perUserLimit: Math.min(rule.perUserLimit, usesPerCode),
+                    validFrom: rule.validFrom,
+                    validTill: rule.validTill,
+                    firstPurchaseOnly: rule.firstPurchaseOnly,
+                    allowedEmails: rule.allowedEmails,
+                    courses: { connect: rule.courseIds.map(id => ({ id })) },
+                    categories: { connect: rule.categoryIds.map(id => ({ id })) }
+                }
+            });
+        }
+
+        return created;
+    }, { timeout: 60000 });
+
+    logger.info(`[Coupon] Campaign ${campaign.id} (${name}) created with ${codeCount} codes by admin ${createdById}`);
+
+    return campaign;
+}
+
+// Campaign that groups the one-time codes sent with abandoned cart reminders
+const CART_RECOVERY_CAMPAIGN = "Abandoned cart recovery";
+
+/**
+ * Create a single-use percentage code for one student's abandoned cart
+ * Restricted to their email, so only they can redeem it. Codes are grouped
+ * under one campaign so getCampaignStats reports how many were redeemed.
+ */
+export async function createCartRecoveryCoupon(email: string, percentOff: number, validDays: number) {
+    return await prisma.$transaction(async (tx) => {
+        const campaign = await tx.couponCampaign.upsert({
+            where: { name: CART_RECOVERY_CAMPAIGN },
+            create: { name: CART_RECOVERY_CAMPAIGN, description: "Sent with abandoned cart reminders", codePrefix: "CART", codeCount: 1 },
+            update: { codeCount: { increment: 1 } }
+        });
+
+        let code = generateCampaignCode("CART");
+        while (await tx.coupon.findUnique({ where: { code }, select: { id: true } })) {
+            code = generateCampaignCode("CART");
+        }
+
+        const now = new Date();
+        return await tx.coupon.create({
+            data: {
+                code,
+                campaignId: campaign.id,
+                discountType: "PERCENTAGE",
+                discountValue: percentOff,
+                totalUsageLimit: 1,
+                perUserLimit: 1,
+                validFrom: now,
+                validTill: new Date(now.getTime() + validDays * 24 * 60 * 60 * 1000),
+                allowedEmails: [email.toLowerCase()]
+            }
+        });
+    });
+}
+
+/**
+ * Campaign-level redemption stats
+ * Same totals as getCouponStats, summed over every code of the campaign
+ */
+export async function getCampaignStats(campaignId: number) {
+    const campaign = await prisma.couponCampaign.findUnique({
+        where: { id: campaignId },
+        include: {
+            coupons: {
+                select: { id: true, code: true, usedCount: true, totalUsageLimit: true, isActive: true },
+                orderBy: { id: "asc" }
+            }
+        }
+    });
+
+    if (!campaign) return null;
+
+    const { coupons, ...details } = campaign;
+    const redeemedCodes = coupons.filter(c => c.usedCount > 0).length;
+
+    return {
+        ...details,
+        codes: {
+            total: coupons.length,
+            redeemed: redeemedCodes,
+            active: coupons.filter(c => c.isActive).length,
+            exhausted: coupons.filter(c => c.totalUsageLimit !== null && c.usedCount >= c.totalUsageLimit).length,
+            redemptionRate: coupons.length > 0
+                ? Math.round((redeemedCodes / coupons.length) * 10000) / 100
+                : 0
+        },
+        redemptions: await getRedemptionSummary(coupons.map(c => c.id))
     };
 }
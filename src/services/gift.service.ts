@@ -0,0 +1,199 @@
+// Gift Service - Courses bought for someone else
+// The purchaser pays a normal (isGift) order; its Gift code enrolls whoever
+// redeems it, so the purchaser's own enrollment is never touched
+
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { logger } from "../config/logger.config";
+import { NotFoundError, ValidationError } from "../utils/api_error.utils";
+import { getExistingAccess, grantCourseAccess } from "./access.service";
+import { sendMail } from "../utils/send_mail.utils";
+import { giftReceivedTemplate } from "../template/gift-received.template";
+
+// Who the gift is for (collected at checkout)
+export interface GiftDetails {
+    recipientEmail: string;
+    recipientName: string | null;
+    message: string | null;
+}
+
+const GIFT_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Random gift code, e.g. GIFT-7KQM-X2PD-HT9A (60 bits - not guessable)
+ */
+export const generateGiftCode = () => {
+    const groups = Array.from({ length: 3 }, () =>
+        Array.from({ length: 4 }, () => GIFT_CODE_ALPHABET[crypto.randomInt(GIFT_CODE_ALPHABET.length)]).join("")
+    );
+    return `GIFT-${groups.join("-")}`;
+};
+
+/**
+ * Make the gifts of just-paid orders redeemable
+ * Must run inside the caller's (checkout completion) transaction.
+ */
+export const releasePaidGifts = async (tx: Prisma.TransactionClient, orderIds: number[]) => {
+    await tx.gift.updateMany({
+        where: { orderId: { in: orderIds }, status: "AWAITING_PAYMENT" },
+        data: { status: "SENT" }
+    });
+};
+
+/**
+ * Take a gift back after its order was refunded
+ * An unredeemed code is always revoked; the recipient's enrollment is only
+ * removed when the admin chose to revoke access.
+ * Must run inside the caller's (refund) transaction.
+ */
+export const revokeGift = async (tx: Prisma.TransactionClient, orderId: number, revokeAccess: boolean) => {
+    const gift = await tx.gift.findUnique({ where: { orderId }, include: { order: { select: { courseId: true } } } });
+    if (!gift || gift.status === "REVOKED") return;
+
+    if (gift.status === "REDEEMED") {
+        if (!revokeAccess || gift.redeemedById === null) return;
+
+        await tx.enrollment.deleteMany({ where: { userId: gift.redeemedById, courseId: gift.order.courseId } });
+        await tx.certificate.deleteMany({ where: { userId: gift.redeemedById, courseId: gift.order.courseId } });
+    }
+
+    await tx.gift.update({ where: { id: gift.id }, data: { status: "REVOKED" } });
+    logger.info(`[Gift] Gift ${gift.id} revoked after refund of Order:${orderId}`);
+};
+
+/**
+ * Redeem a gift code for a user - creates (or renews) their enrollment
+ *
+ * @throws ValidationError if the code is not redeemable or the user already owns the course
+ */
+export const redeemGift = async (code: string, userId: number) => {
+    const gift = await prisma.gift.findUnique({
+        where: { code: code.trim().toUpperCase() },
+        include: { order: { select: { id: true, courseId: true, course: { select: { title: true } } } } }
+    });
+
+    if (!gift || gift.status === "AWAITING_PAYMENT") {
+        throw new NotFoundError("Gift code not found.");
+    }
+
+    if (gift.status !== "SENT") {
+        throw new ValidationError(gift.status === "REDEEMED" ? "This gift has already been redeemed." : "This gift is no longer valid.");
+    }
+
+    const courseId = gift.order.courseId;
+    const { ownedCourseIds, renewalCourseIds } = await getExistingAccess(userId, [courseId]);
+    if (ownedCourseIds.length > 0) {
+        throw new ValidationError("You already have lifetime access to this course.");
+    }
+
+    const enrollment = await prisma.$transaction(async (tx) => {
+        // Claim the code first - two parallel redemptions cannot both win
+        const claimed = await tx.gift.updateMany({
+            where: { id: gift.id, status: "SENT" },
+            data: { status: "REDEEMED", redeemedById: userId, redeemedAt: new Date() }
+        });
+        if (claimed.count === 0) {
+            throw new ValidationError("This gift has already been redeemed.");
+        }
+
+        const { enrollment, created, alreadyEnrolled } = await grantCourseAccess(tx, userId, courseId, renewalCourseIds.length > 0);
+        if (alreadyEnrolled) {
+            throw new ValidationError("You already have lifetime access to this course.");
+        }
+
+        // The gift's payment belongs to the enrollment it paid for
+        if (created) {
+            await tx.payment.updateMany({
+                where: { orderId: gift.order.id, enrollmentId: null },
+                data: { enrollmentId: enrollment.id }
+            });
+        }
+
+        return enrollment;
+    });
+
+    logger.info(`[Gift] User:${userId} redeemed gift ${gift.id} for Course:${courseId}`);
+    return { giftId: gift.id, courseId, courseTitle: gift.order.course.title, expiresAt: enrollment.expiresAt };
+};
+
+/**
+ * Redeem every gift sent to this user's email address
+ * Runs on login and email verification. Never throws - a gift that cannot be
+ * redeemed (e.g. course already owned) stays available for later.
+ */
+export const redeemPendingGifts = async (userId: number, email: string) => {
+    const redeemed: Awaited<ReturnType<typeof redeemGift>>[] = [];
+
+    try {
+        const gifts = await prisma.gift.findMany({
+            where: { recipientEmail: email.toLowerCase(), status: "SENT" },
+            select: { code: true }
+        });
+
+        for (const gift of gifts) {
+            try {
+                redeemed.push(await redeemGift(gift.code, userId));
+            } catch (error: any) {
+                logger.warn(`[Gift] Could not auto-redeem a gift for User:${userId}: ${error.message}`);
+            }
+        }
+    } catch (error: any) {
+        logger.error(`[Gift] Auto-redeem failed for User:${userId}: ${error.message}`);
+    }
+
+    return redeemed;
+};
+
+/**
+ * Email the recipients of redeemable gifts
+ * Only gifts not emailed yet are sent unless `resend` is set.
+ * Never throws - email problems must not affect the payment response
+ */
+export const sendGiftEmails = async (where: Prisma.GiftWhereInput, resend = false) => {
+    try {
+        const gifts = await prisma.gift.findMany({
+            where: { ...where, status: "SENT", ...(resend ? {} : { emailedAt: null }) },
+            include: {
+                purchaser: { select: { firstName: true, lastName: true } },
+                order: { select: { course: { select: { title: true } } } }
+            }
+        });
+
+        for (const gift of gifts) {
+            // One bad address must not hold back the rest - the job retries this one
+            try {
+                const senderName = `${gift.purchaser.firstName} ${gift.purchaser.lastName}`;
+
+                await sendMail(
+                    gift.recipientEmail,
+                    `🎁 ${senderName} sent you a course - ${gift.order.course.title}`,
+                    giftReceivedTemplate({
+                        recipientName: gift.recipientName,
+                        senderName,
+                        courseName: gift.order.course.title,
+                        giftCode: gift.code,
+                        message: gift.message
+                    })
+                );
+                await prisma.gift.update({ where: { id: gift.id }, data: { emailedAt: new Date() } });
+                logger.info(`[Gift] Gift ${gift.id} emailed to ${gift.recipientEmail}`);
+            } catch (e: any) {
+                logger.error(`[Gift] Failed to send email for gift ${gift.id}: ${e.message}`);
+            }
+        }
+    } catch (e: any) {
+        logger.error(`[Gift] Failed to load gifts to email: ${e.message}`);
+    }
+};
+
+/**
+ * Gifts a user has bought, newest first
+ */
+export const getSentGifts = async (purchaserId: number) => {
+    return await prisma.gift.findMany({
+        where: { purchaserId, status: { not: "AWAITING_PAYMENT" } },
+        include: { order: { select: { id: true, course: { select: { id: true, title: true, thumbnail: true } } } } },
+        orderBy: { createdAt: "desc" }
+    });
+};
@@ -0,0 +1,159 @@
+// Invoice Service - GST tax invoices and credit notes
+// Invoices are issued inside the payment transactions so numbering stays gapless
+
+import { Prisma, Refund } from "@prisma/client";
+import { prisma } from "../prisma";
+import { COMPANY } from "../COMPANY";
+import { logger } from "../config/logger.config";
+import { NotFoundError, ValidationError } from "../utils/api_error.utils";
+import { EXPORT_PLACE_OF_SUPPLY, isExportSupply, splitGstInclusive, getFinancialYear } from "../utils/gst.utils";
+
+// Billing details collected at checkout (both optional for individual buyers)
+export interface BillingDetails {
+    stateCode: string | null;
+    gstin: string | null;
+}
+
+/**
+ * Next number in a gapless document series, e.g. INV/2026-27/000042
+ * The counter row is locked until the caller's transaction ends, so two
+ * checkouts can never get the same number and a rollback never leaves a gap.
+ */
+const nextDocumentNumber = async (tx: Prisma.TransactionClient, prefix: string, date: Date) => {
+    const series = `${prefix}/${getFinancialYear(date)}`;
+
+    const sequence = await tx.documentSequence.upsert({
+        where: { series },
+        create: { series, lastValue: 1 },
+        update: { lastValue: { increment: 1 } }
+    });
+
+    return `${series}/${String(sequence.lastValue).padStart(6, "0")}`;
+};
+
+/**
+ * Issue the invoice for one completed order (no-op if it already has one)
+ * Free orders are skipped - there is no taxable supply to invoice.
+ * Foreign-currency orders are exports: zero-rated, the whole amount is taxable value.
+ * Must run inside the caller's transaction.
+ */
+export const ensureInvoice = async (tx: Prisma.TransactionClient, orderId: number) => {
+    const existing = await tx.invoice.findUnique({ where: { orderId } });
+    if (existing) return existing;
+
+    const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: {
+            user: { select: { firstName: true, lastName: true, email: true } },
+            checkoutSession: { select: { billingStateCode: true, buyerGstin: true } }
+        }
+    });
+
+    if (!order || order.amount <= 0) return null;
+
+    // Unknown buyer state: place of supply is the seller's location
+    // Foreign buyer: outside India, nothing charged
+    const isExport = isExportSupply(order.currency);
+    const placeOfSupply = isExport
+        ? EXPORT_PLACE_OF_SUPPLY
+        : order.checkoutSession?.billingStateCode || COMPANY.gst.stateCode;
+    const gstRate = isExport ? 0 : COMPANY.gst.rate;
+    const breakdown = splitGstInclusive(order.amount, gstRate, COMPANY.gst.stateCode, placeOfSupply);
+    const issuedAt = new Date();
+
+    const invoice = await tx.invoice.create({
+        data: {
+            invoiceNumber: await nextDocumentNumber(tx, "INV", issuedAt),
+            orderId: order.id,
+            userId: order.userId,
+            buyerName: `${order.user.firstName} ${order.user.lastName}`,
+            buyerEmail: order.user.email,
+            buyerGstin: order.checkoutSession?.buyerGstin || null,
+            placeOfSupply,
+            gstRate,
+            ...breakdown,
+            currency: order.currency,
+            issuedAt
+        }
+    });
+
+    logger.info(`[Invoice] Issued ${invoice.invoiceNumber} for Order:${order.id}`);
+    return invoice;
+};
+
+/**
+ * Issue a credit note for one refund, split the same way as its invoice
+ * Must run inside the caller's transaction.
+ */
+export const issueCreditNote = async (tx: Prisma.TransactionClient, refund: Refund) => {
+    const invoice = await ensureInvoice(tx, refund.orderId);
+    if (!invoice) return null;
+
+    const breakdown = splitGstInclusive(refund.amount, invoice.gstRate, COMPANY.gst.stateCode, invoice.placeOfSupply);
+    const issuedAt = new Date();
+
+    const creditNote = await tx.creditNote.create({
+        data: {
+            creditNoteNumber: await nextDocumentNumber(tx, "CN", issuedAt),
+            invoiceId: invoice.id,
+            refundId: refund.id,
+            ...breakdown,
+            reason: refund.reason,
+            issuedAt
+        }
+    });
+
+    logger.info(`[Invoice] Issued credit note ${creditNote.creditNoteNumber} against ${invoice.invoiceNumber}`);
+    return creditNote;
+};
+
+/**
+ * Get the invoice (with credit notes) for an order
+ * Students can only see their own; admins can see any.
+ * Orders paid before invoicing existed get their invoice on first request.
+ */
+export const getOrderInvoice = async (orderId: number, requester: { id: number; isAdmin: boolean }) => {
+    const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: { id: true, userId: true, status: true, amount: true }
+    });
+
+    // Someone else's order looks exactly like a missing one
+    if (!order || (!requester.isAdmin && order.userId !== requester.id)) {
+        throw new NotFoundError("Order not found.");
+    }
+
+    if (order.status !== "COMPLETED" && order.status !== "REFUNDED") {
+        throw new ValidationError("Invoices are only available for paid orders.");
+    }
+
+    if (order.amount <= 0) {
+        throw new ValidationError("Free enrollments do not have a tax invoice.");
+    }
+
+    try {
+        await prisma.$transaction((tx) => ensureInvoice(tx, order.id));
+    } catch (error: any) {
+        // A parallel request issued it first - read theirs below
+        if (error.code !== 'P2002') throw error;
+    }
+
+    return await prisma.invoice.findUniqueOrThrow({
+        where: { orderId: order.id },
+        include: {
+            order: {
+                select: {
+                    id: true,
+                    originalPrice: true,
+                    discountAmount: true,
+                    couponCode: true,
+                    course: { select: { title: true } },
+                    payment: { select: { gatewayPaymentId: true } }
+                }
+            },
+            creditNotes: { orderBy: { issuedAt: "asc" } }
+        }
+    });
+};
+
+export type OrderInvoice = Awaited<ReturnType<typeof getOrderInvoice>>;
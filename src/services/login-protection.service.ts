@@ -0,0 +1,140 @@
+// Login Protection Service - Brute-force defense for password logins
+// Failed attempts are counted per account (email) and per IP in Redis.
+// Past a few free attempts each further failure doubles the wait before the
+// next try; too many failures on one account lock it and email an unlock link.
+// Unknown emails are counted exactly like real ones, so the responses never
+// reveal whether an account exists.
+
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { redis } from "../config/redis.config";
+import { logger } from "../config/logger.config";
+import { ApiError, ValidationError } from "../utils/api_error.utils";
+import { sendMail } from "../utils/send_mail.utils";
+import { accountLockedTemplate } from "../template/account-locked.template";
+
+interface AttemptPolicy {
+    freeAttempts: number;    // failures before any wait
+    maxBackoffSeconds: number;
+    windowSeconds: number;   // failures older than this are forgotten
+}
+
+const ACCOUNT_POLICY: AttemptPolicy = { freeAttempts: 3, maxBackoffSeconds: 300, windowSeconds: 1800 };
+const IP_POLICY: AttemptPolicy = { freeAttempts: 20, maxBackoffSeconds: 900, windowSeconds: 1800 };
+
+const ACCOUNT_LOCK_THRESHOLD = 10;
+const ACCOUNT_LOCK_SECONDS = 1800; // 30 minutes
+const UNLOCK_TOKEN_TTL = 86400;    // 24 hours
+
+const FAIL_KEY = "login_fail:";
+const WAIT_KEY = "login_wait:";
+const LOCK_KEY = "login_lock:";
+const UNLOCK_TOKEN_KEY = "login_unlock:";
+
+export const INVALID_CREDENTIALS_MESSAGE = "Invalid email or password";
+
+// Compared against when the email is unknown, so both cases take as long
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString("hex"), 10);
+
+const accountKey = (email: string) => `account:${email}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+const formatWait = (seconds: number) => seconds >= 60
+    ? `${Math.ceil(seconds / 60)} minute(s)`
+    : `${seconds} second(s)`;
+
+/**
+ * Refuse the attempt while the account or IP is backing off or locked
+ * @throws ApiError 429
+ */
+export const assertLoginAllowed = async (email: string, ip: string): Promise<void> => {
+    const [lockTtl, accountWait, ipWait] = await Promise.all([
+        redis.ttl(LOCK_KEY + email),
+        redis.ttl(WAIT_KEY + accountKey(email)),
+        redis.ttl(WAIT_KEY + ipKey(ip))
+    ]);
+
+    const wait = Math.max(lockTtl, accountWait, ipWait);
+    if (wait > 0) {
+        throw new ApiError(429, `Too many failed login attempts. Please try again in ${formatWait(wait)}.`);
+    }
+};
+
+/**
+ * Compare the password, or burn the same time when there is no such user
+ */
+export const verifyLoginPassword = async (password: string, passwordHash: string | undefined): Promise<boolean> => {
+    const isValid = await bcrypt.compare(password, passwordHash ?? DUMMY_PASSWORD_HASH);
+    return passwordHash !== undefined && isValid;
+};
+
+// Count one failure; past the free attempts, wait 1s, 2s, 4s, ... before the next try
+const countFailure = async (key: string, policy: AttemptPolicy): Promise<number> => {
+    const failures = await redis.incr(FAIL_KEY + key);
+    await redis.expire(FAIL_KEY + key, policy.windowSeconds);
+
+    if (failures > policy.freeAttempts) {
+        const backoff = Math.min(2 ** (failures - policy.freeAttempts - 1), policy.maxBackoffSeconds);
+        await redis.set(WAIT_KEY + key, "1", "EX", backoff);
+    }
+
+    return failures;
+};
+
+/**
+ * Record a failed login; locks the account (and emails its owner) at the threshold
+ */
+export const recordLoginFailure = async (
+    email: string,
+    ip: string,
+    user: { firstName: string; email: string } | null
+): Promise<void> => {
+    const [accountFailures, ipFailures] = await Promise.all([
+        countFailure(accountKey(email), ACCOUNT_POLICY),
+        countFailure(ipKey(ip), IP_POLICY)
+    ]);
+
+    if (ipFailures === IP_POLICY.freeAttempts + 1) {
+        logger.warn(`[LoginProtection] IP ${ip} is failing logins for many accounts - backing off`);
+    }
+
+    if (accountFailures < ACCOUNT_LOCK_THRESHOLD) return;
+
+    // Only the failure that crosses the threshold locks (and sends one email)
+    const locked = await redis.set(LOCK_KEY + email, "1", "EX", ACCOUNT_LOCK_SECONDS, "NX");
+    if (!locked) return;
+
+    logger.warn(`[LoginProtection] Account ${email} locked after ${accountFailures} failed logins (last from ${ip})`);
+    if (!user) return;
+
+    const unlockToken = crypto.randomBytes(32).toString("hex");
+    await redis.set(UNLOCK_TOKEN_KEY + unlockToken, email, "EX", UNLOCK_TOKEN_TTL);
+
+    sendMail(user.email, 'Your account has been temporarily locked', accountLockedTemplate({
+        firstName: user.firstName,
+        unlockLink: `${process.env.FRONTEND_URL}/unlock-account?token=${unlockToken}`,
+        lockMinutes: ACCOUNT_LOCK_SECONDS / 60,
+        ipAddress: ip
+    })).catch((error: any) => logger.error(`[LoginProtection] Unlock email failed for ${email}: ${error.message}`));
+};
+
+/**
+ * Successful login - the account starts over (the IP's count keeps running,
+ * so logging in to one's own account does not reset an attack from that IP)
+ */
+export const clearLoginFailures = async (email: string): Promise<void> => {
+    await redis.del(FAIL_KEY + accountKey(email), WAIT_KEY + accountKey(email));
+};
+
+/**
+ * Unlock an account from the emailed link (single use)
+ */
+export const unlockAccount = async (token: string): Promise<void> => {
+    const email = await redis.get(UNLOCK_TOKEN_KEY + token);
+    if (!email) {
+        throw new ValidationError("Unlock link is invalid or has expired.");
+    }
+
+    await redis.del(UNLOCK_TOKEN_KEY + token, LOCK_KEY + email, FAIL_KEY + accountKey(email), WAIT_KEY + accountKey(email));
+    logger.info(`[LoginProtection] Account ${email} unlocked from the email link`);
+};
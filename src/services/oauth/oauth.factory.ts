@@ -0,0 +1,39 @@
+import { OAuthProvider } from "@prisma/client";
+import { NotFoundError } from "../../utils/api_error.utils";
+import { IOAuthProvider } from "./oauth.types";
+
+// Import all sign-in providers
+import { googleProvider } from "./providers/google.provider";
+
+/**
+ * OAUTH FACTORY
+ *
+ * Picks the sign-in provider named in the URL (/auth/oauth/google/...).
+ * Providers without credentials in the environment are treated as unknown.
+ */
+
+const OAUTH_PROVIDERS: Record<OAuthProvider, IOAuthProvider> = {
+    [OAuthProvider.GOOGLE]: googleProvider
+};
+
+/**
+ * Get a configured provider by its URL name ("google")
+ * @throws NotFoundError for unknown or unconfigured providers
+ */
+export function getOAuthProvider(name: string): IOAuthProvider {
+    const provider = OAUTH_PROVIDERS[name.toUpperCase() as OAuthProvider];
+
+    if (!provider || !provider.isConfigured()) {
+        throw new NotFoundError(`Sign-in with "${name}" is not available`);
+    }
+    return provider;
+}
+
+/**
+ * Names of the providers the frontend can show buttons for
+ */
+export function getEnabledOAuthProviders(): string[] {
+    return Object.values(OAUTH_PROVIDERS)
+        .filter(provider => provider.isConfigured())
+        .map(provider => provider.name.toLowerCase());
+}
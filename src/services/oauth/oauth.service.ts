@@ -0,0 +1,120 @@
+// OAuth Service - Sign in with an external provider (see ./providers)
+// Identities are linked to verified users by verified email; first-time users
+// are created already active, since the provider has verified their email.
+// An unverified local account is never linked: whoever registered it may not
+// own the email, and linking would hand them (or take from them) the account.
+
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { User } from "@prisma/client";
+import { prisma } from "../../prisma";
+import { redis } from "../../config/redis.config";
+import { logger } from "../../config/logger.config";
+import { AuthError } from "../../utils/api_error.utils";
+import { getOAuthProvider } from "./oauth.factory";
+import { IOAuthProvider, OAuthProfile } from "./oauth.types";
+
+const STATE_KEY = "oauth_state:";
+const STATE_TTL = 600; // 10 minutes to finish signing in at the provider
+
+interface PendingAuthorization {
+    provider: string;
+    codeVerifier: string;
+    nonce: string;
+}
+
+const base64Url = (buffer: Buffer) => buffer.toString("base64url");
+
+// A password nobody knows - OAuth users can set a real one via forgot password
+const unusablePasswordHash = () => bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+
+/**
+ * Step 1: the provider link to send the user to
+ * The PKCE verifier and nonce stay in Redis under the state until the callback.
+ *
+ * @returns the link, and the state (also kept in a cookie by the controller)
+ */
+export const createOAuthAuthorization = async (providerName: string) => {
+    const provider = getOAuthProvider(providerName);
+
+    const state = crypto.randomBytes(32).toString("hex");
+    const nonce = crypto.randomBytes(16).toString("hex");
+    const codeVerifier = base64Url(crypto.randomBytes(32));
+    const codeChallenge = base64Url(crypto.createHash("sha256").update(codeVerifier).digest());
+
+    const pending: PendingAuthorization = { provider: provider.name, codeVerifier, nonce };
+    await redis.set(STATE_KEY + state, JSON.stringify(pending), "EX", STATE_TTL);
+
+    return { state, authorizationUrl: provider.getAuthorizationUrl({ state, nonce, codeChallenge }) };
+};
+
+// Known identity -> its user; otherwise link to (or create) the user with the same email
+const findOrCreateUser = async (provider: IOAuthProvider, profile: OAuthProfile) => {
+    const identity = await prisma.oAuthIdentity.findUnique({
+        where: { provider_providerUserId: { provider: provider.name, providerUserId: profile.providerUserId } },
+        include: { user: true }
+    });
+
+    if (identity) {
+        await prisma.oAuthIdentity.update({ where: { id: identity.id }, data: { lastLoginAt: new Date() } });
+        return { user: identity.user, isNewUser: false };
+    }
+
+    // an unverified provider email could belong to anyone
+    if (!profile.emailVerified) {
+        throw new AuthError(`Your ${provider.name.toLowerCase()} email address is not verified.`);
+    }
+
+    const email = profile.email.toLowerCase();
+    const identityData = { provider: provider.name, providerUserId: profile.providerUserId, email };
+    const existingUser = await prisma.user.findUnique({ where: { email } });
+
+    if (existingUser) {
+        // Registered but never verified - the owner has to verify the email first
+        if (!existingUser.isActive) {
+            logger.warn(`[OAuth] Refused to link ${provider.name} identity to unverified User:${existingUser.id}`);
+            throw new AuthError("An account with this email is waiting for email verification. Verify your email, then sign in again.");
+        }
+
+        await prisma.oAuthIdentity.create({ data: { ...identityData, userId: existingUser.id } });
+        logger.info(`[OAuth] Linked ${provider.name} identity to User:${existingUser.id}`);
+        return { user: existingUser, isNewUser: false };
+    }
+
+    const user = await prisma.user.create({
+        data: {
+            firstName: (profile.firstName || email.split("@")[0] || "").toLowerCase(),
+            lastName: profile.lastName.toLowerCase(),
+            email,
+            password: await unusablePasswordHash(),
+            isActive: true,
+            oauthIdentities: { create: identityData }
+        }
+    });
+
+    logger.info(`[OAuth] Created User:${user.id} from ${provider.name} sign-in`);
+    return { user, isNewUser: true };
+};
+
+/**
+ * Step 2: the provider redirected back - the user this sign-in belongs to
+ * A state is single use and only valid for the provider that issued it.
+ */
+export const completeOAuthAuthorization = async (
+    providerName: string,
+    code: string,
+    state: string
+): Promise<{ user: User; isNewUser: boolean }> => {
+    const provider = getOAuthProvider(providerName);
+
+    // read and delete in one step, so a state cannot be redeemed twice
+    const stored = await redis.getdel(STATE_KEY + state);
+
+    const pending = stored ? JSON.parse(stored) as PendingAuthorization : null;
+    if (!pending || pending.provider !== provider.name) {
+        throw new AuthError("Sign-in session expired, please try again.");
+    }
+
+    const profile = await provider.exchangeCode({ code, codeVerifier: pending.codeVerifier, nonce: pending.nonce });
+    return await findOrCreateUser(provider, profile);
+};
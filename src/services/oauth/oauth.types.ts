@@ -0,0 +1,55 @@
+import { OAuthProvider } from "@prisma/client";
+
+/**
+ * ============================================================================
+ * OAUTH PROVIDER TYPES
+ *
+ * The contract every external sign-in provider follows (authorization code
+ * flow with PKCE). Adding a provider = one file in ./providers + a case in
+ * oauth.factory.ts + a value in the OAuthProvider enum.
+ */
+
+/**
+ * What we put in the link that sends the user to the provider
+ */
+export interface AuthorizationUrlParams {
+    state: string;               // ties the callback to the browser that started it
+    codeChallenge: string;       // PKCE: S256 hash of the code verifier
+    nonce: string;               // echoed back inside the ID token
+}
+
+/**
+ * What we need to trade the callback's code for the user's profile
+ */
+export interface ExchangeCodeParams {
+    code: string;                // from the provider's redirect
+    codeVerifier: string;        // PKCE: the secret behind the code challenge
+    nonce: string;               // must match the one in the ID token
+}
+
+/**
+ * The user as the provider knows them
+ */
+export interface OAuthProfile {
+    providerUserId: string;      // stable id at the provider ("sub")
+    email: string;
+    emailVerified: boolean;      // only verified emails are linked to accounts
+    firstName: string;
+    lastName: string;
+}
+
+/**
+ * Every sign-in provider must implement this
+ */
+export interface IOAuthProvider {
+    name: OAuthProvider;
+
+    // Whether the credentials are set (unconfigured providers are hidden)
+    isConfigured(): boolean;
+
+    // Where to send the user to sign in
+    getAuthorizationUrl(params: AuthorizationUrlParams): string;
+
+    // Trade the callback's code for the user's profile
+    exchangeCode(params: ExchangeCodeParams): Promise<OAuthProfile>;
+}
@@ -0,0 +1,162 @@
+import axios from "axios";
+import jwt from "jsonwebtoken";
+import { OAuthProvider } from "@prisma/client";
+import { logger } from "../../../config/logger.config";
+import { AuthError, InternalError } from "../../../utils/api_error.utils";
+import { AuthorizationUrlParams, ExchangeCodeParams, IOAuthProvider, OAuthProfile } from "../oauth.types";
+
+/**
+ * ============================================================================
+ * GOOGLE SIGN-IN PROVIDER
+ * ============================================================================
+ *
+ * OpenID Connect authorization code flow with PKCE:
+ * 1. Send the user to Google with a state, nonce and code challenge
+ * 2. Google redirects back to the frontend with a code
+ * 3. Trade the code (+ code verifier) for an ID token at the token endpoint
+ * 4. Read the profile from the ID token
+ *
+ * The ID token comes straight from Google's token endpoint over TLS, so per
+ * OIDC Core 3.1.3.7 we check its claims (issuer, audience, expiry, nonce)
+ * without fetching Google's signing keys.
+ *
+ * GOOGLE_AUTH_URL / GOOGLE_TOKEN_URL / GOOGLE_ISSUER can point to a local
+ * mock IdP, so the flow can be exercised without calling Google.
+ */
+
+const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"];
+
+interface GoogleIdTokenClaims {
+    iss?: string;
+    aud?: string | string[];
+    exp?: number;
+    nonce?: string;
+    sub?: string;
+    email?: string;
+    email_verified?: boolean | string;
+    given_name?: string;
+    family_name?: string;
+    name?: string;
+}
+
+/**
+ * STEP 1: Get Google credentials
+ * These come from environment variables (.env file)
+ */
+function getGoogleConfig() {
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+
+    if (!clientId || clientId.trim() === '' || !clientSecret || clientSecret.trim() === '') {
+        logger.error('[Google] GOOGLE_CLIENT_ID or GOOGLE_CLIENT_SECRET is missing in environment variables');
+        throw new InternalError('Google sign-in not configured');
+    }
+
+    return {
+        clientId,
+        clientSecret,
+        redirectUri: process.env.GOOGLE_REDIRECT_URI || `${process.env.FRONTEND_URL}/oauth/google/callback`,
+        authUrl: process.env.GOOGLE_AUTH_URL || GOOGLE_AUTH_URL,
+        tokenUrl: process.env.GOOGLE_TOKEN_URL || GOOGLE_TOKEN_URL,
+        issuers: process.env.GOOGLE_ISSUER ? [process.env.GOOGLE_ISSUER] : GOOGLE_ISSUERS
+    };
+}
+
+/**
+ * STEP 2: Check the ID token was issued to us, for this login, and is still valid
+ */
+function validateIdToken(idToken: string, nonce: string): GoogleIdTokenClaims {
+    const { clientId, issuers } = getGoogleConfig();
+    const claims = jwt.decode(idToken) as GoogleIdTokenClaims | null;
+
+    if (!claims) {
+        throw new AuthError('Google sign-in failed: invalid ID token');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const isValid = !!claims.iss && issuers.includes(claims.iss)
+        && audiences.includes(clientId)
+        && !!claims.exp && claims.exp * 1000 > Date.now()
+        && claims.nonce === nonce
+        && !!claims.sub && !!claims.email;
+
+    if (!isValid) {
+        logger.warn(`[Google] Rejected ID token (iss: ${claims.iss}, aud: ${claims.aud}, sub: ${claims.sub})`);
+        throw new AuthError('Google sign-in failed: invalid ID token');
+    }
+
+    return claims;
+}
+
+export const googleProvider: IOAuthProvider = {
+    name: OAuthProvider.GOOGLE,
+
+    isConfigured(): boolean {
+        return !!process.env.GOOGLE_CLIENT_ID && !!process.env.GOOGLE_CLIENT_SECRET;
+    },
+
+    getAuthorizationUrl(params: AuthorizationUrlParams): string {
+        const { clientId, redirectUri, authUrl } = getGoogleConfig();
+
+        const query = new URLSearchParams({
+            client_id: clientId,
+            redirect_uri: redirectUri,
+            response_type: "code",
+            scope: "openid email profile",
+            state: params.state,
+            nonce: params.nonce,
+            code_challenge: params.codeChallenge,
+            code_challenge_method: "S256",
+            prompt: "select_account"
+        });
+
+        return `${authUrl}?${query.toString()}`;
+    },
+
+    async exchangeCode(params: ExchangeCodeParams): Promise<OAuthProfile> {
+        const { clientId, clientSecret, redirectUri, tokenUrl } = getGoogleConfig();
+
+        let idToken: string | undefined;
+        try {
+            const response = await axios.post(tokenUrl, new URLSearchParams({
+                grant_type: "authorization_code",
+                code: params.code,
+                code_verifier: params.codeVerifier,
+                redirect_uri: redirectUri,
+                client_id: clientId,
+                client_secret: clientSecret
+            }).toString(), {
+                headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                timeout: 10000
+            });
+            idToken = response.data?.id_token;
+        } catch (error: any) {
+            // a bad/expired/reused code is the user's problem, anything else is ours
+            const reason = error.response?.data?.error;
+            logger.error(`[Google] Token exchange failed: ${reason || error.message}`);
+            if (reason === "invalid_grant") {
+                throw new AuthError('Google sign-in expired, please try again');
+            }
+            throw new InternalError('Google sign-in is unavailable right now');
+        }
+
+        if (!idToken) {
+            logger.error('[Google] Token response has no id_token');
+            throw new InternalError('Google sign-in is unavailable right now');
+        }
+
+        const claims = validateIdToken(idToken, params.nonce);
+        const [givenName = "", ...familyNames] = (claims.name || "").split(" ");
+
+        return {
+            // Non-null: validateIdToken rejects tokens without sub/email
+            providerUserId: claims.sub!,
+            email: claims.email!,
+            emailVerified: claims.email_verified === true || claims.email_verified === "true",
+            firstName: claims.given_name || givenName,
+            lastName: claims.family_name || familyNames.join(" ")
+        };
+    }
+};
@@ -1,9 +1,19 @@
 import { prisma } from "../../prisma";
 import { logger } from "../../config/logger.config";
 import { ValidationError, NotFoundError, InternalError } from "../../utils/api_error.utils";
-import { PaymentProvider } from "@prisma/client";
+import { CheckoutSession, Order, PaymentProvider, Prisma } from "@prisma/client";
 import { getPaymentProvider, getActiveProviderName, getPaymentProviderByName } from "./payment.factory";
-import { consumeCoupon } from "../coupon.service";
+import { consumeCoupon, releaseCoupon, validateCoupon } from "../coupon.service";
+import { CreateOrderResult, RefundPaymentResult, WebhookParams } from "./payment.types";
+import { BillingDetails, ensureInvoice, issueCreditNote } from "../invoice.service";
+import { getCheckoutCurrency, quoteBundlePrice, quoteCoursePrices } from "../pricing.service";
+import { applySubscriptionWebhook } from "../subscription.service";
+import { getExistingAccess, grantCourseAccess, revokeRenewal } from "../access.service";
+import { GiftDetails, generateGiftCode, releasePaidGifts, revokeGift } from "../gift.service";
+import { recordCartRecovery } from "../cart-recovery.service";
+import { getCartWarnings } from "../cart.service";
+import { BASE_CURRENCY, toBaseAmount } from "../../utils/currency.utils";
+import { allocateProportionally, formatMoney, sumMinorUnits, toMajorUnits } from "../../utils/money.utils";
 
 /**
  * 
@@ -17,12 +27,245 @@ import { consumeCoupon } from "../coupon.service";
  * 4. Service handles database operations
  */
 
+/**
+ * Complete a Checkout & Enroll User
+ *
+ * Shared by browser verification (buy-now + cart), gateway webhooks and
+ * reconciliation, so every path runs the exact same order -> enrollment ->
+ * payment steps for EVERY order of the checkout session.
+ *
+ * Each order is "claimed" with a conditional update first. If a webhook and
+ * the browser verify the same payment at the same time, only one of them
+ * gets to enroll; the other simply skips the order. A course the student
+ * already owns does not stop the rest of the checkout from completing.
+ *
+ * @returns IDs of the orders completed by THIS call (empty = already processed)
+ */
+const completeCheckout = async (
+    checkout: CheckoutSession & { orders: Order[] },
+    payment: { paymentId: string; signature: string | null }
+): Promise<number[]> => {
+    return await prisma.$transaction(async (tx) => {
+        const completedOrderIds: number[] = [];
+
+        // The cart before step D removes the bought courses - F3 compares against it
+        const cartItems = await tx.cartItem.findMany({
+            where: { cart: { userId: checkout.userId } },
+            select: { courseId: true, addedAt: true }
+        });
+
+        for (const order of checkout.orders) {
+            // A. Claim the order (skip if someone else already completed it)
+            const claimed = await tx.order.updateMany({
+                where: { id: order.id, status: { in: ["PENDING", "PROCESSING", "FAILED"] } },
+                data: { status: "COMPLETED" }
+            });
+
+            if (claimed.count === 0) {
+                logger.info(`[PaymentService] Order ${order.id} already processed - skipping`);
+                continue;
+            }
+
+            // B. Create Enrollment (or extend it for a renewal)
+            // Gifts enroll nobody yet - the recipient redeems the code
+            const access = order.isGift
+                ? null
+                : await grantCourseAccess(tx, order.userId, order.courseId, order.isRenewal);
+
+            // Already enrolled through another order: the money was still taken, so the
+            // order completes like any other (and shows up for a refund) - it just grants nothing
+            if (access?.alreadyEnrolled) {
+                logger.warn(`[PaymentService] Order ${order.id} paid for Course:${order.courseId} that User:${order.userId} already owns - consider a refund`);
+            }
+
+            // C. Create Payment Record
+            await tx.payment.create({
+                data: {
+                    userId: order.userId,
+                    courseId: order.courseId,
+                    amount: order.amount,
+                    provider: order.provider,
+                    status: "SUCCESS",
+                    gatewayPaymentId: payment.paymentId,
+                    gatewaySignature: payment.signature,
+                    orderId: order.id,
+                    enrollmentId: access?.created ? access.enrollment.id : null // the first purchase keeps the link
+                }
+            });
+
+            // D. Remove from Cart and Wishlist (if user had it there)
+            // After buying, no need to keep it in cart! (a gift is not bought for yourself)
+            const userCart = order.isGift ? null : await tx.cart.findUnique({
+                where: { userId: order.userId }
+            });
+
+            if (userCart) {
+                await tx.cartItem.deleteMany({
+                    where: {
+                        cartId: userCart.id,
+                        courseId: order.courseId
+                    }
+                });
+            }
+
+            if (!order.isGift) {
+                await tx.wishlistItem.deleteMany({
+                    where: { userId: order.userId, courseId: order.courseId }
+                });
+            }
+
+            completedOrderIds.push(order.id);
+        }
+
+        // E. Consume coupon once for the whole checkout (record usage, increment count)
+        // Same transaction: a rollback below also undoes the usage
+        if (checkout.couponCode && completedOrderIds.length > 0) {
+            await consumeCoupon(tx, checkout.couponCode, checkout.userId, checkout.id);
+        }
+
+        // F. GST invoice for every order paid here (numbered in this transaction)
+        for (const orderId of completedOrderIds) {
+            await ensureInvoice(tx, orderId);
+        }
+
+        // F2. Gift codes of paid gift orders can now be redeemed
+        await releasePaidGifts(tx, completedOrderIds);
+
+        // F3. Buying a reminded cart course for themselves soon after the reminder counts as recovered
+        const ownOrders = checkout.orders.filter(o => completedOrderIds.includes(o.id) && !o.isGift);
+        if (ownOrders.length > 0 && cartItems.length > 0) {
+            await recordCartRecovery(tx, checkout.userId, cartItems, ownOrders.map(o => ({
+                courseId: o.courseId,
+                amount: toBaseAmount(o.amount, o.exchangeRate)
+            })));
+        }
+
+        // G. The gateway transaction itself is paid
+        await tx.checkoutSession.update({
+            where: { id: checkout.id },
+            data: { status: "COMPLETED" }
+        });
+
+        return completedOrderIds;
+    });
+};
+
+/**
+ * Fail a Checkout
+ * Marks the session and its still-PENDING orders as FAILED (allows immediate retry).
+ */
+const failCheckout = async (checkoutSessionId: number) => {
+    await prisma.$transaction([
+        prisma.order.updateMany({
+            where: { checkoutSessionId, status: "PENDING" },
+            data: { status: "FAILED" }
+        }),
+        prisma.checkoutSession.updateMany({
+            where: { id: checkoutSessionId, status: "PENDING" },
+            data: { status: "FAILED" }
+        })
+    ]);
+};
+
+/**
+ * Find a user's checkout session by the gateway order ID the browser sent back.
+ * Orders come from the session itself - never from IDs supplied by the client.
+ */
+const findUserCheckout = async (userId: number, gatewayOrderId: string) => {
+    const checkout = await prisma.checkoutSession.findUnique({
+        where: { gatewayOrderId },
+        include: { orders: true }
+    });
+
+    // Someone else's checkout looks exactly like a missing one
+    if (!checkout || checkout.userId !== userId) {
+        throw new NotFoundError("Order record not found.");
+    }
+
+    return checkout;
+};
+
+/**
+ * Pull the gateway order ID out of provider-specific payment data
+ * Try common field names used by different gateways
+ */
+const extractGatewayOrderId = (paymentData: Record<string, any>): string => {
+    const gatewayOrderId =
+        paymentData.razorpay_order_id ||  // Razorpay
+        paymentData.transactionId ||       // PhonePe
+        paymentData.orderId ||             // Cashfree
+        paymentData.order_id;              // Generic fallback
+
+    if (!gatewayOrderId) {
+        throw new ValidationError("Order ID not found in payment data");
+    }
+
+    return String(gatewayOrderId);
+};
+
+/**
+ * Enroll in Free Courses
+ *
+ * Free courses never touch a gateway, but each one still gets a zero-amount
+ * COMPLETED order so order counts and enrollment analytics stay consistent
+ * with paid courses. The course is also removed from the cart.
+ * Courses in renewalCourseIds extend the student's time-limited access instead.
+ */
+const enrollFreeCourses = async (
+    userId: number,
+    courses: { id: number; title: string; originalPrice: number | null }[],
+    renewalCourseIds: number[] = []
+): Promise<number[]> => {
+    const providerName = await getActiveProviderName();
+    const courseIds = courses.map(c => c.id);
+
+    return await prisma.$transaction(async (tx) => {
+        const orderIds: number[] = [];
+
+        for (const course of courses) {
+            const isRenewal = renewalCourseIds.includes(course.id);
+            const { alreadyEnrolled } = await grantCourseAccess(tx, userId, course.id, isRenewal);
+            if (alreadyEnrolled) {
+                throw new ValidationError(`You are already enrolled in ${course.title}.`);
+            }
+
+            const order = await tx.order.create({
+                data: {
+                    userId,
+                    courseId: course.id,
+                    isRenewal,
+                    amount: 0,
+                    currency: BASE_CURRENCY,
+                    status: "COMPLETED",
+                    provider: providerName,
+                    originalPrice: course.originalPrice || 0
+                }
+            });
+            orderIds.push(order.id);
+        }
+
+        const userCart = await tx.cart.findUnique({ where: { userId } });
+        if (userCart) {
+            await tx.cartItem.deleteMany({
+                where: { cartId: userCart.id, courseId: { in: courseIds } }
+            });
+        }
+
+        await tx.wishlistItem.deleteMany({
+            where: { userId, courseId: { in: courseIds } }
+        });
+
+        return orderIds;
+    });
+};
+
 /**
  * Step 1: Initiate a "Buy Now" Order
  * 
  * What happens:
  * 1. Validate course exists and is published
- * 2. Check user not already enrolled
+ * 2. Check user not already enrolled (time-limited access is renewed instead,
+ *    gifts skip this - they are for someone else)
  * 3. Create PENDING order in database
  * 4. Ask payment gateway to create order
  * 5. Update order with gateway's order ID
@@ -31,9 +274,11 @@ import { consumeCoupon } from "../coupon.service";
 export const initiateBuyNowOrder = async (
     userId: number,
     courseId: number,
-    userDetails: { name: string; email: string }
+    userDetails: { name: string; email: string; phone: string | null },
+    billing: BillingDetails = { stateCode: null, gstin: null },
+    gift: GiftDetails | null = null
 ) => {
-    logger.info(`[PaymentService] Starting BuyNow - User:${userId} Course:${courseId}`);
+    logger.info(`[PaymentService] Starting BuyNow - User:${userId} Course:${courseId}${gift ? " (gift)" : ""}`);
 
     // STEP 1: Validate Course
     const course = await prisma.course.findUnique({
@@ -53,17 +298,20 @@ export const initiateBuyNowOrder = async (
     // Payment gateways cannot process zero amount transactions
     if (course.price === 0) {
         logger.error('[PaymentService] Attempted to create payment for free course');
-        throw new ValidationError("This is a free course. Please enroll directly without payment.");
+        throw new ValidationError(gift
+            ? "Free courses cannot be gifted - share the course link instead."
+            : "This is a free course. Please enroll directly without payment.");
     }
 
     // STEP 2: Check Existing Enrollment
-    const existingEnrollment = await prisma.enrollment.findUnique({
-        where: { userId_courseId: { userId, courseId } }
-    });
+    const { ownedCourseIds, renewalCourseIds } = gift
+        ? { ownedCourseIds: [], renewalCourseIds: [] }
+        : await getExistingAccess(userId, [courseId]);
 
-    if (existingEnrollment) {
+    if (ownedCourseIds.length > 0) {
         throw new ValidationError("You are already enrolled in this course.");
     }
+    const isRenewal = renewalCourseIds.length > 0;
 
     // STEP 2A: Smart Pending Order Check with 1-min timeout
     const TIMEOUT_MINUTES = 1;
@@ -90,40 +338,66 @@ export const initiateBuyNowOrder = async (
         logger.info(`[PaymentService] Ignoring expired pending order ${pendingOrder.id}`);
     }
 
-    // STEP 3: Get Active Payment Gateway
+    // STEP 3: Price the course in the student's currency
+    const currency = await getCheckoutCurrency(userId);
+    const quote = await quoteCoursePrices([course], currency);
+    const localPrice = quote.prices.get(course.id)!; // Non-null: quoted above
+
+    // STEP 3A: Get Active Payment Gateway
     const paymentGateway = await getPaymentProvider();
     const providerName = paymentGateway.getProviderName();
 
-    logger.info(`[PaymentService] Using gateway: ${providerName}`);
+    logger.info(`[PaymentService] Using gateway: ${providerName}, ${formatMoney(localPrice.price, currency)}`);
 
-    // STEP 4: Create Local Order (PENDING)
-    const order = await prisma.order.create({
+    // STEP 4: Create Checkout Session + Local Order (PENDING)
+    const checkout = await prisma.checkoutSession.create({
         data: {
             userId,
-            courseId,
-            amount: course.price,
-            currency: "INR",
-            status: "PENDING",
             provider: providerName,
-            originalPrice: course.originalPrice || course.price
-        }
+            amount: localPrice.price,
+            currency,
+            billingStateCode: billing.stateCode,
+            buyerGstin: billing.gstin,
+            orders: {
+                create: {
+                    userId,
+                    courseId,
+                    isRenewal,
+                    isGift: gift !== null,
+                    amount: localPrice.price,
+                    currency,
+                    exchangeRate: quote.exchangeRate,
+                    status: "PENDING",
+                    provider: providerName,
+                    originalPrice: localPrice.originalPrice || localPrice.price,
+                    ...(gift ? {
+                        gift: {
+                            create: { code: generateGiftCode(), purchaserId: userId, ...gift }
+                        }
+                    } : {})
+                }
+            }
+        },
+        include: { orders: true }
     });
+    const order = checkout.orders[0]!; // Non-null: created together with the session
 
     // STEP 5: Create Gateway Order
     try {
         const gatewayResult = await paymentGateway.createOrder({
-            amount: course.price,
-            currency: "INR",
+            amount: toMajorUnits(localPrice.price), // Providers take major units
+            currency,
             orderId: order.id,
             courseId: course.id,
             courseTitle: course.title,
             userEmail: userDetails.email,
-            userName: userDetails.name
+            userName: userDetails.name,
+            userPhone: userDetails.phone
         });
 
-        // STEP 6: Update Local Order with Gateway ID
-        await prisma.order.update({
-            where: { id: order.id },
+        // STEP 6: Update Checkout Session with Gateway ID
+        await prisma.checkoutSession.update({
+            where: { id: checkout.id },
             data: { gatewayOrderId: gatewayResult.gatewayOrderId }
         });
 
@@ -135,7 +409,10 @@ export const initiateBuyNowOrder = async (
                 amount: gatewayResult.amount,
                 currency: gatewayResult.currency,
                 key: gatewayResult.gatewayKeyId,
+                paymentSessionId: gatewayResult.paymentSessionId, // Cashfree checkout needs this
+                redirectUrl: gatewayResult.redirectUrl, // PhonePe pay page
                 provider: providerName, // Tell frontend which gateway to use!
+                checkoutSessionId: checkout.id,
                 internalOrderId: order.id,
                 courseTitle: course.title,
                 userEmail: userDetails.email,
@@ -151,10 +428,7 @@ export const initiateBuyNowOrder = async (
             orderId: order.id
         });
 
-        await prisma.order.update({
-            where: { id: order.id },
-            data: { status: "FAILED" }
-        });
+        await failCheckout(checkout.id);
 
         // Re-throw with context
         throw error;
@@ -165,14 +439,18 @@ export const initiateBuyNowOrder = async (
  * Step 2: Verify Payment Signature
  * 
  * What happens:
- * 1. Find the order in database (determines which provider was used)
+ * 1. Find the checkout session in database (determines which provider was used)
  * 2. Get that specific provider instance
  * 3. Ask provider to verify the payment
  * 4. If valid, complete order + enroll user + record payment
+ *    (even if a failed attempt already marked the checkout FAILED)
  * 5. If invalid, mark order as FAILED
  * 
  * IMPORTANT: This function accepts GENERIC payment data.
  * Each provider extracts what it needs from this data.
+ *
+ * @returns completedOrderIds - orders completed by THIS call (empty when the
+ *          webhook got there first, so the caller does not email twice)
  */
 export const verifyPaymentSignature = async (
     userId: number,
@@ -181,49 +459,34 @@ export const verifyPaymentSignature = async (
     logger.info(`[PaymentService] Verifying payment - User:${userId}`);
 
     // STEP 1: Extract gateway order ID (providers use different field names)
-    // Try common field names used by different gateways
-    const gatewayOrderId =
-        paymentData.razorpay_order_id ||  // Razorpay
-        paymentData.transactionId ||       // PhonePe
-        paymentData.orderId ||             // Cashfree
-        paymentData.order_id;              // Generic fallback
-
-    if (!gatewayOrderId) {
-        throw new ValidationError("Order ID not found in payment data");
-    }
-
-    // STEP 2: Find the Order (this tells us which provider to use)
-    const order = await prisma.order.findUnique({
-        where: { gatewayOrderId },
-        include: { course: true }
-    });
+    const gatewayOrderId = extractGatewayOrderId(paymentData);
 
-    if (!order) {
-        throw new NotFoundError("Order record not found.");
-    }
+    // STEP 2: Find the Checkout (this tells us which provider to use)
+    const checkout = await findUserCheckout(userId, gatewayOrderId);
 
     // Check if already processed (idempotency check)
-    if (order.status === "COMPLETED") {
-        logger.info(`[PaymentService] Order ${order.id} already completed - idempotent response`);
-        return { success: true, message: "Payment already processed." };
+    if (checkout.status === "COMPLETED") {
+        logger.info(`[PaymentService] Checkout ${checkout.id} already completed - idempotent response`);
+        return { success: true, message: "Payment already processed.", checkoutSessionId: checkout.id, completedOrderIds: [] as number[] };
     }
 
-    // EDGE CASE: Order is FAILED - should not be verifiable
-    if (order.status === "FAILED") {
-        logger.warn(`[PaymentService] Attempted to verify FAILED order ${order.id}`);
-        throw new ValidationError("This order has failed. Please create a new order.");
+    // A FAILED checkout is still verified: a payment.failed webhook fails the session,
+    // but the student can retry in the same gateway modal and pay. A valid
+    // signature means the money was captured, and completeCheckout claims FAILED orders.
+    if (checkout.status === "FAILED") {
+        logger.info(`[PaymentService] Verifying previously FAILED checkout ${checkout.id} (retried payment)`);
     }
 
-    // STEP 3: Get the CORRECT Payment Gateway (from order's provider)
+    // STEP 3: Get the CORRECT Payment Gateway (from checkout's provider)
     // This ensures we use the same gateway that created the order
-    const paymentGateway = await getPaymentProviderByName(order.provider);
+    const paymentGateway = await getPaymentProviderByName(checkout.provider);
 
-    logger.info(`[PaymentService] Using ${order.provider} for verification`);
+    logger.info(`[PaymentService] Using ${checkout.provider} for verification`);
 
     // STEP 4: Verify Signature using provider-specific logic
     // Each provider's verifyPayment() knows how to extract its own fields
     const verifyResult = await paymentGateway.verifyPayment({
-        gatewayOrderId: paymentData.razorpay_order_id || paymentData.orderId || gatewayOrderId,
+        gatewayOrderId,
         gatewayPaymentId: paymentData.razorpay_payment_id || paymentData.transactionId || paymentData.paymentId,
         gatewaySignature: paymentData.razorpay_signature || paymentData.signature || paymentData.checksum
     });
@@ -231,90 +494,50 @@ export const verifyPaymentSignature = async (
     // STEP 5: Handle Invalid Signature
     if (!verifyResult.isValid) {
         logger.error('[PaymentService] Invalid payment signature:', {
-            orderId: order.id,
+            checkoutSessionId: checkout.id,
             userId,
             gatewayOrderId
         });
 
-        await prisma.order.update({
-            where: { id: order.id },
-            data: { status: "FAILED" }
-        });
+        await failCheckout(checkout.id);
 
         throw new ValidationError("Invalid payment signature. Payment verification failed.");
     }
 
-    logger.info(`[PaymentService] Payment signature verified successfully for order ${order.id}`);
+    logger.info(`[PaymentService] Payment signature verified successfully for checkout ${checkout.id}`);
 
 
     // STEP 6: Success - Complete Order & Enroll User
     try {
-        await prisma.$transaction(async (tx) => {
-            // A. Update Order Status
-            await tx.order.update({
-                where: { id: order.id },
-                data: { status: "COMPLETED" }
-            });
-
-            // B. Create Enrollment
-            const enrollment = await tx.enrollment.create({
-                data: {
-                    userId: order.userId,
-                    courseId: order.courseId
-                }
-            });
-
-            // C. Create Payment Record
-            await tx.payment.create({
-                data: {
-                    userId: order.userId,
-                    courseId: order.courseId,
-                    amount: order.amount,
-                    provider: order.provider,
-                    status: "SUCCESS",
-                    gatewayPaymentId: verifyResult.paymentId,
-                    gatewaySignature: verifyResult.signature,
-                    orderId: order.id,
-                    enrollmentId: enrollment.id
-                }
-            });
-
-            // D. Remove from Cart (if user had it in cart)
-            // After buying, no need to keep it in cart!
-            // First, get user's cart
-            const userCart = await tx.cart.findUnique({
-                where: { userId: order.userId }
-            });
-
-            // If cart exists, remove this course item
-            if (userCart) {
-                await tx.cartItem.deleteMany({
-                    where: {
-                        cartId: userCart.id,
-                        courseId: order.courseId
-                    }
-                });
-                logger.info(`[PaymentService] Removed course ${order.courseId} from cart for User:${userId}`);
-            }
-
-            // E. Consume coupon if used (record usage, increment count)
-            if (order.couponCode) {
-                await consumeCoupon(order.couponCode, order.userId, order.id);
-            }
+        const completedOrderIds = await completeCheckout(checkout, {
+            paymentId: verifyResult.paymentId,
+            signature: verifyResult.signature
         });
 
         logger.info(`[PaymentService] Payment verified and enrollment created for User:${userId}`);
-        return { success: true, message: "Payment verified & Course enrolled." };
+        return { success: true, message: "Payment verified & Course enrolled.", checkoutSessionId: checkout.id, completedOrderIds };
     } catch (error: any) {
-        // Handle race conditions (duplicate enrollment attempts)
-        if (error.code === "P2002") {
-            return { success: true, message: "Already enrolled." };
-        }
         logger.error(`[PaymentService] Transaction failed: ${error.message}`);
         throw new InternalError("Payment processing failed during enrollment.");
     }
 };
 
+/**
+ * Cancel a PENDING Order (user closed the payment modal)
+ * Cart orders share one gateway transaction, so the whole checkout is cancelled.
+ */
+export const cancelCheckout = async (order: Order) => {
+    if (order.checkoutSessionId) {
+        await failCheckout(order.checkoutSessionId);
+        return;
+    }
+
+    await prisma.order.updateMany({
+        where: { id: order.id, status: "PENDING" },
+        data: { status: "FAILED" }
+    });
+};
+
 /**
  * Step 3: Update Active Gateway (Admin)
  * 
@@ -348,18 +571,20 @@ export const getActiveGateway = async () => {
  * Cart Checkout - Buy multiple courses at once
  * 
  * Flow:
- * 1. Get cart items
+ * 1. Get cart items (refused while the cart has unaccepted changes)
  * 2. Validate all courses (published, not enrolled)
  * 3. Create separate Order for each course
  * 4. Create ONE gateway order with total amount
- * 5. Return payment data for frontend
+ * 5. Enroll the free courses (only now, so a failed checkout changes nothing)
+ * 6. Return payment data for frontend
  */
 export const initiateCartCheckout = async (
     userId: number,
-    userDetails: { name: string; email: string },
-    couponData?: { couponCode: string; discountAmount: number; finalAmount?: number }
+    userDetails: { name: string; email: string; phone: string | null },
+    couponCode?: string,
+    billing: BillingDetails = { stateCode: null, gstin: null }
 ) => {
-    logger.info(`[PaymentService] Starting Cart Checkout - User:${userId}${couponData ? `, Coupon:${couponData.couponCode}` : ""}`);
+    logger.info(`[PaymentService] Starting Cart Checkout - User:${userId}${couponCode ? `, Coupon:${couponCode}` : ""}`);
 
 
     // STEP 1: Get cart items
@@ -380,7 +605,13 @@ export const initiateCartCheckout = async (
         throw new ValidationError("Your cart is empty.");
     }
 
-    const courses = cart.items.map(item => item.course);
+    // The student must have seen every change since the courses were added
+    const warnings = await getCartWarnings(userId, cart.items);
+    if (warnings.size > 0) {
+        throw new ValidationError("Your cart has changed since you added these courses. Please review and accept the changes before checkout.");
+    }
+
+    let courses = cart.items.map(item => item.course);
 
     // STEP 2: Validate all courses
     const courseIds = courses.map(c => c.id);
@@ -391,21 +622,11 @@ export const initiateCartCheckout = async (
         throw new ValidationError(`Some courses are no longer available: ${unpublished.map(c => c.title).join(", ")}`);
     }
 
-    // Check for free courses (payment gateway can't process 0)
-    const freeCourses = courses.filter(c => c.price === 0);
-    if (freeCourses.length > 0) {
-        throw new ValidationError(`Please remove free courses and enroll directly: ${freeCourses.map(c => c.title).join(", ")}`);
-    }
-
-    // Check for existing enrollments
-    const existingEnrollments = await prisma.enrollment.findMany({
-        where: { userId, courseId: { in: courseIds } },
-        select: { courseId: true }
-    });
+    // Check for existing enrollments (time-limited ones are renewed)
+    const { ownedCourseIds, renewalCourseIds } = await getExistingAccess(userId, courseIds);
 
-    if (existingEnrollments.length > 0) {
-        const enrolledIds = existingEnrollments.map(e => e.courseId);
-        const enrolledTitles = courses.filter(c => enrolledIds.includes(c.id)).map(c => c.title);
+    if (ownedCourseIds.length > 0) {
+        const enrolledTitles = courses.filter(c => ownedCourseIds.includes(c.id)).map(c => c.title);
         throw new ValidationError(`Already enrolled in: ${enrolledTitles.join(", ")}. Please remove from cart.`);
     }
 
@@ -428,203 +649,1000 @@ export const initiateCartCheckout = async (
         throw new ValidationError(`Payment started ${secondsAgo}s ago. Wait 1 min to retry.`);
     }
 
-    // STEP 4: Calculate total
-    const totalAmount = courses.reduce((sum, c) => sum + c.price, 0);
+    // STEP 4: Split off free courses (payment gateway can't process 0)
+    // They are enrolled directly, but only once the paid part exists - a checkout
+    // that fails below leaves the whole cart as it was
+    const freeCourses = courses.filter(c => c.price === 0);
+    courses = courses.filter(c => c.price > 0);
+
+    // Only free courses in cart - nothing to pay
+    if (courses.length === 0) {
+        await enrollFreeCourses(userId, freeCourses, renewalCourseIds);
+        logger.info(`[PaymentService] Enrolled User:${userId} in ${freeCourses.length} free cart course(s)`);
+
+        return {
+            success: true,
+            data: {
+                paymentRequired: false,
+                freeEnrolledCourseIds: freeCourses.map(c => c.id),
+                courseCount: 0
+            }
+        };
+    }
+
+    // STEP 5: Price every course in the student's currency + calculate total
+    const currency = await getCheckoutCurrency(userId);
+    const quote = await quoteCoursePrices(courses, currency);
+    const priced = courses.map(c => ({ ...c, ...quote.prices.get(c.id)! })); // Non-null: every course is quoted
+
+    const totalAmount = sumMinorUnits(priced.map(c => c.price));
     const courseTitles = courses.map(c => c.title).join(", ");
 
-    // STEP 5: Get active payment gateway
+    // STEP 5A: Re-validate the coupon (never trust the discount sent by the frontend)
+    let coupon: { code: string; discountAmount: number; eligibleCourseIds: number[] } | null = null;
+    if (couponCode) {
+        const validation = await validateCoupon(
+            couponCode,
+            userId,
+            priced.map(c => ({ courseId: c.id, amount: c.price })),
+            quote.exchangeRate
+        );
+        if (!validation.valid || !validation.couponCode) {
+            throw new ValidationError(validation.message || "Invalid coupon code");
+        }
+        coupon = {
+            code: validation.couponCode,
+            discountAmount: validation.discountAmount || 0,
+            eligibleCourseIds: validation.eligibleCourseIds || courses.map(c => c.id)
+        };
+    }
+
+    // Split the discount across the courses it applies to, in proportion to price
+    const lineDiscounts = allocateProportionally(
+        priced.map(c => (!coupon || coupon.eligibleCourseIds.includes(c.id) ? c.price : 0)),
+        coupon?.discountAmount || 0
+    );
+
+    // STEP 6: Get active payment gateway
     const paymentGateway = await getPaymentProvider();
     const providerName = paymentGateway.getProviderName();
 
-    logger.info(`[PaymentService] Cart checkout using: ${providerName}, Total: ₹${totalAmount}`);
+    logger.info(`[PaymentService] Cart checkout using: ${providerName}, Total: ${formatMoney(totalAmount, currency)}`);
 
-    // STEP 6: Create orders for each course (PENDING)
-    // First order gets coupon data (cart-level discount applied to first order)
-    const orders = await prisma.$transaction(
-        courses.map((course, index) =>
-            prisma.order.create({
-                data: {
-                    userId,
-                    courseId: course.id,
-                    amount: course.price,
-                    currency: "INR",
-                    status: "PENDING",
-                    provider: providerName,
-                    originalPrice: course.originalPrice || course.price,
-                    // Coupon applied to first order only
-                    ...(index === 0 && couponData ? {
-                        couponCode: couponData.couponCode,
-                        discountAmount: couponData.discountAmount
-                    } : {})
-                }
-            })
-        )
-    );
+    // STEP 7: Create orders for each course (PENDING)
+    // Each order holds its own share of the discount and the NET amount charged
+    const paymentAmount = totalAmount - (coupon?.discountAmount || 0);
 
-    // Calculate actual payment amount (with coupon discount if applied)
-    const paymentAmount = couponData?.finalAmount ?? totalAmount;
+    // All orders belong to ONE checkout session (one gateway transaction)
+    const checkout = await prisma.checkoutSession.create({
+        data: {
+            userId,
+            provider: providerName,
+            amount: paymentAmount,
+            currency,
+            couponCode: coupon?.code ?? null,
+            discountAmount: coupon?.discountAmount ?? null,
+            billingStateCode: billing.stateCode,
+            buyerGstin: billing.gstin,
+            orders: {
+                create: priced.map((course, index) => {
+                    const lineDiscount = lineDiscounts[index]!; // Non-null: one share per course
+                    return {
+                        userId,
+                        courseId: course.id,
+                        isRenewal: renewalCourseIds.includes(course.id),
+                        amount: course.price - lineDiscount,
+                        currency,
+                        exchangeRate: quote.exchangeRate,
+                        status: "PENDING" as const,
+                        provider: providerName,
+                        originalPrice: course.originalPrice || course.price,
+                        ...(coupon && lineDiscount > 0 ? {
+                            couponCode: coupon.code,
+                            discountAmount: lineDiscount
+                        } : {})
+                    };
+                })
+            }
+        },
+        include: { orders: { orderBy: { id: "asc" } } }
+    });
+    const orders = checkout.orders;
 
-    // STEP 7: Create ONE gateway order with total amount
+    // STEP 8: Create ONE gateway order with total amount
     // Use first order ID as reference
+    let gatewayResult: CreateOrderResult;
     try {
-        const gatewayResult = await paymentGateway.createOrder({
-            amount: paymentAmount, // Use discounted amount
-            currency: "INR",
+        gatewayResult = await paymentGateway.createOrder({
+            amount: toMajorUnits(paymentAmount), // Discounted amount, in major units for the provider
+            currency,
             orderId: orders[0]!.id,  // Non-null: orders always has items (validated above)
             courseId: courses[0]!.id, // Non-null: courses always has items (validated above)
             courseTitle: `Cart: ${courses.length} courses`,
             userEmail: userDetails.email,
-            userName: userDetails.name
+            userName: userDetails.name,
+            userPhone: userDetails.phone
         });
 
-        // Update FIRST order with gateway order ID (unique constraint)
-        await prisma.order.update({
-            where: { id: orders[0]!.id }, // Non-null: orders always has items
+        // Link the gateway order to the whole checkout session
+        await prisma.checkoutSession.update({
+            where: { id: checkout.id },
             data: { gatewayOrderId: gatewayResult.gatewayOrderId }
         });
-
-        return {
-            success: true,
-            data: {
-                gatewayOrderId: gatewayResult.gatewayOrderId,
-                amount: gatewayResult.amount,
-                currency: gatewayResult.currency,
-                key: gatewayResult.gatewayKeyId,
-                provider: providerName,
-                internalOrderIds: orders.map(o => o.id), // All order IDs for verification
-                courseCount: courses.length,
-                courseTitles: courseTitles,
-                userEmail: userDetails.email,
-                userName: userDetails.name
-            }
-        };
     } catch (error: any) {
         // If gateway fails, mark all orders as FAILED
-        await prisma.order.updateMany({
-            where: { id: { in: orders.map(o => o.id) } },
-            data: { status: "FAILED" }
-        });
+        await failCheckout(checkout.id);
         throw error;
     }
+
+    // STEP 9: The paid part exists - now enroll the free courses
+    // A problem here must not fail the paid checkout; the courses simply stay in the cart
+    let freeEnrolledCourseIds: number[] = [];
+    if (freeCourses.length > 0) {
+        try {
+            await enrollFreeCourses(userId, freeCourses, renewalCourseIds);
+            freeEnrolledCourseIds = freeCourses.map(c => c.id);
+            logger.info(`[PaymentService] Enrolled User:${userId} in ${freeCourses.length} free cart course(s)`);
+        } catch (error: any) {
+            logger.warn(`[PaymentService] Free cart courses of User:${userId} not enrolled: ${error.message}`);
+        }
+    }
+
+    return {
+        success: true,
+        data: {
+            gatewayOrderId: gatewayResult.gatewayOrderId,
+            amount: gatewayResult.amount,
+            currency: gatewayResult.currency,
+            key: gatewayResult.gatewayKeyId,
+            paymentSessionId: gatewayResult.paymentSessionId, // Cashfree checkout needs this
+            redirectUrl: gatewayResult.redirectUrl, // PhonePe pay page
+            paymentRequired: true,
+            freeEnrolledCourseIds, // Free cart courses enrolled alongside
+            provider: providerName,
+            checkoutSessionId: checkout.id,
+            internalOrderIds: orders.map(o => o.id),
+            courseCount: courses.length,
+            courseTitles: courseTitles,
+            userEmail: userDetails.email,
+            userName: userDetails.name
+        }
+    };
 };
 
 /**
- * Verify Cart Payment - Complete all orders from checkout
+ * Bundle Buy Now - Buy every course of a bundle at the bundle's price
+ *
+ * Flow:
+ * 1. Validate bundle and its courses (published, not enrolled)
+ * 2. Price the bundle in the student's currency
+ * 3. Split the bundle price across one Order per course, in proportion
+ *    to each course's own price (so refunds and invoices work per course)
+ * 4. Create ONE gateway order for the bundle price
+ * 5. Return payment data for frontend (verified like a buy-now order)
  */
-export const verifyCartPayment = async (
+export const initiateBundleOrder = async (
     userId: number,
-    paymentData: Record<string, any>
+    bundleId: number,
+    userDetails: { name: string; email: string; phone: string | null },
+    billing: BillingDetails = { stateCode: null, gstin: null }
 ) => {
-    logger.info(`[PaymentService] Verifying cart payment - User:${userId}`);
+    logger.info(`[PaymentService] Starting Bundle BuyNow - User:${userId} Bundle:${bundleId}`);
 
-    // Extract gateway order ID and order IDs from frontend
-    const gatewayOrderId =
-        paymentData.razorpay_order_id ||
-        paymentData.transactionId ||
-        paymentData.orderId ||
-        paymentData.order_id;
+    // STEP 1: Validate Bundle
+    const bundle = await prisma.bundle.findUnique({
+        where: { id: bundleId },
+        include: {
+            courses: {
+                select: { id: true, title: true, price: true, originalPrice: true, status: true },
+                orderBy: { id: "asc" }
+            }
+        }
+    });
 
-    const orderIds: number[] = paymentData.orderIds || [];
+    if (!bundle) {
+        throw new NotFoundError("Bundle not found.");
+    }
 
-    if (!gatewayOrderId) {
-        throw new ValidationError("Order ID not found in payment data");
+    if (bundle.status !== "PUBLISHED" || bundle.courses.length === 0 || bundle.courses.some(c => c.status !== "PUBLISHED")) {
+        throw new ValidationError("This bundle is not available for purchase.");
     }
 
-    // Find orders - first by gatewayOrderId, then by orderIds
-    let orders = await prisma.order.findMany({
-        where: { gatewayOrderId },
-        include: { course: true }
+    const courseIds = bundle.courses.map(c => c.id);
+
+    // STEP 2: Check Existing Enrollments (time-limited ones are renewed)
+    const { ownedCourseIds, renewalCourseIds } = await getExistingAccess(userId, courseIds);
+
+    if (ownedCourseIds.length > 0) {
+        const enrolledTitles = bundle.courses.filter(c => ownedCourseIds.includes(c.id)).map(c => c.title);
+        throw new ValidationError(`You already own some courses in this bundle: ${enrolledTitles.join(", ")}.`);
+    }
+
+    // STEP 3: Check for recent pending orders (any course of the bundle)
+    const TIMEOUT_MINUTES = 1;
+    const cutoffTime = new Date(Date.now() - TIMEOUT_MINUTES * 60 * 1000);
+
+    const pendingOrder = await prisma.order.findFirst({
+        where: {
+            userId,
+            courseId: { in: courseIds },
+            status: "PENDING",
+            createdAt: { gt: cutoffTime }
+        }
     });
 
-    // If only one order found (the first one with gatewayOrderId), find the rest by IDs
-    if (orders.length === 1 && orderIds.length > 1) {
-        orders = await prisma.order.findMany({
-            where: {
-                id: { in: orderIds },
-                userId: userId,
-                status: "PENDING"
-            },
-            include: { course: true }
-        });
+    if (pendingOrder) {
+        const secondsAgo = Math.floor((Date.now() - pendingOrder.createdAt.getTime()) / 1000);
+        throw new ValidationError(`Payment started ${secondsAgo}s ago. Wait 1 min to retry.`);
     }
 
-    if (orders.length === 0) {
-        throw new NotFoundError("Orders not found.");
+    // STEP 4: Price the bundle in the student's currency
+    const currency = await getCheckoutCurrency(userId);
+    const quote = await quoteBundlePrice(bundle, currency);
+    const priced = bundle.courses.map(c => ({ ...c, ...quote.prices.get(c.id)! })); // Non-null: every course is quoted
+    const coursesTotal = sumMinorUnits(priced.map(c => c.price));
+
+    // Course prices changed since the bundle was set up - selling it now would overcharge
+    if (quote.bundlePrice <= 0 || quote.bundlePrice > coursesTotal) {
+        logger.warn(`[PaymentService] Bundle:${bundle.id} costs more than its courses in ${currency}`);
+        throw new ValidationError("This bundle is not available for purchase right now.");
     }
 
+    // Each course's order gets its share of the bundle price
+    const lineAmounts = allocateProportionally(priced.map(c => c.price), quote.bundlePrice);
+
+    // STEP 5: Get Active Payment Gateway
+    const paymentGateway = await getPaymentProvider();
+    const providerName = paymentGateway.getProviderName();
+
+    logger.info(`[PaymentService] Bundle checkout using: ${providerName}, ${formatMoney(quote.bundlePrice, currency)}`);
+
+    // STEP 6: Create Checkout Session + one Order per course (PENDING)
+    const checkout = await prisma.checkoutSession.create({
+        data: {
+            userId,
+            provider: providerName,
+            amount: quote.bundlePrice,
+            currency,
+            billingStateCode: billing.stateCode,
+            buyerGstin: billing.gstin,
+            orders: {
+                create: priced.map((course, index) => ({
+                    userId,
+                    courseId: course.id,
+                    bundleId: bundle.id,
+                    isRenewal: renewalCourseIds.includes(course.id),
+                    amount: lineAmounts[index]!, // Non-null: one share per course
+                    currency,
+                    exchangeRate: quote.exchangeRate,
+                    status: "PENDING" as const,
+                    provider: providerName,
+                    originalPrice: course.originalPrice || course.price
+                }))
+            }
+        },
+        include: { orders: { orderBy: { id: "asc" } } }
+    });
+    const orders = checkout.orders;
+
+    // STEP 7: Create ONE gateway order for the bundle price
+    try {
+        const gatewayResult = await paymentGateway.createOrder({
+            amount: toMajorUnits(quote.bundlePrice), // Providers take major units
+            currency,
+            orderId: orders[0]!.id, // Non-null: bundle has courses (validated above)
+            courseId: priced[0]!.id, // Non-null: bundle has courses (validated above)
+            courseTitle: `Bundle: ${bundle.title}`,
+            userEmail: userDetails.email,
+            userName: userDetails.name,
+            userPhone: userDetails.phone
+        });
+
+        await prisma.checkoutSession.update({
+            where: { id: checkout.id },
+            data: { gatewayOrderId: gatewayResult.gatewayOrderId }
+        });
+
+        return {
+            success: true,
+            data: {
+                gatewayOrderId: gatewayResult.gatewayOrderId,
+                amount: gatewayResult.amount,
+                currency: gatewayResult.currency,
+                key: gatewayResult.gatewayKeyId,
+                paymentSessionId: gatewayResult.paymentSessionId, // Cashfree checkout needs this
+                redirectUrl: gatewayResult.redirectUrl, // PhonePe pay page
+                provider: providerName,
+                checkoutSessionId: checkout.id,
+                internalOrderIds: orders.map(o => o.id),
+                bundleId: bundle.id,
+                bundleTitle: bundle.title,
+                courseCount: priced.length,
+                userEmail: userDetails.email,
+                userName: userDetails.name
+            }
+        };
+    } catch (error: any) {
+        logger.error(`[PaymentService] Gateway order creation failed for Bundle:${bundle.id}: ${error.message}`);
+        await failCheckout(checkout.id);
+        throw error;
+    }
+};
+
+/**
+ * Verify Cart Payment - Complete all orders from checkout
+ *
+ * Every order of the checkout session is completed. The client only sends
+ * the gateway's payment data; which orders it pays for comes from the session.
+ */
+export const verifyCartPayment = async (
+    userId: number,
+    paymentData: Record<string, any>
+) => {
+    logger.info(`[PaymentService] Verifying cart payment - User:${userId}`);
+
+    const gatewayOrderId = extractGatewayOrderId(paymentData);
+    const checkout = await findUserCheckout(userId, gatewayOrderId);
+
     // Check if already processed
-    if (orders.every(o => o.status === "COMPLETED")) {
-        return { success: true, message: "Payment already processed." };
+    if (checkout.status === "COMPLETED") {
+        return { success: true, message: "Payment already processed.", checkoutSessionId: checkout.id };
+    }
+
+    // A FAILED checkout can still have been paid by a retry (see verifyPaymentSignature)
+    if (checkout.status === "FAILED") {
+        logger.info(`[PaymentService] Verifying previously FAILED checkout ${checkout.id} (retried payment)`);
     }
 
     // Get payment gateway for verification
-    const paymentGateway = await getPaymentProviderByName(orders[0]!.provider); // Non-null: orders length checked above
+    const paymentGateway = await getPaymentProviderByName(checkout.provider);
 
     // Verify signature
     const verifyResult = await paymentGateway.verifyPayment({
-        gatewayOrderId: paymentData.razorpay_order_id || paymentData.orderId || gatewayOrderId,
+        gatewayOrderId,
         gatewayPaymentId: paymentData.razorpay_payment_id || paymentData.transactionId,
         gatewaySignature: paymentData.razorpay_signature || paymentData.signature
     });
 
     if (!verifyResult.isValid) {
-        await prisma.order.updateMany({
-            where: { id: { in: orders.map(o => o.id) } },
-            data: { status: "FAILED" }
-        });
+        await failCheckout(checkout.id);
         throw new ValidationError("Invalid payment signature.");
     }
 
     // Complete all orders + enrollments in transaction
     try {
-        await prisma.$transaction(async (tx) => {
-            for (const order of orders) {
-                // Update order status
-                await tx.order.update({
-                    where: { id: order.id },
-                    data: { status: "COMPLETED" }
-                });
+        await completeCheckout(checkout, {
+            paymentId: verifyResult.paymentId,
+            signature: verifyResult.signature
+        });
 
-                // Create enrollment
-                const enrollment = await tx.enrollment.create({
-                    data: { userId: order.userId, courseId: order.courseId }
-                });
+        logger.info(`[PaymentService] Cart checkout complete - ${checkout.orders.length} courses enrolled`);
+        return {
+            success: true,
+            message: `Enrolled in ${checkout.orders.length} courses!`,
+            checkoutSessionId: checkout.id
+        };
+    } catch (error: any) {
+        logger.error(`[PaymentService] Cart transaction failed: ${error.message}`);
+        throw new InternalError("Payment processing failed.");
+    }
+};
 
-                // Create payment record
-                await tx.payment.create({
-                    data: {
-                        userId: order.userId,
-                        courseId: order.courseId,
-                        amount: order.amount,
-                        provider: order.provider,
-                        status: "SUCCESS",
-                        gatewayPaymentId: verifyResult.paymentId,
-                        gatewaySignature: verifyResult.signature,
-                        orderId: order.id,
-                        enrollmentId: enrollment.id
-                    }
-                });
-            }
+/**
+ * Process Gateway Webhook (Server-to-Server)
+ *
+ * The browser may never call /verify (student closed the tab after paying),
+ * so every gateway also notifies us directly. This is the source of truth.
+ *
+ * What happens:
+ * 1. Provider verifies the webhook signature and normalizes the payload
+ * 2. Find the checkout session by gatewayOrderId
+ * 3. PAYMENT_SUCCESS -> complete all its orders + enroll (idempotent)
+ * 4. PAYMENT_FAILED  -> mark still-pending orders as FAILED
+ *
+ * A captured payment completes even a FAILED order (e.g. user closed the
+ * modal, then the payment went through anyway) - the money was taken.
+ */
+export const processPaymentWebhook = async (
+    providerName: PaymentProvider,
+    params: WebhookParams
+) => {
+    logger.info(`[PaymentService] Webhook received from ${providerName}`);
 
-            // Clear cart after successful checkout
-            const userCart = await tx.cart.findUnique({ where: { userId } });
-            if (userCart) {
-                await tx.cartItem.deleteMany({ where: { cartId: userCart.id } });
+    // STEP 1: Verify + parse using the provider's own format
+    const paymentGateway = await getPaymentProviderByName(providerName);
+    const event = await paymentGateway.parseWebhook(params);
+
+    if (!event.isValid) {
+        throw new ValidationError("Invalid webhook signature.");
+    }
+
+    // Membership renewals have no checkout behind them
+    if (event.subscription) {
+        const result = await applySubscriptionWebhook(event);
+        return { ...result, completedOrderIds: [] as number[] };
+    }
+
+    if (event.type === "IGNORED" || !event.gatewayOrderId) {
+        logger.info(`[PaymentService] Ignoring ${providerName} webhook event: ${event.rawEvent}`);
+        return { success: true, message: "Event ignored.", completedOrderIds: [] as number[] };
+    }
+
+    // STEP 2: Find the checkout created for this gateway order
+    const checkout = await prisma.checkoutSession.findFirst({
+        where: { gatewayOrderId: event.gatewayOrderId, provider: providerName },
+        include: { orders: true }
+    });
+
+    if (!checkout) {
+        // Not ours (or another environment's) - acknowledge so the gateway stops retrying
+        logger.warn(`[PaymentService] Webhook for unknown gateway order: ${event.gatewayOrderId}`);
+        return { success: true, message: "Order not found.", completedOrderIds: [] as number[] };
+    }
+
+    // STEP 3: Payment failed - release pending orders
+    if (event.type === "PAYMENT_FAILED") {
+        await failCheckout(checkout.id);
+
+        logger.info(`[PaymentService] Webhook marked checkout ${checkout.id} as FAILED`);
+        return { success: true, message: "Payment failure recorded.", completedOrderIds: [] as number[] };
+    }
+
+    // STEP 4: Payment succeeded - the REAL payment ID is needed for refunds later,
+    // so ask the gateway when the webhook payload did not carry it
+    let gatewayPaymentId = event.gatewayPaymentId;
+    if (!gatewayPaymentId) {
+        const status = await paymentGateway.getPaymentStatus(event.gatewayOrderId);
+        gatewayPaymentId = status.status === "PAID" ? status.gatewayPaymentId : null;
+    }
+
+    if (!gatewayPaymentId) {
+        // Reconciliation completes it once the gateway reports the captured payment
+        logger.warn(`[PaymentService] Webhook for ${event.gatewayOrderId} has no payment ID yet - left for reconciliation`);
+        return { success: true, message: "Payment not confirmed yet.", completedOrderIds: [] as number[] };
+    }
+
+    // STEP 5: Complete orders (skips already completed ones)
+    try {
+        const completedOrderIds = await completeCheckout(checkout, {
+            paymentId: gatewayPaymentId,
+            signature: null
+        });
+
+        logger.info(`[PaymentService] Webhook completed ${completedOrderIds.length} order(s) for ${event.gatewayOrderId}`);
+        return {
+            success: true,
+            message: completedOrderIds.length > 0 ? "Payment processed." : "Payment already processed.",
+            completedOrderIds
+        };
+    } catch (error: any) {
+        logger.error(`[PaymentService] Webhook transaction failed: ${error.message}`);
+        throw new InternalError("Payment processing failed during enrollment.");
+    }
+};
+
+/**
+ * Money actually charged for one order (already net of its coupon share) and
+ * how much of it can still be refunded.
+ */
+const getRefundableAmount = (order: Order) => {
+    const paidAmount = order.amount;
+    const refundable = paidAmount - order.refundedAmount;
+    return { paidAmount, refundable };
+};
+
+/**
+ * Reserve refund amounts BEFORE calling the gateway
+ * Each order's refundedAmount only moves if nobody refunded it since we read it,
+ * so two admins refunding at once cannot both pass the remaining-amount check.
+ */
+const reserveRefunds = async (shares: { order: Order; amount: number }[]) => {
+    await prisma.$transaction(async (tx) => {
+        for (const { order, amount } of shares) {
+            const reserved = await tx.order.updateMany({
+                where: { id: order.id, status: "COMPLETED", refundedAmount: order.refundedAmount },
+                data: { refundedAmount: { increment: amount } }
+            });
+
+            if (reserved.count === 0) {
+                throw new ValidationError(`Order ${order.id} was refunded by someone else meanwhile. Please reload and try again.`);
             }
+        }
+    });
+};
+
+/**
+ * Undo reserveRefunds when the gateway refused the refund
+ */
+const releaseRefundReservations = async (shares: { order: Order; amount: number }[]) => {
+    await prisma.$transaction(shares.map(({ order, amount }) =>
+        prisma.order.update({
+            where: { id: order.id },
+            data: { refundedAmount: { decrement: amount } }
+        })
+    ));
+};
 
-            // Consume coupon if used on first order (cart-level coupon applied to first order)
-            const firstOrder = orders[0];
-            if (firstOrder?.couponCode) {
-                await consumeCoupon(firstOrder.couponCode, firstOrder.userId, firstOrder.id);
+/**
+ * Give the coupon back once every discounted order of the checkout is fully refunded
+ */
+const releaseCouponIfFullyRefunded = async (checkoutSessionId: number) => {
+    const stillPaid = await prisma.order.count({
+        where: { checkoutSessionId, couponCode: { not: null }, status: { not: "REFUNDED" } }
+    });
+
+    if (stillPaid === 0) {
+        await releaseCoupon(checkoutSessionId);
+    }
+};
+
+/**
+ * Record one order's share of a gateway refund + update its statuses + credit note.
+ * The amount was already added to refundedAmount by reserveRefunds.
+ * Must run inside the caller's transaction.
+ */
+const recordOrderRefund = async (
+    tx: Prisma.TransactionClient,
+    order: Order,
+    refund: {
+        amount: number;
+        isFullRefund: boolean;
+        reason: string | null;
+        revokeAccess: boolean;
+        adminId: number;
+        gatewayRefundId: string;
+        status: "PENDING" | "PROCESSED";
+    }
+) => {
+    const record = await tx.refund.create({
+        data: {
+            orderId: order.id,
+            amount: refund.amount,
+            reason: refund.reason,
+            status: refund.status,
+            gatewayRefundId: refund.gatewayRefundId,
+            accessRevoked: refund.revokeAccess,
+            refundedById: refund.adminId
+        }
+    });
+
+    await tx.order.update({
+        where: { id: order.id },
+        data: { status: refund.isFullRefund ? "REFUNDED" : "COMPLETED" }
+    });
+
+    await tx.payment.update({
+        where: { orderId: order.id },
+        data: { status: refund.isFullRefund ? "REFUNDED" : "PARTIALLY_REFUNDED" }
+    });
+
+    // A gift's access belongs to its recipient, not the purchaser
+    if (order.isGift) {
+        if (refund.isFullRefund || refund.revokeAccess) {
+            await revokeGift(tx, order.id, refund.revokeAccess);
+        }
+    } else if (refund.revokeAccess && order.isRenewal) {
+        // A renewal only bought extra time - keep the original enrollment
+        await revokeRenewal(tx, order.userId, order.courseId);
+    } else if (refund.revokeAccess) {
+        // Revoke access (Payment.enrollmentId is nulled by the FK)
+        await tx.enrollment.deleteMany({
+            where: { userId: order.userId, courseId: order.courseId }
+        });
+        await tx.certificate.deleteMany({
+            where: { userId: order.userId, courseId: order.courseId }
+        });
+    }
+
+    // GST credit note against the order's invoice
+    await issueCreditNote(tx, record);
+
+    return record;
+};
+
+/**
+ * Refund an Order (Admin)
+ *
+ * What happens:
+ * 1. Validate order is COMPLETED and has a captured payment
+ * 2. Work out how much is still refundable (paid - already refunded)
+ * 3. Reserve the amount on the order, then ask the SAME provider that took
+ *    the payment to refund it (the reservation is undone if the gateway refuses)
+ * 4. Record the refund, update Order/Payment status
+ * 5. Optionally revoke enrollment + certificate (a renewal only loses the time it added)
+ * 6. On full refund, give the coupon back to the student
+ *
+ * Amounts are in minor units of the order's currency.
+ * Partial refunds keep the order COMPLETED; once everything paid has been
+ * refunded the order becomes REFUNDED. For a cart order this is a partial
+ * refund of the checkout's gateway transaction.
+ */
+export const refundOrder = async (
+    orderId: number,
+    adminId: number,
+    options: { amount?: number | undefined; reason?: string | undefined; revokeAccess: boolean }
+) => {
+    logger.info(`[PaymentService] Admin:${adminId} refunding Order:${orderId}`);
+
+    // STEP 1: Validate Order
+    const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { payment: true, checkoutSession: true }
+    });
+
+    if (!order) {
+        throw new NotFoundError("Order not found.");
+    }
+
+    if (order.status === "REFUNDED") {
+        throw new ValidationError("This order has already been fully refunded.");
+    }
+
+    if (order.status !== "COMPLETED") {
+        throw new ValidationError("Only completed orders can be refunded.");
+    }
+
+    if (!order.payment || !order.payment.gatewayPaymentId || !order.checkoutSession?.gatewayOrderId) {
+        throw new ValidationError("No captured payment found for this order.");
+    }
+
+    // STEP 2: Calculate refundable amount
+    const { paidAmount, refundable } = getRefundableAmount(order);
+
+    if (refundable <= 0) {
+        throw new ValidationError("Nothing left to refund on this order.");
+    }
+
+    const refundAmount = options.amount ?? refundable;
+
+    if (refundAmount <= 0) {
+        throw new ValidationError("Refund amount must be greater than zero.");
+    }
+
+    if (refundAmount > refundable) {
+        throw new ValidationError(`Refund amount cannot exceed ${formatMoney(refundable, order.currency)}.`);
+    }
+
+    const isFullRefund = order.refundedAmount + refundAmount >= paidAmount;
+
+    // STEP 3: Reserve the amount, then refund through the provider that created the order
+    const shares = [{ order, amount: refundAmount }];
+    await reserveRefunds(shares);
+
+    const paymentGateway = await getPaymentProviderByName(order.provider);
+
+    let gatewayResult: RefundPaymentResult;
+    try {
+        gatewayResult = await paymentGateway.refundPayment({
+            gatewayPaymentId: order.payment.gatewayPaymentId,
+            gatewayOrderId: order.checkoutSession.gatewayOrderId,
+            amount: toMajorUnits(refundAmount),
+            orderId: order.id,
+            reason: options.reason || null
+        });
+    } catch (error) {
+        await releaseRefundReservations(shares);
+        throw error;
+    }
+
+    // STEP 4 + 5: Record refund, update statuses, revoke access
+    try {
+        const refund = await prisma.$transaction((tx) =>
+            recordOrderRefund(tx, order, {
+                amount: refundAmount,
+                isFullRefund,
+                reason: options.reason || null,
+                revokeAccess: options.revokeAccess,
+                adminId,
+                gatewayRefundId: gatewayResult.gatewayRefundId,
+                status: gatewayResult.status
+            })
+        );
+
+        // STEP 6: Give the coupon back once the whole discounted checkout is refunded
+        if (isFullRefund && order.couponCode && order.checkoutSessionId) {
+            await releaseCouponIfFullyRefunded(order.checkoutSessionId);
+        }
+
+        logger.info(`[PaymentService] Refund ${refund.id} recorded for Order:${order.id} (${isFullRefund ? "full" : "partial"})`);
+
+        return {
+            refund,
+            isFullRefund,
+            totalRefunded: order.refundedAmount + refundAmount
+        };
+    } catch (error: any) {
+        // Money already went back through the gateway - make this easy to reconcile by hand
+        logger.error(`[PaymentService] Refund ${gatewayResult.gatewayRefundId} issued but DB update failed for Order:${order.id}: ${error.message}`);
+        throw new InternalError("Refund was issued but could not be recorded.");
+    }
+};
+
+/**
+ * Refund a whole Checkout (Admin)
+ *
+ * Refunds everything still refundable on every order of one gateway
+ * transaction with a SINGLE gateway refund, then records each order's share.
+ */
+export const refundCheckout = async (
+    checkoutSessionId: number,
+    adminId: number,
+    options: { reason?: string | undefined; revokeAccess: boolean }
+) => {
+    logger.info(`[PaymentService] Admin:${adminId} refunding Checkout:${checkoutSessionId}`);
+
+    // STEP 1: Validate Checkout
+    const checkout = await prisma.checkoutSession.findUnique({
+        where: { id: checkoutSessionId },
+        include: { orders: { include: { payment: true } } }
+    });
+
+    if (!checkout) {
+        throw new NotFoundError("Checkout not found.");
+    }
+
+    if (checkout.status !== "COMPLETED" || !checkout.gatewayOrderId) {
+        throw new ValidationError("Only completed checkouts can be refunded.");
+    }
+
+    // STEP 2: Work out each order's share
+    const refundableOrders = checkout.orders
+        .filter(o => o.status === "COMPLETED" && o.payment?.gatewayPaymentId)
+        .map(o => ({ order: o, amount: getRefundableAmount(o).refundable }))
+        .filter(o => o.amount > 0);
+
+    if (refundableOrders.length === 0) {
+        throw new ValidationError("Nothing left to refund on this checkout.");
+    }
+
+    const totalAmount = sumMinorUnits(refundableOrders.map(o => o.amount));
+    const firstOrder = refundableOrders[0]!.order; // Non-null: length checked above
+
+    // STEP 3: Reserve every share, then ONE refund through the provider that took the payment
+    await reserveRefunds(refundableOrders);
+
+    const paymentGateway = await getPaymentProviderByName(checkout.provider);
+
+    let gatewayResult: RefundPaymentResult;
+    try {
+        gatewayResult = await paymentGateway.refundPayment({
+            gatewayPaymentId: firstOrder.payment!.gatewayPaymentId!, // Non-null: filtered above
+            gatewayOrderId: checkout.gatewayOrderId,
+            amount: toMajorUnits(totalAmount),
+            orderId: firstOrder.id,
+            reason: options.reason || null
+        });
+    } catch (error) {
+        await releaseRefundReservations(refundableOrders);
+        throw error;
+    }
+
+    // STEP 4: Record every order's share
+    try {
+        const refunds = await prisma.$transaction(async (tx) => {
+            const refunds = [];
+            for (const { order, amount } of refundableOrders) {
+                refunds.push(await recordOrderRefund(tx, order, {
+                    amount,
+                    isFullRefund: true,
+                    reason: options.reason || null,
+                    revokeAccess: options.revokeAccess,
+                    adminId,
+                    gatewayRefundId: gatewayResult.gatewayRefundId,
+                    status: gatewayResult.status
+                }));
             }
+            return refunds;
         });
 
-        logger.info(`[PaymentService] Cart checkout complete - ${orders.length} courses enrolled`);
-        return { success: true, message: `Enrolled in ${orders.length} courses!` };
+        // STEP 5: Give the coupon back
+        if (checkout.couponCode) {
+            await releaseCouponIfFullyRefunded(checkout.id);
+        }
+
+        logger.info(`[PaymentService] Refund ${gatewayResult.gatewayRefundId} recorded for Checkout:${checkout.id} (${refunds.length} orders)`);
+
+        return { refunds, totalRefunded: totalAmount };
     } catch (error: any) {
-        if (error.code === "P2002") {
-            return { success: true, message: "Already enrolled." };
+        logger.error(`[PaymentService] Refund ${gatewayResult.gatewayRefundId} issued but DB update failed for Checkout:${checkout.id}: ${error.message}`);
+        throw new InternalError("Refund was issued but could not be recorded.");
+    }
+};
+
+/**
+ * Reconcile Stale PENDING Orders (Scheduled Job)
+ *
+ * PENDING orders are left behind whenever the browser never verified and no
+ * webhook arrived (tab closed, webhook misconfigured, gateway outage...).
+ *
+ * What happens:
+ * 1. Find PENDING checkout sessions older than `staleMinutes`
+ * 2. Ask the session's gateway for the REAL status
+ * 3. PAID    -> complete all its orders + enroll (same path as verify/webhooks)
+ * 4. UNPAID  -> mark FAILED
+ * 5. PENDING -> leave alone, next run checks again
+ * 6. Save a report admins can fetch
+ */
+type ReconciliationOutcome = "COMPLETED" | "FAILED" | "PENDING" | "ERROR";
+
+interface ReconciliationDetail {
+    checkoutSessionId: number | null;
+    orderIds: number[];
+    gatewayOrderId: string | null;
+    provider: PaymentProvider;
+    outcome: ReconciliationOutcome;
+    message: string;
+}
+
+const RECONCILIATION_BATCH_SIZE = 200;
+
+export const reconcilePendingOrders = async (staleMinutes: number = 30) => {
+    const startedAt = new Date();
+    const cutoffTime = new Date(Date.now() - staleMinutes * 60 * 1000);
+
+    // STEP 1: Find stale checkouts
+    const staleCheckouts = await prisma.checkoutSession.findMany({
+        where: { status: "PENDING", createdAt: { lt: cutoffTime } },
+        include: { orders: true },
+        orderBy: { id: "asc" },
+        take: RECONCILIATION_BATCH_SIZE
+    });
+
+    logger.info(`[Reconciliation] Found ${staleCheckouts.length} stale PENDING checkout(s)`);
+
+    const details: ReconciliationDetail[] = [];
+
+    for (const checkout of staleCheckouts) {
+        const detail: ReconciliationDetail = {
+            checkoutSessionId: checkout.id,
+            orderIds: checkout.orders.map(o => o.id),
+            gatewayOrderId: checkout.gatewayOrderId,
+            provider: checkout.provider,
+            outcome: "PENDING",
+            message: ""
+        };
+
+        try {
+            if (!checkout.gatewayOrderId) {
+                // Gateway order was never created - nothing can have been paid
+                await failCheckout(checkout.id);
+                detail.outcome = "FAILED";
+                detail.message = "No gateway order was created";
+                details.push(detail);
+                continue;
+            }
+
+            // STEP 2: Ask the gateway what really happened
+            const paymentGateway = await getPaymentProviderByName(checkout.provider);
+            const result = await paymentGateway.getPaymentStatus(checkout.gatewayOrderId);
+
+            if (result.status === "PAID" && result.gatewayPaymentId) {
+                // STEP 3: Paid but never verified - enroll now
+                const completedOrderIds = await completeCheckout(checkout, {
+                    paymentId: result.gatewayPaymentId,
+                    signature: null
+                });
+                detail.outcome = "COMPLETED";
+                detail.message = `Payment ${result.gatewayPaymentId} captured, completed ${completedOrderIds.length} order(s)`;
+            } else if (result.status === "UNPAID") {
+                // STEP 4: Nothing captured - release the orders
+                await failCheckout(checkout.id);
+                detail.outcome = "FAILED";
+                detail.message = "Gateway reports no captured payment";
+            } else {
+                // (PAID without a payment ID could never be refunded - check again next run)
+                detail.message = result.status === "PAID"
+                    ? "Gateway reports the order paid but no payment ID yet"
+                    : "Gateway is still processing the payment";
+            }
+        } catch (error: any) {
+            detail.outcome = "ERROR";
+            detail.message = error.message || "Unknown error";
+            logger.error(`[Reconciliation] Failed to reconcile checkout ${checkout.id}: ${detail.message}`);
         }
-        throw new InternalError("Payment processing failed.");
+
+        details.push(detail);
+    }
+
+    // Orders from before checkout sessions existed can't be looked up - release them
+    const orphanOrders = await prisma.order.findMany({
+        where: { status: "PENDING", checkoutSessionId: null, createdAt: { lt: cutoffTime } },
+        select: { id: true, provider: true },
+        take: RECONCILIATION_BATCH_SIZE
+    });
+
+    if (orphanOrders.length > 0) {
+        await prisma.order.updateMany({
+            where: { id: { in: orphanOrders.map(o => o.id) }, status: "PENDING" },
+            data: { status: "FAILED" }
+        });
+        for (const order of orphanOrders) {
+            details.push({
+                checkoutSessionId: null,
+                orderIds: [order.id],
+                gatewayOrderId: null,
+                provider: order.provider,
+                outcome: "FAILED",
+                message: "Order has no checkout session"
+            });
+        }
+    }
+
+    // STEP 6: Save the report
+    const countOf = (outcome: ReconciliationOutcome) =>
+        details.filter(d => d.outcome === outcome).reduce((sum, d) => sum + d.orderIds.length, 0);
+
+    const report = await prisma.reconciliationReport.create({
+        data: {
+            checkedCount: details.reduce((sum, d) => sum + d.orderIds.length, 0),
+            completedCount: countOf("COMPLETED"),
+            failedCount: countOf("FAILED"),
+            pendingCount: countOf("PENDING"),
+            errorCount: countOf("ERROR"),
+            details: details as unknown as Prisma.InputJsonValue,
+            startedAt,
+            finishedAt: new Date()
+        }
+    });
+
+    logger.info(
+        `[Reconciliation] Report ${report.id}: checked ${report.checkedCount}, completed ${report.completedCount}, ` +
+        `failed ${report.failedCount}, still pending ${report.pendingCount}, errors ${report.errorCount}`
+    );
+
+    return report;
+};
+
+/**
+ * Get Reconciliation Reports (Admin)
+ * Latest runs first.
+ */
+export const getReconciliationReports = async (limit: number = 20) => {
+    return await prisma.reconciliationReport.findMany({
+        orderBy: { startedAt: "desc" },
+        take: limit
+    });
+};
+
+/**
+ * Enroll in a Free Course (no payment)
+ *
+ * What happens:
+ * 1. Validate course exists, is published and is actually free
+ * 2. Check user not already enrolled
+ * 3. Create enrollment + zero-amount order, remove from cart
+ */
+export const enrollFreeCourse = async (userId: number, courseId: number) => {
+    logger.info(`[PaymentService] Free enrollment - User:${userId} Course:${courseId}`);
+
+    // STEP 1: Validate Course
+    const course = await prisma.course.findUnique({
+        where: { id: courseId },
+        select: { id: true, title: true, price: true, originalPrice: true, status: true }
+    });
+
+    if (!course) {
+        throw new NotFoundError("Course not found.");
     }
+
+    if (course.status !== "PUBLISHED") {
+        throw new ValidationError("This course is not available for enrollment.");
+    }
+
+    if (course.price !== 0) {
+        throw new ValidationError("This course is not free. Please purchase it to enroll.");
+    }
+
+    // STEP 2: Check Existing Enrollment (time-limited access is renewed)
+    const { ownedCourseIds, renewalCourseIds } = await getExistingAccess(userId, [courseId]);
+
+    if (ownedCourseIds.length > 0) {
+        throw new ValidationError("You are already enrolled in this course.");
+    }
+
+    // STEP 3: Enroll (a parallel request that enrolled first makes this fail as "already enrolled")
+    const [orderId] = await enrollFreeCourses(userId, [course], renewalCourseIds);
+
+    logger.info(`[PaymentService] User:${userId} enrolled in free course ${courseId}`);
+    return { success: true, data: { courseId: course.id, courseTitle: course.title, orderId } };
 };
@@ -16,13 +16,14 @@ import { PaymentProvider } from "@prisma/client";
  * Information needed to create an order with ANY payment gateway
  */
 export interface CreateOrderParams {
-    amount: number;              // How much money (in INR)
-    currency: string;            // Usually "INR"
+    amount: number;              // How much money (in `currency`)
+    currency: string;            // Student's checkout currency (e.g. "INR", "USD")
     orderId: number;             // Our internal order ID
     courseId: number;            // Which course
     courseTitle: string;         // Course name for receipt
     userEmail: string;           // Customer email
     userName: string;            // Customer name
+    userPhone: string | null;    // Customer phone, if given at checkout (Cashfree requires one)
 }
 
 /**
@@ -34,6 +35,56 @@ export interface VerifyPaymentParams {
     gatewaySignature: string;    // Security signature from the gateway
 }
 
+/**
+ * Information needed to refund a captured payment (fully or partly)
+ */
+export interface RefundPaymentParams {
+    gatewayPaymentId: string;    // Payment ID from the gateway
+    gatewayOrderId: string;      // Order ID from the gateway (some gateways refund by order)
+    amount: number;              // How much to refund (in the order's currency)
+    orderId: number;             // Our internal order ID
+    reason: string | null;       // Shown in gateway dashboard
+}
+
+/**
+ * Information needed to create a recurring plan on the gateway
+ */
+export interface CreateSubscriptionPlanParams {
+    name: string;                // Plan name shown to the customer
+    description: string | null;
+    interval: "MONTHLY" | "YEARLY";
+    amount: number;              // Charged every interval (in `currency`)
+    currency: string;
+}
+
+/**
+ * Information needed to start a subscription on an existing gateway plan
+ */
+export interface CreateSubscriptionParams {
+    gatewayPlanId: string;       // Plan ID from the gateway
+    totalCount: number;          // How many billing cycles before it ends by itself
+    userId: number;              // Our internal user ID
+    userEmail: string;           // Customer email
+}
+
+/**
+ * Information needed to verify the authorisation payment of a subscription
+ */
+export interface VerifySubscriptionPaymentParams {
+    gatewaySubscriptionId: string;
+    gatewayPaymentId: string;
+    gatewaySignature: string;
+}
+
+/**
+ * Raw webhook request exactly as the gateway sent it.
+ * Signatures are computed over the raw body, so we never re-serialize JSON.
+ */
+export interface WebhookParams {
+    rawBody: string;                                          // Untouched request body
+    headers: Record<string, string | string[] | undefined>;   // Request headers (lowercase keys)
+}
+
 // ----------------------------------------------------------------------------
 // OUTPUT TYPES (What we get BACK from the gateway)
 // ----------------------------------------------------------------------------
@@ -47,6 +98,8 @@ export interface CreateOrderResult {
     currency: string;            // Currency code
     gatewayKeyId: string;        // Public key for frontend
     provider: PaymentProvider;   // Which gateway this is
+    paymentSessionId: string | null; // Checkout session token (Cashfree), null if not used
+    redirectUrl: string | null;      // Hosted pay page to send the user to (PhonePe), null if not used
 }
 
 /**
@@ -58,6 +111,82 @@ export interface VerifyPaymentResult {
     signature: string;           // The signature we verified
 }
 
+/**
+ * Result of a refund request
+ * Most gateways process refunds asynchronously, so PENDING is normal.
+ */
+export interface RefundPaymentResult {
+    gatewayRefundId: string;             // Refund ID from the gateway
+    status: "PENDING" | "PROCESSED";     // Gateway's refund status
+}
+
+/**
+ * What we get back after creating a subscription
+ * The frontend opens the gateway checkout with the subscription ID.
+ */
+export interface CreateSubscriptionResult {
+    gatewaySubscriptionId: string;
+    gatewayKeyId: string;        // Public key for frontend
+    provider: PaymentProvider;
+    shortUrl: string | null;     // Hosted authorisation page, null if not given
+}
+
+/**
+ * Real state of a subscription, straight from the gateway's API
+ * - ACTIVE: paid up until currentPeriodEnd
+ * - PENDING: authorised but not charged yet (or a charge is being retried)
+ * - ENDED: cancelled, completed or expired - no more charges
+ */
+export interface SubscriptionStatusResult {
+    status: "ACTIVE" | "PENDING" | "ENDED";
+    currentPeriodEnd: Date | null;
+}
+
+/**
+ * Real state of a gateway order, straight from the gateway's API
+ * - PAID: money captured, order can be completed
+ * - PENDING: gateway is still processing, check again later
+ * - UNPAID: nothing was captured (abandoned, failed or expired)
+ */
+export interface PaymentStatusResult {
+    status: "PAID" | "PENDING" | "UNPAID";
+    gatewayPaymentId: string | null;     // Captured payment ID (only when PAID)
+}
+
+/**
+ * What happened according to the gateway's webhook
+ * - PAYMENT_SUCCESS: money captured, order can be completed
+ * - PAYMENT_FAILED: payment attempt failed or was dropped by the user
+ * - SUBSCRIPTION_CHARGED: a subscription cycle was paid
+ * - SUBSCRIPTION_HALTED: renewal charges keep failing
+ * - SUBSCRIPTION_ENDED: cancelled or completed, no more charges
+ * - IGNORED: an event we do not act on (refunds, disputes, etc.)
+ */
+export type WebhookEventType =
+    | "PAYMENT_SUCCESS"
+    | "PAYMENT_FAILED"
+    | "SUBSCRIPTION_CHARGED"
+    | "SUBSCRIPTION_HALTED"
+    | "SUBSCRIPTION_ENDED"
+    | "IGNORED";
+
+/**
+ * Result of parsing a webhook
+ */
+export interface WebhookEvent {
+    isValid: boolean;               // Did the webhook signature match?
+    type: WebhookEventType;         // Normalized event type
+    gatewayOrderId: string | null;  // Order ID from the gateway
+    gatewayPaymentId: string | null;// Payment ID from the gateway
+    rawEvent: string;               // Provider's own event name (for logs)
+    subscription?: {                // Only set for SUBSCRIPTION_* events
+        gatewaySubscriptionId: string;
+        currentPeriodEnd: Date | null;
+        amount: number | null;      // Charged amount in smallest unit (SUBSCRIPTION_CHARGED)
+        currency: string | null;
+    };
+}
+
 // ----------------------------------------------------------------------------
 // THE MAIN INTERFACE (The Contract)
 // ----------------------------------------------------------------------------
@@ -88,9 +217,71 @@ export interface IPaymentProvider {
      */
     verifyPayment(params: VerifyPaymentParams): Promise<VerifyPaymentResult>;
 
+    /**
+     * Refund a captured payment (full or partial)
+     * @param params - Payment and amount to refund
+     * @returns Gateway refund reference
+     */
+    refundPayment(params: RefundPaymentParams): Promise<RefundPaymentResult>;
+
+    /**
+     * Verify and parse a server-to-server webhook
+     * @param params - Raw body and headers of the webhook request
+     * @returns Normalized event (isValid = false if the signature is wrong)
+     */
+    parseWebhook(params: WebhookParams): Promise<WebhookEvent>;
+
+    /**
+     * Ask the gateway what really happened to an order
+     * Used by reconciliation when neither the browser nor a webhook told us.
+     * @param gatewayOrderId - Order ID from the gateway
+     * @returns Current payment status
+     */
+    getPaymentStatus(gatewayOrderId: string): Promise<PaymentStatusResult>;
+
+    /**
+     * Create a recurring plan (monthly or yearly)
+     * @param params - Plan details
+     * @returns Plan ID from the gateway
+     */
+    createSubscriptionPlan(params: CreateSubscriptionPlanParams): Promise<string>;
+
+    /**
+     * Start a subscription on a plan; the customer authorises it at checkout
+     * @param params - Plan and customer
+     * @returns Subscription information for the frontend
+     */
+    createSubscription(params: CreateSubscriptionParams): Promise<CreateSubscriptionResult>;
+
+    /**
+     * Verify the signature of a subscription's authorisation payment
+     * @param params - Subscription payment verification data
+     * @returns Whether the payment is valid
+     */
+    verifySubscriptionPayment(params: VerifySubscriptionPaymentParams): Promise<VerifyPaymentResult>;
+
+    /**
+     * Ask the gateway what state a subscription is in
+     * @param gatewaySubscriptionId - Subscription ID from the gateway
+     */
+    getSubscriptionStatus(gatewaySubscriptionId: string): Promise<SubscriptionStatusResult>;
+
+    /**
+     * Stop a subscription
+     * @param gatewaySubscriptionId - Subscription ID from the gateway
+     * @param atCycleEnd - Keep it running until the paid period ends
+     */
+    cancelSubscription(gatewaySubscriptionId: string, atCycleEnd: boolean): Promise<void>;
+
     /**
      * Get the name of this payment provider
      * @returns Provider name (e.g., "RAZORPAY")
      */
     getProviderName(): PaymentProvider;
+
+    /**
+     * Currencies this gateway can charge
+     * Checkouts fall back to the base currency for anything else.
+     */
+    getSupportedCurrencies(): string[];
 }
@@ -1,46 +1,434 @@
+import axios, { AxiosInstance } from "axios";
+import crypto from "crypto";
 import { PaymentProvider } from "@prisma/client";
-import { NotImplementedError } from "../../../utils/api_error.utils";
+import { logger } from "../../../config/logger.config";
+import { InternalError, ValidationError } from "../../../utils/api_error.utils";
 import {
     IPaymentProvider,
     CreateOrderParams,
     CreateOrderResult,
     VerifyPaymentParams,
-    VerifyPaymentResult
+    VerifyPaymentResult,
+    RefundPaymentParams,
+    RefundPaymentResult,
+    WebhookParams,
+    WebhookEvent,
+    PaymentStatusResult,
+    CreateSubscriptionResult,
+    SubscriptionStatusResult
 } from "../payment.types";
 
 /**
  * ============================================================================
- * CASHFREE PAYMENT PROVIDER (PLACEHOLDER)
+ * CASHFREE PAYMENT PROVIDER
  * ============================================================================
  * 
- * This is a PLACEHOLDER implementation.
- * When admin selects Cashfree, this code runs and shows a clear error message.
+ * This file handles ALL Cashfree-specific logic (Cashfree PG REST API).
+ * It implements the IPaymentProvider interface, so it works exactly like
+ * any other payment gateway.
  * 
- * To implement Cashfree later:
- * 1. Get Cashfree SDK/API documentation
- * 2. Add credentials to .env
- * 3. Replace the throw statements with actual Cashfree logic
- * 4. Follow the same pattern as Razorpay provider
+ * How it works:
+ * 1. Create an order -> Cashfree returns a payment_session_id
+ * 2. Frontend opens Cashfree checkout with that payment_session_id
+ * 3. Verify by asking Cashfree for the order status (no client-side signature)
+ * 4. Refund through the order's refunds endpoint
+ * 5. Verify webhooks using the secret key
+ *
+ * CASHFREE_BASE_URL can point to a local stub server, so the provider can be
+ * exercised without calling Cashfree.
  */
+
+const CASHFREE_API_VERSION = "2023-08-01";
+
+// A signed webhook older (or further in the future) than this is treated as a replay
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const CASHFREE_BASE_URLS = {
+    sandbox: "https://sandbox.cashfree.com/pg",
+    production: "https://api.cashfree.com/pg"
+};
+
+/**
+ * STEP 1: Get Cashfree credentials
+ * These come from environment variables (.env file)
+ */
+function getCashfreeConfig() {
+    const appId = process.env.CASHFREE_APP_ID;
+    const secretKey = process.env.CASHFREE_SECRET_KEY;
+    const environment = process.env.CASHFREE_ENV === "production" ? "production" : "sandbox";
+    const baseUrl = process.env.CASHFREE_BASE_URL || CASHFREE_BASE_URLS[environment];
+
+    // Validate credentials are present
+    if (!appId || appId.trim() === '') {
+        logger.error('[Cashfree] CASHFREE_APP_ID is missing or empty in environment variables');
+        throw new InternalError('Cashfree App ID not configured');
+    }
+
+    if (!secretKey || secretKey.trim() === '') {
+        logger.error('[Cashfree] CASHFREE_SECRET_KEY is missing or empty in environment variables');
+        throw new InternalError('Cashfree Secret Key not configured');
+    }
+
+    return { appId, secretKey, baseUrl };
+}
+
+/**
+ * STEP 2: Create an HTTP client for the Cashfree API
+ * Every request needs the credentials + API version headers
+ */
+function createCashfreeClient(): AxiosInstance {
+    const { appId, secretKey, baseUrl } = getCashfreeConfig();
+
+    return axios.create({
+        baseURL: baseUrl,
+        timeout: 15000,
+        headers: {
+            "x-client-id": appId,
+            "x-client-secret": secretKey,
+            "x-api-version": CASHFREE_API_VERSION,
+            "Content-Type": "application/json",
+            Accept: "application/json"
+        }
+    });
+}
+
+/**
+ * Cashfree errors come back as { message, code, type } in the response body
+ */
+function getCashfreeErrorMessage(error: any): string {
+    return error.response?.data?.message || error.message || 'Unknown Cashfree error occurred';
+}
+
 class CashfreeProvider implements IPaymentProvider {
 
+    /**
+     * Method 1: Create an order
+     * 
+     * Cashfree lets US choose the order_id, so we derive it from our internal ID.
+     * The returned payment_session_id is what the frontend SDK needs.
+     */
     async createOrder(params: CreateOrderParams): Promise<CreateOrderResult> {
-        throw new NotImplementedError(
-            "Cashfree payment gateway is not implemented yet. " +
-            "Please select Razorpay in admin settings or contact support."
-        );
+        // VALIDATION: Check inputs before calling Cashfree
+        if (!params.amount || params.amount <= 0) {
+            logger.error('[Cashfree] Invalid amount provided:', params.amount);
+            throw new ValidationError('Amount must be greater than zero');
+        }
+
+        if (!params.currency || params.currency.trim().length === 0) {
+            logger.error('[Cashfree] Missing currency');
+            throw new ValidationError('Currency is required');
+        }
+
+        if (!params.orderId) {
+            logger.error('[Cashfree] Missing internal order ID');
+            throw new ValidationError('Internal order ID is required');
+        }
+
+        // Cashfree refuses orders without a customer phone - never invent one
+        if (!params.userPhone) {
+            logger.error('[Cashfree] Missing customer phone');
+            throw new ValidationError('A phone number is required to pay with Cashfree');
+        }
+
+        const client = createCashfreeClient();
+        const { appId } = getCashfreeConfig();
+        const cashfreeOrderId = `order_${params.orderId}`;
+
+        logger.info('[Cashfree] Creating order with validated params:', {
+            amount: params.amount,
+            currency: params.currency,
+            orderId: params.orderId,
+            courseId: params.courseId
+        });
+
+        try {
+            const { data: cashfreeOrder } = await client.post("/orders", {
+                order_id: cashfreeOrderId,
+                order_amount: Math.round(params.amount * 100) / 100, // Cashfree wants RUPEES
+                order_currency: params.currency,
+                customer_details: {
+                    // customer_id must be alphanumeric/underscore/hyphen
+                    customer_id: params.userEmail.replace(/[^a-zA-Z0-9_-]/g, "_"),
+                    customer_email: params.userEmail,
+                    customer_name: params.userName,
+                    customer_phone: params.userPhone
+                },
+                order_meta: {
+                    return_url: `${process.env.FRONTEND_URL}/payment/status?order_id={order_id}`,
+                    notify_url: `${process.env.BACKEND_URL}/api/payment/webhook/cashfree`
+                },
+                order_note: params.courseTitle.substring(0, 200),
+                order_tags: {
+                    internal_order_id: String(params.orderId),
+                    course_id: String(params.courseId)
+                }
+            });
+
+            // VALIDATION: Check Cashfree response is valid
+            if (!cashfreeOrder || !cashfreeOrder.order_id || !cashfreeOrder.payment_session_id) {
+                logger.error('[Cashfree] Missing order ID or payment session in response:', cashfreeOrder);
+                throw new InternalError('Cashfree did not return a payment session');
+            }
+
+            logger.info('[Cashfree] Order created successfully:', {
+                orderId: cashfreeOrder.order_id,
+                cfOrderId: cashfreeOrder.cf_order_id,
+                amount: cashfreeOrder.order_amount,
+                status: cashfreeOrder.order_status
+            });
+
+            // Return the data in our standard format
+            return {
+                gatewayOrderId: cashfreeOrder.order_id,
+                amount: Math.round(Number(cashfreeOrder.order_amount) * 100), // Smallest unit, same as Razorpay
+                currency: cashfreeOrder.order_currency,
+                gatewayKeyId: appId,
+                provider: PaymentProvider.CASHFREE,
+                paymentSessionId: cashfreeOrder.payment_session_id,
+                redirectUrl: null
+            };
+
+        } catch (error: any) {
+            if (error instanceof InternalError) throw error;
+
+            logger.error('[Cashfree] Order creation failed - Full error details:', {
+                message: getCashfreeErrorMessage(error),
+                code: error.response?.data?.code || 'No code',
+                statusCode: error.response?.status || 'No status code'
+            });
+
+            throw new InternalError(`Cashfree order creation failed: ${getCashfreeErrorMessage(error)}`);
+        }
     }
 
+    /**
+     * Method 2: Verify payment
+     * 
+     * Cashfree does not give the browser a signature to send back.
+     * Instead we ask Cashfree directly whether the order is PAID.
+     * A PENDING payment is NOT treated as failed - the user can retry
+     * verification, or the webhook will complete it later.
+     */
     async verifyPayment(params: VerifyPaymentParams): Promise<VerifyPaymentResult> {
-        throw new NotImplementedError(
-            "Cashfree payment verification is not implemented yet. " +
-            "Please select Razorpay in admin settings or contact support."
-        );
+        const result = await this.getPaymentStatus(params.gatewayOrderId);
+
+        if (result.status === "PENDING") {
+            throw new ValidationError("Your payment is still being processed. Please check again in a few minutes.");
+        }
+
+        if (result.status !== "PAID" || !result.gatewayPaymentId) {
+            return { isValid: false, paymentId: params.gatewayPaymentId || "", signature: "" };
+        }
+
+        logger.info(`[Cashfree] Payment verified: ${result.gatewayPaymentId}`);
+
+        return {
+            isValid: true,
+            paymentId: result.gatewayPaymentId,
+            signature: "" // No client-side signature - verified by server status check
+        };
+    }
+
+    /**
+     * Method 3: Refund payment
+     * 
+     * Cashfree refunds an ORDER and needs a unique refund_id from us.
+     * Partial refunds are allowed.
+     */
+    async refundPayment(params: RefundPaymentParams): Promise<RefundPaymentResult> {
+        if (!params.amount || params.amount <= 0) {
+            logger.error('[Cashfree] Invalid refund amount provided:', params.amount);
+            throw new ValidationError('Refund amount must be greater than zero');
+        }
+
+        const client = createCashfreeClient();
+
+        try {
+            const { data: refund } = await client.post(
+                `/orders/${encodeURIComponent(params.gatewayOrderId)}/refunds`,
+                {
+                    refund_amount: Math.round(params.amount * 100) / 100,
+                    refund_id: `refund_${params.orderId}_${Date.now()}`,
+                    refund_note: (params.reason || "Refund issued by admin").substring(0, 100)
+                }
+            );
+
+            logger.info('[Cashfree] Refund created successfully:', {
+                refundId: refund.refund_id,
+                cfRefundId: refund.cf_refund_id,
+                amount: refund.refund_amount,
+                status: refund.refund_status
+            });
+
+            return {
+                gatewayRefundId: String(refund.cf_refund_id || refund.refund_id),
+                status: refund.refund_status === "SUCCESS" ? "PROCESSED" : "PENDING"
+            };
+        } catch (error: any) {
+            logger.error('[Cashfree] Refund failed - Full error details:', {
+                message: getCashfreeErrorMessage(error),
+                statusCode: error.response?.status || 'No status code',
+                orderId: params.gatewayOrderId
+            });
+
+            throw new InternalError(`Cashfree refund failed: ${getCashfreeErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Method 4: Parse webhook
+     *
+     * Cashfree signs webhooks as base64(HMAC-SHA256(timestamp + rawBody, secretKey))
+     * and sends "x-webhook-signature" and "x-webhook-timestamp" (epoch ms) headers.
+     * The timestamp is signed, so a captured webhook cannot be replayed once it
+     * falls outside WEBHOOK_TOLERANCE_MS.
+     */
+    async parseWebhook(params: WebhookParams): Promise<WebhookEvent> {
+        const { secretKey } = getCashfreeConfig();
+
+        const invalid: WebhookEvent = {
+            isValid: false,
+            type: "IGNORED",
+            gatewayOrderId: null,
+            gatewayPaymentId: null,
+            rawEvent: "unknown"
+        };
+
+        const signature = params.headers["x-webhook-signature"];
+        const timestamp = params.headers["x-webhook-timestamp"];
+        if (typeof signature !== "string" || typeof timestamp !== "string") {
+            logger.warn('[Cashfree] Webhook received without signature headers');
+            return invalid;
+        }
+
+        const expectedSignature = crypto
+            .createHmac("sha256", secretKey)
+            .update(timestamp + params.rawBody)
+            .digest("base64");
+
+        const isValid = expectedSignature.length === signature.length &&
+            crypto.timingSafeEqual(Buffer.from(expectedSignature), Buffer.from(signature));
+
+        if (!isValid) {
+            logger.warn('[Cashfree] Invalid webhook signature');
+            return invalid;
+        }
+
+        const sentAt = Number(timestamp);
+        if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > WEBHOOK_TOLERANCE_MS) {
+            logger.warn(`[Cashfree] Webhook timestamp ${timestamp} is outside the allowed window - possible replay`);
+            return invalid;
+        }
+
+        const payload = JSON.parse(params.rawBody);
+        const event: string = payload.type || "unknown";
+        const paymentStatus: string | undefined = payload.data?.payment?.payment_status;
+
+        let type: WebhookEvent["type"] = "IGNORED";
+        if (event === "PAYMENT_SUCCESS_WEBHOOK" && paymentStatus === "SUCCESS") {
+            type = "PAYMENT_SUCCESS";
+        } else if (event === "PAYMENT_FAILED_WEBHOOK" || event === "PAYMENT_USER_DROPPED_WEBHOOK") {
+            type = "PAYMENT_FAILED";
+        }
+
+        logger.info(`[Cashfree] Webhook verified: ${event}`);
+
+        return {
+            isValid: true,
+            type,
+            gatewayOrderId: payload.data?.order?.order_id || null,
+            gatewayPaymentId: payload.data?.payment?.cf_payment_id ? String(payload.data.payment.cf_payment_id) : null,
+            rawEvent: event
+        };
+    }
+
+    /**
+     * Method 5: Get payment status
+     *
+     * STEP 1: Ask Cashfree for the order status
+     * STEP 2: Look at the payment attempts to find the captured one
+     */
+    async getPaymentStatus(gatewayOrderId: string): Promise<PaymentStatusResult> {
+        const client = createCashfreeClient();
+        const orderId = encodeURIComponent(gatewayOrderId);
+
+        try {
+            const { data: cashfreeOrder } = await client.get(`/orders/${orderId}`);
+            const orderStatus: string | undefined = cashfreeOrder?.order_status;
+
+            // EXPIRED / TERMINATED orders can never be paid
+            if (orderStatus !== "PAID" && orderStatus !== "ACTIVE") {
+                logger.warn(`[Cashfree] Order ${gatewayOrderId} not paid, status: ${orderStatus}`);
+                return { status: "UNPAID", gatewayPaymentId: null };
+            }
+
+            const { data: payments } = await client.get(`/orders/${orderId}/payments`);
+            const attempts: any[] = Array.isArray(payments) ? payments : [];
+
+            const successfulPayment = attempts.find(p => p.payment_status === "SUCCESS");
+            if (orderStatus === "PAID" && successfulPayment) {
+                return { status: "PAID", gatewayPaymentId: String(successfulPayment.cf_payment_id) };
+            }
+
+            if (attempts.some(p => p.payment_status === "PENDING")) {
+                return { status: "PENDING", gatewayPaymentId: null };
+            }
+
+            logger.warn(`[Cashfree] Order ${gatewayOrderId} has no successful payment, status: ${orderStatus}`);
+            return { status: "UNPAID", gatewayPaymentId: null };
+        } catch (error: any) {
+            logger.error('[Cashfree] Payment status check failed:', {
+                message: getCashfreeErrorMessage(error),
+                statusCode: error.response?.status || 'No status code',
+                orderId: gatewayOrderId
+            });
+
+            throw new InternalError(`Cashfree status check failed: ${getCashfreeErrorMessage(error)}`);
+        }
     }
 
+    /**
+     * Method 6: Get provider name
+     */
     getProviderName(): PaymentProvider {
         return PaymentProvider.CASHFREE;
     }
+
+    /**
+     * Method 6b: Currencies Cashfree can charge (non-INR needs international payments enabled)
+     */
+    getSupportedCurrencies(): string[] {
+        return ["INR", "USD", "EUR"];
+    }
+
+    /**
+     * Methods 7-11: Subscriptions
+     *
+     * Not integrated for Cashfree - membership plans are billed through Razorpay.
+     */
+    async createSubscriptionPlan(): Promise<string> {
+        throw new ValidationError('Subscriptions are not supported by Cashfree');
+    }
+
+    async createSubscription(): Promise<CreateSubscriptionResult> {
+        throw new ValidationError('Subscriptions are not supported by Cashfree');
+    }
+
+    async verifySubscriptionPayment(): Promise<VerifyPaymentResult> {
+        throw new ValidationError('Subscriptions are not supported by Cashfree');
+    }
+
+    async getSubscriptionStatus(): Promise<SubscriptionStatusResult> {
+        throw new ValidationError('Subscriptions are not supported by Cashfree');
+    }
+
+    async cancelSubscription(): Promise<void> {
+        throw new ValidationError('Subscriptions are not supported by Cashfree');
+    }
 }
 
+/**
+ * Export a single instance of the Cashfree provider
+ * We use the same instance everywhere (singleton pattern)
+ */
 export const cashfreeProvider = new CashfreeProvider();
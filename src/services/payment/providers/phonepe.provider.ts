@@ -1,46 +1,480 @@
+import axios, { AxiosInstance } from "axios";
+import crypto from "crypto";
 import { PaymentProvider } from "@prisma/client";
-import { NotImplementedError } from "../../../utils/api_error.utils";
+import { logger } from "../../../config/logger.config";
+import { InternalError, ValidationError } from "../../../utils/api_error.utils";
 import {
     IPaymentProvider,
     CreateOrderParams,
     CreateOrderResult,
     VerifyPaymentParams,
-    VerifyPaymentResult
+    VerifyPaymentResult,
+    RefundPaymentParams,
+    RefundPaymentResult,
+    WebhookParams,
+    WebhookEvent,
+    PaymentStatusResult,
+    CreateSubscriptionResult,
+    SubscriptionStatusResult
 } from "../payment.types";
 
 /**
  * ============================================================================
- * PHONEPE PAYMENT PROVIDER (PLACEHOLDER)
+ * PHONEPE PAYMENT PROVIDER
  * ============================================================================
  * 
- * This is a PLACEHOLDER implementation.
- * When admin selects PhonePe, this code runs and shows a clear error message.
+ * This file handles ALL PhonePe-specific logic (PhonePe PG API).
+ * It implements the IPaymentProvider interface, so it works exactly like
+ * any other payment gateway.
  * 
- * To implement PhonePe later:
- * 1. Get PhonePe SDK/API documentation
- * 2. Add credentials to .env
- * 3. Replace the throw statements with actual PhonePe logic
- * 4. Follow the same pattern as Razorpay provider
+ * PhonePe is REDIRECT based - there is no client-side signature:
+ * 1. Create a payment -> PhonePe returns a redirect URL
+ * 2. Frontend sends the user to that URL (PhonePe hosted pay page)
+ * 3. PhonePe redirects back to our frontend with the transaction ID
+ * 4. We confirm the payment by calling PhonePe's STATUS API
+ * 
+ * Every request is signed with an "X-VERIFY" checksum:
+ *   sha256(payload + apiPath + saltKey) + "###" + saltIndex
+ *
+ * PHONEPE_BASE_URL can point to a local mock server, so the provider can be
+ * exercised without calling PhonePe.
+ */
+
+const PHONEPE_BASE_URLS = {
+    sandbox: "https://api-preprod.phonepe.com/apis/pg-sandbox",
+    production: "https://api.phonepe.com/apis/hermes"
+};
+
+// Status codes that mean the transaction will never be paid
+const PHONEPE_UNPAID_CODES = ["PAYMENT_ERROR", "PAYMENT_DECLINED", "TIMED_OUT", "TRANSACTION_NOT_FOUND"];
+
+// Refunds are PhonePe transactions of their own, told apart by this prefix
+const REFUND_TRANSACTION_PREFIX = "refund_";
+
+/**
+ * STEP 1: Get PhonePe credentials
+ * These come from environment variables (.env file)
+ */
+function getPhonePeConfig() {
+    const merchantId = process.env.PHONEPE_MERCHANT_ID;
+    const saltKey = process.env.PHONEPE_SALT_KEY;
+    const saltIndex = process.env.PHONEPE_SALT_INDEX || "1";
+    const environment = process.env.PHONEPE_ENV === "production" ? "production" : "sandbox";
+    const baseUrl = process.env.PHONEPE_BASE_URL || PHONEPE_BASE_URLS[environment];
+
+    // Validate credentials are present
+    if (!merchantId || merchantId.trim() === '') {
+        logger.error('[PhonePe] PHONEPE_MERCHANT_ID is missing or empty in environment variables');
+        throw new InternalError('PhonePe merchant ID not configured');
+    }
+
+    if (!saltKey || saltKey.trim() === '') {
+        logger.error('[PhonePe] PHONEPE_SALT_KEY is missing or empty in environment variables');
+        throw new InternalError('PhonePe salt key not configured');
+    }
+
+    return { merchantId, saltKey, saltIndex, baseUrl };
+}
+
+/**
+ * STEP 2: Create an HTTP client for the PhonePe API
+ */
+function createPhonePeClient(baseUrl: string): AxiosInstance {
+    return axios.create({
+        baseURL: baseUrl,
+        timeout: 15000,
+        headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json"
+        }
+    });
+}
+
+/**
+ * Build the X-VERIFY header PhonePe expects
+ * data is the base64 payload (for POST) or empty (for GET), apiPath is the endpoint path
+ */
+function generateXVerify(data: string, apiPath: string, saltKey: string, saltIndex: string): string {
+    return crypto
+        .createHash("sha256")
+        .update(data + apiPath + saltKey)
+        .digest("hex") + "###" + saltIndex;
+}
+
+/**
+ * PhonePe errors come back as { success: false, code, message } in the response body
  */
+function getPhonePeErrorMessage(error: any): string {
+    return error.response?.data?.message || error.message || 'Unknown PhonePe error occurred';
+}
+
 class PhonePeProvider implements IPaymentProvider {
 
+    /**
+     * Method 1: Create a payment
+     * 
+     * PhonePe lets US choose the merchantTransactionId, so we derive it from our internal ID.
+     * The returned redirect URL is where the frontend must send the user.
+     */
     async createOrder(params: CreateOrderParams): Promise<CreateOrderResult> {
-        throw new NotImplementedError(
-            "PhonePe payment gateway is not implemented yet. " +
-            "Please select Razorpay in admin settings or contact support."
-        );
+        // VALIDATION: Check inputs before calling PhonePe
+        if (!params.amount || params.amount <= 0) {
+            logger.error('[PhonePe] Invalid amount provided:', params.amount);
+            throw new ValidationError('Amount must be greater than zero');
+        }
+
+        if (params.currency !== "INR") {
+            logger.error('[PhonePe] Unsupported currency:', params.currency);
+            throw new ValidationError('PhonePe only supports INR payments');
+        }
+
+        if (!params.orderId) {
+            logger.error('[PhonePe] Missing internal order ID');
+            throw new ValidationError('Internal order ID is required');
+        }
+
+        const { merchantId, saltKey, saltIndex, baseUrl } = getPhonePeConfig();
+        const client = createPhonePeClient(baseUrl);
+
+        // Max 35 chars, alphanumeric + underscore only
+        const merchantTransactionId = `order_${params.orderId}`;
+        const amountInPaise = Math.round(params.amount * 100);
+        const apiPath = "/pg/v1/pay";
+
+        const payload = {
+            merchantId,
+            merchantTransactionId,
+            // Max 36 chars, alphanumeric + underscore only
+            merchantUserId: `MUID_${params.userEmail.replace(/[^a-zA-Z0-9_]/g, "_")}`.substring(0, 36),
+            amount: amountInPaise,
+            redirectUrl: `${process.env.FRONTEND_URL}/payment/status?provider=phonepe&transactionId=${merchantTransactionId}`,
+            redirectMode: "REDIRECT",
+            callbackUrl: `${process.env.BACKEND_URL}/api/payment/webhook/phonepe`,
+            paymentInstrument: {
+                type: "PAY_PAGE"
+            }
+        };
+
+        const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64");
+
+        logger.info('[PhonePe] Creating payment with validated params:', {
+            amount: params.amount,
+            currency: params.currency,
+            orderId: params.orderId,
+            courseId: params.courseId
+        });
+
+        try {
+            const { data: response } = await client.post(
+                apiPath,
+                { request: encodedPayload },
+                { headers: { "X-VERIFY": generateXVerify(encodedPayload, apiPath, saltKey, saltIndex) } }
+            );
+
+            const redirectUrl: string | undefined = response?.data?.instrumentResponse?.redirectInfo?.url;
+
+            // VALIDATION: Check PhonePe response is valid
+            if (!response?.success || !redirectUrl) {
+                logger.error('[PhonePe] Payment creation rejected:', {
+                    code: response?.code,
+                    message: response?.message
+                });
+                throw new InternalError('PhonePe did not return a payment page');
+            }
+
+            logger.info('[PhonePe] Payment created successfully:', {
+                merchantTransactionId,
+                amount: amountInPaise
+            });
+
+            // Return the data in our standard format
+            return {
+                gatewayOrderId: merchantTransactionId,
+                amount: amountInPaise,
+                currency: params.currency,
+                gatewayKeyId: merchantId,
+                provider: PaymentProvider.PHONEPE,
+                paymentSessionId: null,
+                redirectUrl
+            };
+
+        } catch (error: any) {
+            if (error instanceof InternalError) throw error;
+
+            logger.error('[PhonePe] Payment creation failed - Full error details:', {
+                message: getPhonePeErrorMessage(error),
+                code: error.response?.data?.code || 'No code',
+                statusCode: error.response?.status || 'No status code'
+            });
+
+            throw new InternalError(`PhonePe payment creation failed: ${getPhonePeErrorMessage(error)}`);
+        }
     }
 
+    /**
+     * Method 2: Verify payment
+     * 
+     * PhonePe gives the browser nothing to verify, so we ask PhonePe's
+     * STATUS API whether the transaction succeeded.
+     * A PENDING transaction is NOT treated as failed - the user can retry
+     * verification, or the callback will complete it later.
+     */
     async verifyPayment(params: VerifyPaymentParams): Promise<VerifyPaymentResult> {
-        throw new NotImplementedError(
-            "PhonePe payment verification is not implemented yet. " +
-            "Please select Razorpay in admin settings or contact support."
-        );
+        const result = await this.getPaymentStatus(params.gatewayOrderId);
+
+        if (result.status === "PENDING") {
+            throw new ValidationError("Your payment is still being processed. Please check again in a few minutes.");
+        }
+
+        if (result.status !== "PAID" || !result.gatewayPaymentId) {
+            return { isValid: false, paymentId: params.gatewayPaymentId || "", signature: "" };
+        }
+
+        logger.info(`[PhonePe] Payment verified: ${result.gatewayPaymentId}`);
+
+        return {
+            isValid: true,
+            paymentId: result.gatewayPaymentId,
+            signature: "" // No client-side signature - verified by server status check
+        };
+    }
+
+    /**
+     * Method 3: Refund payment
+     * 
+     * A refund is a new PhonePe transaction pointing at the original one,
+     * so it needs its own merchantTransactionId.
+     */
+    async refundPayment(params: RefundPaymentParams): Promise<RefundPaymentResult> {
+        if (!params.amount || params.amount <= 0) {
+            logger.error('[PhonePe] Invalid refund amount provided:', params.amount);
+            throw new ValidationError('Refund amount must be greater than zero');
+        }
+
+        const { merchantId, saltKey, saltIndex, baseUrl } = getPhonePeConfig();
+        const client = createPhonePeClient(baseUrl);
+        const apiPath = "/pg/v1/refund";
+
+        const payload = {
+            merchantId,
+            merchantUserId: "MUID_ADMIN",
+            originalTransactionId: params.gatewayOrderId,
+            merchantTransactionId: `${REFUND_TRANSACTION_PREFIX}${params.orderId}_${Date.now()}`,
+            amount: Math.round(params.amount * 100),
+            // PhonePe requires a callback URL; parseWebhook recognises refund callbacks
+            // by the prefix above and acknowledges them without touching any checkout
+            callbackUrl: `${process.env.BACKEND_URL}/api/payment/webhook/phonepe`
+        };
+
+        const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64");
+
+        try {
+            const { data: response } = await client.post(
+                apiPath,
+                { request: encodedPayload },
+                { headers: { "X-VERIFY": generateXVerify(encodedPayload, apiPath, saltKey, saltIndex) } }
+            );
+
+            if (!response?.success) {
+                logger.error('[PhonePe] Refund rejected:', {
+                    code: response?.code,
+                    message: response?.message
+                });
+                throw new InternalError(`PhonePe refund failed: ${response?.message || response?.code}`);
+            }
+
+            logger.info('[PhonePe] Refund created successfully:', {
+                merchantTransactionId: payload.merchantTransactionId,
+                transactionId: response.data?.transactionId,
+                code: response.code
+            });
+
+            return {
+                gatewayRefundId: response.data?.transactionId || payload.merchantTransactionId,
+                status: response.code === "PAYMENT_SUCCESS" ? "PROCESSED" : "PENDING"
+            };
+        } catch (error: any) {
+            if (error instanceof InternalError) throw error;
+
+            logger.error('[PhonePe] Refund failed - Full error details:', {
+                message: getPhonePeErrorMessage(error),
+                statusCode: error.response?.status || 'No status code',
+                merchantTransactionId: params.gatewayOrderId
+            });
+
+            throw new InternalError(`PhonePe refund failed: ${getPhonePeErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Method 4: Parse webhook
+     *
+     * PhonePe posts { response: <base64 JSON> } to our callback URL with an
+     * "X-VERIFY" header of sha256(response + saltKey) + "###" + saltIndex.
+     */
+    async parseWebhook(params: WebhookParams): Promise<WebhookEvent> {
+        const saltKey = process.env.PHONEPE_SALT_KEY;
+        const saltIndex = process.env.PHONEPE_SALT_INDEX || "1";
+
+        if (!saltKey || saltKey.trim() === '') {
+            logger.error('[PhonePe] PHONEPE_SALT_KEY is missing or empty in environment variables');
+            throw new InternalError('PhonePe salt key not configured');
+        }
+
+        const invalid: WebhookEvent = {
+            isValid: false,
+            type: "IGNORED",
+            gatewayOrderId: null,
+            gatewayPaymentId: null,
+            rawEvent: "unknown"
+        };
+
+        const xVerify = params.headers["x-verify"];
+        const encodedResponse: unknown = JSON.parse(params.rawBody)?.response;
+        if (typeof xVerify !== "string" || typeof encodedResponse !== "string") {
+            logger.warn('[PhonePe] Callback received without X-VERIFY header or response payload');
+            return invalid;
+        }
+
+        const expectedChecksum = crypto
+            .createHash("sha256")
+            .update(encodedResponse + saltKey)
+            .digest("hex") + "###" + saltIndex;
+
+        const isValid = expectedChecksum.length === xVerify.length &&
+            crypto.timingSafeEqual(Buffer.from(expectedChecksum), Buffer.from(xVerify));
+
+        if (!isValid) {
+            logger.warn('[PhonePe] Invalid callback checksum');
+            return invalid;
+        }
+
+        const payload = JSON.parse(Buffer.from(encodedResponse, "base64").toString("utf8"));
+        const code: string = payload.code || "unknown";
+
+        // Refund callbacks share this URL: refunds are recorded when issued (refundOrder),
+        // so their callbacks must never be mistaken for a payment of a checkout
+        const merchantTransactionId: string | undefined = payload.data?.merchantTransactionId;
+        if (merchantTransactionId?.startsWith(REFUND_TRANSACTION_PREFIX)) {
+            logger.info(`[PhonePe] Refund callback for ${merchantTransactionId}: ${code}`);
+            return { isValid: true, type: "IGNORED", gatewayOrderId: null, gatewayPaymentId: null, rawEvent: `REFUND_${code}` };
+        }
+
+        let type: WebhookEvent["type"] = "IGNORED";
+        if (code === "PAYMENT_SUCCESS") {
+            type = "PAYMENT_SUCCESS";
+        } else if (code === "PAYMENT_ERROR" || code === "PAYMENT_DECLINED" || code === "TIMED_OUT") {
+            type = "PAYMENT_FAILED";
+        }
+
+        logger.info(`[PhonePe] Callback verified: ${code}`);
+
+        return {
+            isValid: true,
+            type,
+            gatewayOrderId: merchantTransactionId || null,
+            gatewayPaymentId: payload.data?.transactionId || null,
+            rawEvent: code
+        };
     }
 
+    /**
+     * Method 5: Get payment status
+     *
+     * Calls PhonePe's STATUS API (GET, so the checksum covers only the path).
+     */
+    async getPaymentStatus(gatewayOrderId: string): Promise<PaymentStatusResult> {
+        const { merchantId, saltKey, saltIndex, baseUrl } = getPhonePeConfig();
+        const client = createPhonePeClient(baseUrl);
+        const apiPath = `/pg/v1/status/${merchantId}/${gatewayOrderId}`;
+
+        let response: any;
+        try {
+            const result = await client.get(apiPath, {
+                headers: {
+                    "X-VERIFY": generateXVerify("", apiPath, saltKey, saltIndex),
+                    "X-MERCHANT-ID": merchantId
+                },
+                // PhonePe answers unknown/failed transactions with 4xx + a JSON code
+                validateStatus: (status) => status < 500
+            });
+            response = result.data;
+        } catch (error: any) {
+            logger.error('[PhonePe] Status check failed:', {
+                message: getPhonePeErrorMessage(error),
+                statusCode: error.response?.status || 'No status code',
+                merchantTransactionId: gatewayOrderId
+            });
+
+            throw new InternalError(`PhonePe status check failed: ${getPhonePeErrorMessage(error)}`);
+        }
+
+        const code: string = response?.code || "unknown";
+
+        if (code === "PAYMENT_SUCCESS" && response?.data?.state === "COMPLETED") {
+            return { status: "PAID", gatewayPaymentId: response.data.transactionId };
+        }
+
+        if (code === "PAYMENT_PENDING") {
+            logger.info(`[PhonePe] Transaction ${gatewayOrderId} is still pending`);
+            return { status: "PENDING", gatewayPaymentId: null };
+        }
+
+        if (PHONEPE_UNPAID_CODES.includes(code)) {
+            logger.warn(`[PhonePe] Transaction ${gatewayOrderId} not successful, code: ${code}`);
+            return { status: "UNPAID", gatewayPaymentId: null };
+        }
+
+        // Anything else (bad checksum, server error...) says nothing about the payment
+        logger.error(`[PhonePe] Unexpected status response for ${gatewayOrderId}:`, {
+            code,
+            message: response?.message
+        });
+        throw new InternalError(`PhonePe status check failed: ${response?.message || code}`);
+    }
+
+    /**
+     * Method 6: Get provider name
+     */
     getProviderName(): PaymentProvider {
         return PaymentProvider.PHONEPE;
     }
+
+    /**
+     * Method 6b: PhonePe only charges INR
+     */
+    getSupportedCurrencies(): string[] {
+        return ["INR"];
+    }
+
+    /**
+     * Methods 7-11: Subscriptions
+     *
+     * Not integrated for PhonePe - membership plans are billed through Razorpay.
+     */
+    async createSubscriptionPlan(): Promise<string> {
+        throw new ValidationError('Subscriptions are not supported by PhonePe');
+    }
+
+    async createSubscription(): Promise<CreateSubscriptionResult> {
+        throw new ValidationError('Subscriptions are not supported by PhonePe');
+    }
+
+    async verifySubscriptionPayment(): Promise<VerifyPaymentResult> {
+        throw new ValidationError('Subscriptions are not supported by PhonePe');
+    }
+
+    async getSubscriptionStatus(): Promise<SubscriptionStatusResult> {
+        throw new ValidationError('Subscriptions are not supported by PhonePe');
+    }
+
+    async cancelSubscription(): Promise<void> {
+        throw new ValidationError('Subscriptions are not supported by PhonePe');
+    }
 }
 
+/**
+ * Export a single instance of the PhonePe provider
+ * We use the same instance everywhere (singleton pattern)
+ */
 export const phonepeProvider = new PhonePeProvider();
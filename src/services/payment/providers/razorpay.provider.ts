@@ -8,7 +8,17 @@ import {
     CreateOrderParams,
     CreateOrderResult,
     VerifyPaymentParams,
-    VerifyPaymentResult
+    VerifyPaymentResult,
+    RefundPaymentParams,
+    RefundPaymentResult,
+    WebhookParams,
+    WebhookEvent,
+    PaymentStatusResult,
+    CreateSubscriptionPlanParams,
+    CreateSubscriptionParams,
+    CreateSubscriptionResult,
+    VerifySubscriptionPaymentParams,
+    SubscriptionStatusResult
 } from "../payment.types";
 
 /**
@@ -24,6 +34,9 @@ import {
  * 1. Get Razorpay credentials from environment
  * 2. Create orders using Razorpay SDK
  * 3. Verify payments using crypto signatures
+ * 4. Refund captured payments
+ * 5. Verify webhooks using the webhook secret
+ * 6. Bill membership plans with Razorpay Subscriptions
  */
 
 /**
@@ -151,7 +164,9 @@ class RazorpayProvider implements IPaymentProvider {
                 amount: Number(razorpayOrder.amount),
                 currency: razorpayOrder.currency,
                 gatewayKeyId: keyId,
-                provider: PaymentProvider.RAZORPAY
+                provider: PaymentProvider.RAZORPAY,
+                paymentSessionId: null,
+                redirectUrl: null
             };
 
         } catch (error: any) {
@@ -214,12 +229,365 @@ class RazorpayProvider implements IPaymentProvider {
     }
 
     /**
-     * Method 3: Get provider name
+     * Method 3: Refund payment
+     *
+     * Razorpay refunds a PAYMENT (not an order) and accepts partial amounts.
+     * Multiple partial refunds are allowed until the captured amount is used up.
+     */
+    async refundPayment(params: RefundPaymentParams): Promise<RefundPaymentResult> {
+        if (!params.amount || params.amount <= 0) {
+            logger.error('[Razorpay] Invalid refund amount provided:', params.amount);
+            throw new ValidationError('Refund amount must be greater than zero');
+        }
+
+        const client = createRazorpayClient();
+
+        // Razorpay wants amount in PAISE (1 rupee = 100 paise)
+        const amountInPaise = Math.round(params.amount * 100);
+
+        try {
+            const refund = await client.payments.refund(params.gatewayPaymentId, {
+                amount: amountInPaise,
+                notes: {
+                    internal_order_id: String(params.orderId),
+                    reason: params.reason || "Refund issued by admin"
+                }
+            });
+
+            logger.info('[Razorpay] Refund created successfully:', {
+                refundId: refund.id,
+                paymentId: params.gatewayPaymentId,
+                amount: refund.amount,
+                status: refund.status
+            });
+
+            return {
+                gatewayRefundId: refund.id,
+                status: refund.status === "processed" ? "PROCESSED" : "PENDING"
+            };
+        } catch (error: any) {
+            logger.error('[Razorpay] Refund failed - Full error details:', {
+                description: error.description || error.error?.description || 'No description',
+                message: error.message || 'No message',
+                statusCode: error.statusCode || 'No status code',
+                paymentId: params.gatewayPaymentId
+            });
+
+            const errorMessage = error.error?.description || error.description || error.message || 'Unknown Razorpay error occurred';
+            throw new InternalError(`Razorpay refund failed: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Method 4: Parse webhook
+     *
+     * Razorpay signs the RAW request body with the webhook secret
+     * (configured in Razorpay Dashboard -> Webhooks, NOT the API secret)
+     * and sends it in the "x-razorpay-signature" header.
+     *
+     * Events we care about:
+     * - payment.captured / order.paid                  -> PAYMENT_SUCCESS
+     * - payment.failed                                 -> PAYMENT_FAILED
+     * - subscription.activated / subscription.charged  -> SUBSCRIPTION_CHARGED
+     * - subscription.pending / subscription.halted     -> SUBSCRIPTION_HALTED
+     * - subscription.cancelled / subscription.completed -> SUBSCRIPTION_ENDED
+     */
+    async parseWebhook(params: WebhookParams): Promise<WebhookEvent> {
+        const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+        if (!webhookSecret || webhookSecret.trim() === '') {
+            logger.error('[Razorpay] RAZORPAY_WEBHOOK_SECRET is missing or empty in environment variables');
+            throw new InternalError('Razorpay webhook secret not configured');
+        }
+
+        const invalid: WebhookEvent = {
+            isValid: false,
+            type: "IGNORED",
+            gatewayOrderId: null,
+            gatewayPaymentId: null,
+            rawEvent: "unknown"
+        };
+
+        // STEP 1: Verify signature over the raw body
+        const signature = params.headers["x-razorpay-signature"];
+        if (typeof signature !== "string") {
+            logger.warn('[Razorpay] Webhook received without signature header');
+            return invalid;
+        }
+
+        const expectedSignature = crypto
+            .createHmac("sha256", webhookSecret)
+            .update(params.rawBody)
+            .digest("hex");
+
+        const isValid = expectedSignature.length === signature.length &&
+            crypto.timingSafeEqual(Buffer.from(expectedSignature), Buffer.from(signature));
+
+        if (!isValid) {
+            logger.warn('[Razorpay] Invalid webhook signature');
+            return invalid;
+        }
+
+        // STEP 2: Extract order/payment IDs from the payload
+        const payload = JSON.parse(params.rawBody);
+        const event: string = payload.event || "unknown";
+        const payment = payload.payload?.payment?.entity;
+        const order = payload.payload?.order?.entity;
+        const subscription = payload.payload?.subscription?.entity;
+
+        if (subscription?.id && event.startsWith("subscription.")) {
+            let subscriptionType: WebhookEvent["type"] = "IGNORED";
+            if (event === "subscription.activated" || event === "subscription.charged") {
+                subscriptionType = "SUBSCRIPTION_CHARGED";
+            } else if (event === "subscription.pending" || event === "subscription.halted") {
+                subscriptionType = "SUBSCRIPTION_HALTED";
+            } else if (event === "subscription.cancelled" || event === "subscription.completed") {
+                subscriptionType = "SUBSCRIPTION_ENDED";
+            }
+
+            logger.info(`[Razorpay] Webhook verified: ${event}`);
+
+            return {
+                isValid: true,
+                type: subscriptionType,
+                gatewayOrderId: null,
+                gatewayPaymentId: payment?.id || null,
+                rawEvent: event,
+                subscription: {
+                    gatewaySubscriptionId: subscription.id,
+                    currentPeriodEnd: subscription.current_end ? new Date(subscription.current_end * 1000) : null,
+                    amount: payment?.amount ?? null,
+                    currency: payment?.currency ?? null
+                }
+            };
+        }
+
+        let type: WebhookEvent["type"] = "IGNORED";
+        if (event === "payment.captured" || event === "order.paid") {
+            type = "PAYMENT_SUCCESS";
+        } else if (event === "payment.failed") {
+            type = "PAYMENT_FAILED";
+        }
+
+        logger.info(`[Razorpay] Webhook verified: ${event}`);
+
+        return {
+            isValid: true,
+            type,
+            gatewayOrderId: payment?.order_id || order?.id || null,
+            gatewayPaymentId: payment?.id || null,
+            rawEvent: event
+        };
+    }
+
+    /**
+     * Method 5: Get payment status
+     *
+     * Looks at every payment attempt made against the order.
+     * "authorized" means Razorpay has the money but has not captured it yet.
+     */
+    async getPaymentStatus(gatewayOrderId: string): Promise<PaymentStatusResult> {
+        const client = createRazorpayClient();
+
+        try {
+            const { items } = await client.orders.fetchPayments(gatewayOrderId);
+
+            const captured = items.find(p => p.status === "captured");
+            if (captured) {
+                return { status: "PAID", gatewayPaymentId: captured.id };
+            }
+
+            if (items.some(p => p.status === "authorized")) {
+                return { status: "PENDING", gatewayPaymentId: null };
+            }
+
+            return { status: "UNPAID", gatewayPaymentId: null };
+        } catch (error: any) {
+            logger.error('[Razorpay] Payment status check failed:', {
+                message: error.error?.description || error.message,
+                statusCode: error.statusCode || 'No status code',
+                orderId: gatewayOrderId
+            });
+
+            throw new InternalError(`Razorpay status check failed: ${error.error?.description || error.message}`);
+        }
+    }
+
+    /**
+     * Method 6: Get provider name
      * Simple - just returns "RAZORPAY"
      */
     getProviderName(): PaymentProvider {
         return PaymentProvider.RAZORPAY;
     }
+
+    /**
+     * Method 6b: Currencies Razorpay can charge (non-INR needs international payments enabled)
+     */
+    getSupportedCurrencies(): string[] {
+        return ["INR", "USD", "EUR"];
+    }
+
+    /**
+     * Method 7: Create a subscription plan
+     *
+     * Razorpay plans are immutable - a price change means a new plan.
+     */
+    async createSubscriptionPlan(params: CreateSubscriptionPlanParams): Promise<string> {
+        if (!params.amount || params.amount <= 0) {
+            logger.error('[Razorpay] Invalid plan amount provided:', params.amount);
+            throw new ValidationError('Plan amount must be greater than zero');
+        }
+
+        const client = createRazorpayClient();
+
+        try {
+            const plan = await client.plans.create({
+                period: params.interval === "YEARLY" ? "yearly" : "monthly",
+                interval: 1,
+                item: {
+                    name: params.name,
+                    // Razorpay wants amount in PAISE (1 rupee = 100 paise)
+                    amount: Math.round(params.amount * 100),
+                    currency: params.currency,
+                    ...(params.description ? { description: params.description } : {})
+                }
+            });
+
+            logger.info(`[Razorpay] Plan created: ${plan.id} (${params.interval})`);
+            return plan.id;
+        } catch (error: any) {
+            logger.error('[Razorpay] Plan creation failed:', {
+                message: error.error?.description || error.message,
+                statusCode: error.statusCode || 'No status code'
+            });
+
+            throw new InternalError(`Razorpay plan creation failed: ${error.error?.description || error.message}`);
+        }
+    }
+
+    /**
+     * Method 8: Create a subscription
+     *
+     * The customer authorises it in Razorpay checkout (subscription_id instead
+     * of order_id); Razorpay then charges every cycle on its own.
+     */
+    async createSubscription(params: CreateSubscriptionParams): Promise<CreateSubscriptionResult> {
+        const client = createRazorpayClient();
+        const { keyId } = getRazorpayConfig();
+
+        try {
+            const subscription = await client.subscriptions.create({
+                plan_id: params.gatewayPlanId,
+                total_count: params.totalCount,
+                customer_notify: 1,
+                notes: {
+                    internal_user_id: String(params.userId),
+                    user_email: params.userEmail
+                }
+            });
+
+            logger.info(`[Razorpay] Subscription created: ${subscription.id}`);
+
+            return {
+                gatewaySubscriptionId: subscription.id,
+                gatewayKeyId: keyId,
+                provider: PaymentProvider.RAZORPAY,
+                shortUrl: subscription.short_url || null
+            };
+        } catch (error: any) {
+            logger.error('[Razorpay] Subscription creation failed:', {
+                message: error.error?.description || error.message,
+                statusCode: error.statusCode || 'No status code',
+                planId: params.gatewayPlanId
+            });
+
+            throw new InternalError(`Razorpay subscription creation failed: ${error.error?.description || error.message}`);
+        }
+    }
+
+    /**
+     * Method 9: Verify subscription payment
+     *
+     * Same idea as Method 2, but Razorpay signs payment_id + subscription_id
+     * (in that order).
+     */
+    async verifySubscriptionPayment(params: VerifySubscriptionPaymentParams): Promise<VerifyPaymentResult> {
+        const { keySecret } = getRazorpayConfig();
+
+        const body = `${params.gatewayPaymentId}|${params.gatewaySubscriptionId}`;
+        const expectedSignature = crypto
+            .createHmac("sha256", keySecret)
+            .update(body)
+            .digest("hex");
+
+        const isValid = expectedSignature === params.gatewaySignature;
+
+        if (isValid) {
+            logger.info(`[Razorpay] Subscription payment verified: ${params.gatewayPaymentId}`);
+        } else {
+            logger.warn(`[Razorpay] Invalid signature for subscription payment: ${params.gatewayPaymentId}`);
+        }
+
+        return {
+            isValid,
+            paymentId: params.gatewayPaymentId,
+            signature: params.gatewaySignature
+        };
+    }
+
+    /**
+     * Method 10: Get subscription status
+     *
+     * "authenticated" means the mandate is set up but the first charge is
+     * still due; "pending" means a renewal charge is being retried.
+     */
+    async getSubscriptionStatus(gatewaySubscriptionId: string): Promise<SubscriptionStatusResult> {
+        const client = createRazorpayClient();
+
+        try {
+            const subscription = await client.subscriptions.fetch(gatewaySubscriptionId);
+            const currentPeriodEnd = subscription.current_end ? new Date(subscription.current_end * 1000) : null;
+
+            if (subscription.status === "active") {
+                return { status: "ACTIVE", currentPeriodEnd };
+            }
+
+            if (["created", "authenticated", "pending", "halted"].includes(subscription.status)) {
+                return { status: "PENDING", currentPeriodEnd };
+            }
+
+            return { status: "ENDED", currentPeriodEnd };
+        } catch (error: any) {
+            logger.error('[Razorpay] Subscription status check failed:', {
+                message: error.error?.description || error.message,
+                statusCode: error.statusCode || 'No status code',
+                subscriptionId: gatewaySubscriptionId
+            });
+
+            throw new InternalError(`Razorpay subscription status check failed: ${error.error?.description || error.message}`);
+        }
+    }
+
+    /**
+     * Method 11: Cancel subscription
+     */
+    async cancelSubscription(gatewaySubscriptionId: string, atCycleEnd: boolean): Promise<void> {
+        const client = createRazorpayClient();
+
+        try {
+            await client.subscriptions.cancel(gatewaySubscriptionId, atCycleEnd);
+            logger.info(`[Razorpay] Subscription ${gatewaySubscriptionId} cancelled${atCycleEnd ? ' at cycle end' : ''}`);
+        } catch (error: any) {
+            logger.error('[Razorpay] Subscription cancellation failed:', {
+                message: error.error?.description || error.message,
+                statusCode: error.statusCode || 'No status code',
+                subscriptionId: gatewaySubscriptionId
+            });
+
+            throw new InternalError(`Razorpay subscription cancellation failed: ${error.error?.description || error.message}`);
+        }
+    }
 }
 
 /**
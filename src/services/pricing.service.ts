@@ -0,0 +1,183 @@
+// Pricing Service - Course prices in the student's currency
+// Course.price is in the base currency; other currencies use a fixed
+// CoursePrice when the admin set one, otherwise the admin-managed FX rate
+
+import { prisma } from "../prisma";
+import { logger } from "../config/logger.config";
+import { NotFoundError, ValidationError } from "../utils/api_error.utils";
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from "../utils/currency.utils";
+import { convertMinorUnits } from "../utils/money.utils";
+import { getPaymentProvider } from "./payment/payment.factory";
+
+// A course's price in one currency (minor units)
+export interface LocalCoursePrice {
+    price: number;
+    originalPrice: number | null;
+}
+
+export interface PriceQuote {
+    currency: string;
+    exchangeRate: number; // base currency units per unit of `currency` (stored on the Order)
+    prices: Map<number, LocalCoursePrice>;
+}
+
+/**
+ * The currency a user is quoted and checks out in
+ * Their preferred currency only when the active gateway can charge it and it
+ * has an exchange rate, otherwise the base currency - so a student is never
+ * shown a price they cannot pay.
+ */
+export const getCheckoutCurrency = async (userId: number): Promise<string> => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { preferredCurrency: true }
+    });
+
+    const currency = user?.preferredCurrency?.toUpperCase();
+    if (!currency || currency === BASE_CURRENCY || !SUPPORTED_CURRENCIES.includes(currency)) {
+        return BASE_CURRENCY;
+    }
+
+    const paymentGateway = await getPaymentProvider();
+    if (!paymentGateway.getSupportedCurrencies().includes(currency)) {
+        return BASE_CURRENCY;
+    }
+
+    const rate = await prisma.exchangeRate.findUnique({ where: { currency } });
+    return rate && rate.baseRate > 0 ? currency : BASE_CURRENCY;
+};
+
+/**
+ * Price a set of courses in one currency
+ * Free courses stay free in every currency.
+ *
+ * @throws ValidationError if the currency has no exchange rate yet
+ */
+export const quoteCoursePrices = async (
+    courses: { id: number; price: number; originalPrice: number | null }[],
+    currency: string
+): Promise<PriceQuote> => {
+    const prices = new Map<number, LocalCoursePrice>();
+
+    if (currency === BASE_CURRENCY) {
+        courses.forEach(c => prices.set(c.id, { price: c.price, originalPrice: c.originalPrice }));
+        return { currency, exchangeRate: 1, prices };
+    }
+
+    // The rate is needed even with fixed prices - analytics report in the base currency
+    const rate = await prisma.exchangeRate.findUnique({ where: { currency } });
+    if (!rate || rate.baseRate <= 0) {
+        logger.warn(`[Pricing] No exchange rate for ${currency}`);
+        throw new ValidationError(`Payments in ${currency} are not available right now.`);
+    }
+
+    const listed = await prisma.coursePrice.findMany({
+        where: { currency, courseId: { in: courses.map(c => c.id) } }
+    });
+    const listedByCourse = new Map(listed.map(p => [p.courseId, p]));
+
+    for (const course of courses) {
+        const fixed = listedByCourse.get(course.id);
+
+        if (course.price === 0) {
+            prices.set(course.id, { price: 0, originalPrice: fixed?.originalPrice ?? null });
+        } else if (fixed) {
+            prices.set(course.id, { price: fixed.price, originalPrice: fixed.originalPrice });
+        } else {
+            prices.set(course.id, {
+                price: convertMinorUnits(course.price, 1 / rate.baseRate),
+                originalPrice: course.originalPrice !== null ? convertMinorUnits(course.originalPrice, 1 / rate.baseRate) : null
+            });
+        }
+    }
+
+    return { currency, exchangeRate: rate.baseRate, prices };
+};
+
+/**
+ * Price a bundle in one currency
+ * The bundle price is converted with the exchange rate (bundles have no fixed
+ * prices per currency); its courses are quoted as if bought one by one.
+ */
+export const quoteBundlePrice = async (
+    bundle: { price: number; courses: { id: number; price: number; originalPrice: number | null }[] },
+    currency: string
+): Promise<PriceQuote & { bundlePrice: number }> => {
+    const quote = await quoteCoursePrices(bundle.courses, currency);
+    return { ...quote, bundlePrice: convertMinorUnits(bundle.price, 1 / quote.exchangeRate) };
+};
+
+/**
+ * Get all admin-managed exchange rates
+ */
+export const getExchangeRates = async () => {
+    const rates = await prisma.exchangeRate.findMany({ orderBy: { currency: "asc" } });
+    return { baseCurrency: BASE_CURRENCY, supportedCurrencies: SUPPORTED_CURRENCIES, rates };
+};
+
+/**
+ * Set the rate for one currency (Admin)
+ * Only affects new checkouts - existing orders keep the rate they were paid at
+ */
+export const setExchangeRate = async (currency: string, baseRate: number, adminId: number) => {
+    const code = currency.trim().toUpperCase();
+
+    if (code === BASE_CURRENCY) {
+        throw new ValidationError(`${BASE_CURRENCY} is the base currency and always has a rate of 1.`);
+    }
+
+    if (!SUPPORTED_CURRENCIES.includes(code)) {
+        throw new ValidationError(`Unsupported currency. Must be one of: ${SUPPORTED_CURRENCIES.join(", ")}`);
+    }
+
+    const rate = await prisma.exchangeRate.upsert({
+        where: { currency: code },
+        create: { currency: code, baseRate, updatedById: adminId },
+        update: { baseRate, updatedById: adminId }
+    });
+
+    logger.info(`[Pricing] Admin:${adminId} set 1 ${code} = ${baseRate} ${BASE_CURRENCY}`);
+    return rate;
+};
+
+/**
+ * Replace a course's fixed prices in other currencies (Admin)
+ * Currencies left out fall back to the exchange rate again.
+ * Prices are in minor units.
+ */
+export const setCoursePrices = async (
+    courseId: number,
+    prices: { currency: string; price: number; originalPrice?: number | undefined }[]
+) => {
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: { id: true } });
+    if (!course) {
+        throw new NotFoundError("Course not found.");
+    }
+
+    const currencies = prices.map(p => p.currency.trim().toUpperCase());
+
+    if (currencies.some(c => c === BASE_CURRENCY || !SUPPORTED_CURRENCIES.includes(c))) {
+        throw new ValidationError(`Prices can only be set for: ${SUPPORTED_CURRENCIES.filter(c => c !== BASE_CURRENCY).join(", ")}`);
+    }
+
+    if (new Set(currencies).size !== currencies.length) {
+        throw new ValidationError("Each currency can only be listed once.");
+    }
+
+    return await prisma.$transaction(async (tx) => {
+        await tx.coursePrice.deleteMany({ where: { courseId } });
+
+        for (const [index, entry] of prices.entries()) {
+            await tx.coursePrice.create({
+                data: {
+                    courseId,
+                    currency: currencies[index]!, // Non-null: same length as prices
+                    price: entry.price,
+                    originalPrice: entry.originalPrice ?? null
+                }
+            });
+        }
+
+        return await tx.coursePrice.findMany({ where: { courseId }, orderBy: { currency: "asc" } });
+    });
+};
@@ -1,43 +1,129 @@
+import crypto from 'crypto';
+import { Role } from '@prisma/client';
 import { prisma } from '../prisma';
 import { redis } from '../config/redis.config';
+import { logger } from '../config/logger.config';
+import { describeDevice } from '../utils/device.utils';
 
 const SESSION_KEY = 'session:';
 const SESSION_TTL = 604800; // 7 days in seconds exact as refresh token
+const ACTIVITY_KEY = 'session_activity:';
+const ACTIVITY_THROTTLE = 300; // write lastUsedAt to db at most every 5 minutes
 
-// create new session and invalidate all previous sessions for the user
-export const createSession = async (userId: number): Promise<string> => {
-  // find old sessions to clear from cache
-  const oldSessions = await prisma.session.findMany({
-    where: { userId, isActive: true },
-    select: { id: true }
-  });
+// how many devices can be logged in at once, per role
+const SESSION_LIMITS: Record<Role, number> = {
+  STUDENT: Number(process.env.SESSION_LIMIT_STUDENT) || 3,
+  ADMIN: Number(process.env.SESSION_LIMIT_ADMIN) || 2
+};
 
-  // clear old sessions from redis
-  for (const s of oldSessions) {
-    await redis.del(SESSION_KEY + s.id);
-  }
+// the device a login comes from
+export interface SessionClient {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+}
 
-  const session = await prisma.$transaction(async (tx) => {
-    // invalidate all existing active sessions in db
-    await tx.session.updateMany({
+// sessions unused for longer than the refresh token lives are dead anyway
+const staleBefore = () => new Date(Date.now() - SESSION_TTL * 1000);
+
+// create new session, logging out the least recently used devices over the role's limit
+export const createSession = async (userId: number, role: Role, client: SessionClient = {}): Promise<string> => {
+  const { session, evictedIds } = await prisma.$transaction(async (tx) => {
+    const activeSessions = await tx.session.findMany({
       where: { userId, isActive: true },
-      data: { isActive: false }
+      select: { id: true, lastUsedAt: true },
+      orderBy: { lastUsedAt: 'desc' }
     });
-    
+
+    // keep room for the new session, plus drop sessions that expired on their own
+    const cutoff = staleBefore();
+    const live = activeSessions.filter(s => s.lastUsedAt >= cutoff);
+    const evictedIds = [
+      ...activeSessions.filter(s => s.lastUsedAt < cutoff),
+      ...live.slice(Math.max(SESSION_LIMITS[role] - 1, 0))
+    ].map(s => s.id);
+
+    if (evictedIds.length > 0) {
+      await tx.session.updateMany({
+        where: { id: { in: evictedIds } },
+        data: { isActive: false }
+      });
+    }
+
     // create new session
     const newSession = await tx.session.create({
-      data: { userId, isActive: true }
+      data: {
+        userId,
+        isActive: true,
+        deviceName: describeDevice(client.userAgent),
+        userAgent: client.userAgent?.slice(0, 512) ?? null,
+        ipAddress: client.ipAddress ?? null
+      }
     });
-    
-    return newSession;
+
+    return { session: newSession, evictedIds };
   });
 
+  // clear logged out sessions from redis
+  for (const id of evictedIds) {
+    await redis.del(SESSION_KEY + id);
+  }
+
   // cache the new session
   await redis.set(SESSION_KEY + session.id, '1', 'EX', SESSION_TTL);
   
   return session.id;
 };
 
+const hashTokenId = (jti: string) => crypto.createHash('sha256').update(jti).digest('hex');
+
+// new refresh token id for a session; any refresh token issued before it stops working
+export const issueRefreshTokenId = async (sessionId: string): Promise<string> => {
+  const jti = crypto.randomUUID();
+
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { refreshTokenHash: hashTokenId(jti) }
+  });
+
+  return jti;
+};
+
+// swap the presented refresh token id for a new one
+// an id that is not the current one was already used: the token was copied,
+// so the whole session is revoked and null returned (user must login again)
+export const rotateRefreshTokenId = async (sessionId: string, presentedJti: string | undefined): Promise<string | null> => {
+  const jti = crypto.randomUUID();
+
+  // compare-and-swap, so two requests with the same token cannot both rotate it
+  // (tokens from before rotation have no id - accepted once if the session has none either)
+  const rotated = await prisma.session.updateMany({
+    where: { id: sessionId, isActive: true, refreshTokenHash: presentedJti ? hashTokenId(presentedJti) : null },
+    data: { refreshTokenHash: hashTokenId(jti) }
+  });
+
+  if (rotated.count === 1) {
+    return jti;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, ipAddress: true, deviceName: true }
+  });
+  logger.warn(`Refresh token reuse detected for Session:${sessionId} User:${session?.userId} (${session?.deviceName ?? 'unknown device'}, ${session?.ipAddress ?? 'unknown ip'}) - possible token theft, session revoked`);
+
+  await invalidateSession(sessionId);
+  return null;
+};
+
+// active sessions of a user for the device list, most recently used first
+export const getActiveSessions = async (userId: number) => {
+  return await prisma.session.findMany({
+    where: { userId, isActive: true, lastUsedAt: { gte: staleBefore() } },
+    select: { id: true, deviceName: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+};
+
 // validate if a session is still active
 // checks redis first then db as fallback
 export const validateSession = async (sessionId: string): Promise<boolean> => {
@@ -67,6 +153,15 @@ export const updateSessionActivity = async (sessionId: string): Promise<void> =>
   try {
     // extend redis ttl
     await redis.expire(SESSION_KEY + sessionId, SESSION_TTL);
+
+    // record activity in db, throttled so every request does not write
+    const due = await redis.set(ACTIVITY_KEY + sessionId, '1', 'EX', ACTIVITY_THROTTLE, 'NX');
+    if (due) {
+      await prisma.session.updateMany({
+        where: { id: sessionId, isActive: true },
+        data: { lastUsedAt: new Date() }
+      });
+    }
   } catch {
     // ignore errors
   }
@@ -88,10 +183,13 @@ export const invalidateSession = async (sessionId: string): Promise<void> => {
 };
 
 // invalidate all sessions for a user like password change or security
-export const invalidateAllSessions = async (userId: number): Promise<void> => {
+// pass the current session to log out every other device only
+export const invalidateAllSessions = async (userId: number, exceptSessionId?: string): Promise<number> => {
+  const where = exceptSessionId ? { userId, id: { not: exceptSessionId } } : { userId };
+
   // find all sessions to clear from cache
   const sessions = await prisma.session.findMany({
-    where: { userId, isActive: true },
+    where: { ...where, isActive: true },
     select: { id: true }
   });
 
@@ -102,9 +200,11 @@ export const invalidateAllSessions = async (userId: number): Promise<void> => {
 
   // clear from db
   await prisma.session.updateMany({
-    where: { userId },
+    where,
     data: { isActive: false }
   });
+
+  return sessions.length;
 };
 
 
@@ -0,0 +1,379 @@
+// Subscription Service - Monthly / yearly membership plans
+// A live subscription unlocks every published course (or one category's)
+// until currentPeriodEnd; the gateway renews it and tells us through webhooks
+
+import { PlanInterval, Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { logger } from "../config/logger.config";
+import { NotFoundError, ValidationError } from "../utils/api_error.utils";
+import { BASE_CURRENCY } from "../utils/currency.utils";
+import { toMajorUnits } from "../utils/money.utils";
+import { getPaymentProvider, getPaymentProviderByName } from "./payment/payment.factory";
+import { WebhookEvent } from "./payment/payment.types";
+
+// Billing cycles a subscription runs for before the gateway ends it (~10 years)
+const TOTAL_BILLING_CYCLES: Record<PlanInterval, number> = {
+    MONTHLY: 120,
+    YEARLY: 10
+};
+
+// Statuses that may still be inside a paid period (CANCELLED runs until its period ends)
+const PAID_STATUSES = ["ACTIVE", "PAST_DUE", "CANCELLED"] as const;
+
+export interface CreatePlanInput {
+    name: string;
+    description: string | null;
+    interval: PlanInterval;
+    price: number; // minor units of the base currency
+    categoryId: number | null;
+}
+
+/**
+ * Create a plan on the active gateway, then store it (Admin)
+ * Gateways treat plans as immutable, so the price can never be edited later.
+ */
+export const createPlan = async (input: CreatePlanInput) => {
+    const name = input.name.trim();
+
+    const existing = await prisma.subscriptionPlan.findUnique({ where: { name } });
+    if (existing) {
+        throw new ValidationError("A plan with this name already exists.");
+    }
+
+    if (input.categoryId !== null) {
+        const category = await prisma.category.findUnique({ where: { id: input.categoryId } });
+        if (!category) {
+            throw new NotFoundError("Category not found.");
+        }
+    }
+
+    const paymentGateway = await getPaymentProvider();
+    const gatewayPlanId = await paymentGateway.createSubscriptionPlan({
+        name,
+        description: input.description,
+        interval: input.interval,
+        amount: toMajorUnits(input.price),
+        currency: BASE_CURRENCY
+    });
+
+    const plan = await prisma.subscriptionPlan.create({
+        data: {
+            name,
+            description: input.description,
+            interval: input.interval,
+            price: input.price,
+            categoryId: input.categoryId,
+            provider: paymentGateway.getProviderName(),
+            gatewayPlanId
+        },
+        include: { category: { select: { id: true, name: true } } }
+    });
+
+    logger.info(`[Subscription] Plan ${plan.id} created on ${plan.provider} (${gatewayPlanId})`);
+    return plan;
+};
+
+/**
+ * Rename, describe or retire a plan (Admin)
+ * Retired plans take no new subscribers; existing ones keep renewing.
+ */
+export const updatePlan = async (
+    planId: number,
+    input: { name?: string | undefined; description?: string | null | undefined; isActive?: boolean | undefined }
+) => {
+    const plan = await prisma.subscriptionPlan.findUnique({ where: { id: planId } });
+    if (!plan) {
+        throw new NotFoundError("Plan not found.");
+    }
+
+    const name = input.name?.trim();
+    if (name && name !== plan.name) {
+        const sameName = await prisma.subscriptionPlan.findUnique({ where: { name } });
+        if (sameName) {
+            throw new ValidationError("A plan with this name already exists.");
+        }
+    }
+
+    return await prisma.subscriptionPlan.update({
+        where: { id: planId },
+        data: {
+            ...(name ? { name } : {}),
+            ...(input.description !== undefined ? { description: input.description } : {}),
+            ...(input.isActive !== undefined ? { isActive: input.isActive } : {})
+        },
+        include: { category: { select: { id: true, name: true } } }
+    });
+};
+
+/**
+ * Plans, cheapest first (students only see active ones)
+ */
+export const listPlans = async (includeInactive: boolean) => {
+    return await prisma.subscriptionPlan.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        include: { category: { select: { id: true, name: true } } },
+        orderBy: [{ price: "asc" }, { name: "asc" }]
+    });
+};
+
+/**
+ * The user's subscriptions, newest first
+ */
+export const getUserSubscriptions = async (userId: number) => {
+    return await prisma.subscription.findMany({
+        where: { userId },
+        include: {
+            plan: { include: { category: { select: { id: true, name: true } } } },
+            payments: { orderBy: { paidAt: "desc" } }
+        },
+        orderBy: { createdAt: "desc" }
+    });
+};
+
+/**
+ * Start a subscription - the student authorises it in the gateway checkout
+ * and then calls verifySubscription.
+ */
+export const startSubscription = async (userId: number, planId: number) => {
+    const plan = await prisma.subscriptionPlan.findUnique({ where: { id: planId } });
+    if (!plan || !plan.isActive) {
+        throw new NotFoundError("Plan not found.");
+    }
+
+    const current = await prisma.subscription.findFirst({
+        where: {
+            userId,
+            planId,
+            OR: [
+                { status: { in: ["ACTIVE", "PAST_DUE"] } },
+                { status: "CANCELLED", currentPeriodEnd: { gt: new Date() } }
+            ]
+        }
+    });
+    if (current) {
+        throw new ValidationError("You already have this membership.");
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (!user) {
+        throw new NotFoundError("User not found.");
+    }
+
+    // The plan lives on the gateway it was created on, whatever is active now
+    const paymentGateway = await getPaymentProviderByName(plan.provider);
+    const gatewaySubscription = await paymentGateway.createSubscription({
+        gatewayPlanId: plan.gatewayPlanId,
+        totalCount: TOTAL_BILLING_CYCLES[plan.interval],
+        userId,
+        userEmail: user.email
+    });
+
+    const subscription = await prisma.subscription.create({
+        data: {
+            userId,
+            planId,
+            provider: plan.provider,
+            gatewaySubscriptionId: gatewaySubscription.gatewaySubscriptionId
+        }
+    });
+
+    logger.info(`[Subscription] User:${userId} started subscription ${subscription.id} on plan ${planId}`);
+
+    return {
+        subscriptionId: subscription.id,
+        gatewaySubscriptionId: gatewaySubscription.gatewaySubscriptionId,
+        gatewayKeyId: gatewaySubscription.gatewayKeyId,
+        provider: gatewaySubscription.provider,
+        shortUrl: gatewaySubscription.shortUrl,
+        plan: { id: plan.id, name: plan.name, interval: plan.interval, price: plan.price, currency: BASE_CURRENCY }
+    };
+};
+
+/**
+ * Record one paid cycle (no-op if the gateway payment was already recorded)
+ */
+const recordSubscriptionPayment = async (
+    tx: Prisma.TransactionClient,
+    subscriptionId: number,
+    payment: { gatewayPaymentId: string; amount: number; currency: string }
+) => {
+    await tx.subscriptionPayment.upsert({
+        where: { gatewayPaymentId: payment.gatewayPaymentId },
+        create: { subscriptionId, ...payment },
+        update: {}
+    });
+};
+
+/**
+ * Confirm the authorisation payment and unlock the membership
+ */
+export const verifySubscription = async (
+    userId: number,
+    params: { gatewaySubscriptionId: string; gatewayPaymentId: string; gatewaySignature: string }
+) => {
+    const subscription = await prisma.subscription.findUnique({
+        where: { gatewaySubscriptionId: params.gatewaySubscriptionId },
+        include: { plan: true }
+    });
+
+    if (!subscription || subscription.userId !== userId) {
+        throw new NotFoundError("Subscription not found.");
+    }
+
+    const paymentGateway = await getPaymentProviderByName(subscription.provider);
+    const verification = await paymentGateway.verifySubscriptionPayment(params);
+    if (!verification.isValid) {
+        throw new ValidationError("Invalid payment signature.");
+    }
+
+    const gatewayStatus = await paymentGateway.getSubscriptionStatus(params.gatewaySubscriptionId);
+
+    if (gatewayStatus.status !== "ACTIVE" || !gatewayStatus.currentPeriodEnd) {
+        // Authorised but not charged yet - the charge webhook activates it
+        logger.info(`[Subscription] ${subscription.id} authorised, waiting for the first charge`);
+        return { activated: false, subscription };
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+        await recordSubscriptionPayment(tx, subscription.id, {
+            gatewayPaymentId: params.gatewayPaymentId,
+            amount: subscription.plan.price,
+            currency: BASE_CURRENCY
+        });
+
+        return await tx.subscription.update({
+            where: { id: subscription.id },
+            data: { status: "ACTIVE", currentPeriodEnd: gatewayStatus.currentPeriodEnd }
+        });
+    });
+
+    logger.info(`[Subscription] ${subscription.id} active until ${updated.currentPeriodEnd?.toISOString()}`);
+    return { activated: true, subscription: updated };
+};
+
+/**
+ * Cancel a subscription
+ * A paid subscription keeps its access until the current period ends;
+ * one that was never paid is cancelled straight away.
+ */
+export const cancelSubscription = async (userId: number, subscriptionId: number) => {
+    const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+
+    if (!subscription || subscription.userId !== userId) {
+        throw new NotFoundError("Subscription not found.");
+    }
+
+    if (subscription.status === "CANCELLED" || subscription.status === "EXPIRED" || subscription.cancelAtPeriodEnd) {
+        throw new ValidationError("This subscription is already cancelled.");
+    }
+
+    const isPaid = subscription.status !== "CREATED";
+    const paymentGateway = await getPaymentProviderByName(subscription.provider);
+    await paymentGateway.cancelSubscription(subscription.gatewaySubscriptionId, isPaid);
+
+    const updated = await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: isPaid
+            ? { cancelAtPeriodEnd: true, cancelledAt: new Date() }
+            : { status: "CANCELLED", cancelledAt: new Date() }
+    });
+
+    logger.info(`[Subscription] User:${userId} cancelled subscription ${subscription.id}`);
+    return updated;
+};
+
+/**
+ * Apply a subscription webhook (renewals, failed renewals, cancellations)
+ */
+export const applySubscriptionWebhook = async (event: WebhookEvent) => {
+    if (!event.subscription) {
+        return { success: true, message: "Event ignored." };
+    }
+
+    const subscription = await prisma.subscription.findUnique({
+        where: { gatewaySubscriptionId: event.subscription.gatewaySubscriptionId },
+        include: { plan: true }
+    });
+
+    if (!subscription) {
+        // Not ours (or another environment's) - acknowledge so the gateway stops retrying
+        logger.warn(`[Subscription] Webhook for unknown subscription: ${event.subscription.gatewaySubscriptionId}`);
+        return { success: true, message: "Subscription not found." };
+    }
+
+    const { currentPeriodEnd, amount, currency } = event.subscription;
+
+    switch (event.type) {
+        case "SUBSCRIPTION_CHARGED":
+            await prisma.$transaction(async (tx) => {
+                if (event.gatewayPaymentId) {
+                    await recordSubscriptionPayment(tx, subscription.id, {
+                        gatewayPaymentId: event.gatewayPaymentId,
+                        amount: amount ?? subscription.plan.price,
+                        currency: currency ?? BASE_CURRENCY
+                    });
+                }
+
+                await tx.subscription.update({
+                    where: { id: subscription.id },
+                    data: {
+                        status: "ACTIVE",
+                        ...(currentPeriodEnd ? { currentPeriodEnd } : {})
+                    }
+                });
+            });
+            logger.info(`[Subscription] ${subscription.id} renewed until ${currentPeriodEnd?.toISOString() ?? "unknown"}`);
+            return { success: true, message: "Subscription charge recorded." };
+
+        case "SUBSCRIPTION_HALTED":
+            // Access continues until the paid period runs out
+            await prisma.subscription.update({
+                where: { id: subscription.id },
+                data: { status: "PAST_DUE" }
+            });
+            logger.warn(`[Subscription] ${subscription.id} renewal failing (${event.rawEvent})`);
+            return { success: true, message: "Subscription marked past due." };
+
+        case "SUBSCRIPTION_ENDED":
+            await prisma.subscription.update({
+                where: { id: subscription.id },
+                data: {
+                    status: "CANCELLED",
+                    cancelledAt: subscription.cancelledAt ?? new Date()
+                }
+            });
+            logger.info(`[Subscription] ${subscription.id} ended (${event.rawEvent})`);
+            return { success: true, message: "Subscription ended." };
+
+        default:
+            return { success: true, message: "Event ignored." };
+    }
+};
+
+/**
+ * A subscription that currently unlocks this course, if any
+ * Only published courses are covered; category plans only cover their category.
+ */
+export const findCoveringSubscription = async (
+    userId: number,
+    course: { status: string; categoryId: number | null }
+) => {
+    if (course.status !== "PUBLISHED") {
+        return null;
+    }
+
+    return await prisma.subscription.findFirst({
+        where: {
+            userId,
+            status: { in: [...PAID_STATUSES] },
+            currentPeriodEnd: { gt: new Date() },
+            plan: {
+                OR: [
+                    { categoryId: null },
+                    ...(course.categoryId !== null ? [{ categoryId: course.categoryId }] : [])
+                ]
+            }
+        },
+        orderBy: { currentPeriodEnd: "desc" }
+    });
+};
@@ -0,0 +1,307 @@
+// Two-Factor Service - TOTP enrollment, recovery codes and the second login step
+// Optional for students, mandatory for admins (see isAdmin in auth.middleware)
+
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { prisma } from "../prisma";
+import { redis } from "../config/redis.config";
+import { logger } from "../config/logger.config";
+import { COMPANY } from "../COMPANY";
+import { AuthError, InternalError, NotFoundError, ValidationError } from "../utils/api_error.utils";
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from "../utils/totp.utils";
+import { assertLoginAllowed, recordLoginFailure } from "./login-protection.service";
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I
+
+const CHALLENGE_KEY = "2fa_challenge:";
+const CHALLENGE_ATTEMPTS_KEY = "2fa_challenge_attempts:";
+const CHALLENGE_TTL = 300; // 5 minutes to enter the code
+const CHALLENGE_MAX_ATTEMPTS = 5;
+const USED_STEP_KEY = "2fa_used:";
+const USED_STEP_TTL = 120; // covers the +-1 step window
+
+// The code from the authenticator app, or one of the recovery codes
+export interface TwoFactorCode {
+    code?: string | undefined;
+    recoveryCode?: string | undefined;
+}
+
+// ============================================
+// SECRET ENCRYPTION (AES-256-GCM)
+// ============================================
+
+const getEncryptionKey = () => {
+    const key = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+    if (!key) {
+        logger.error("[TwoFactor] TWO_FACTOR_ENCRYPTION_KEY is not set");
+        throw new InternalError("Two-factor authentication is not configured.");
+    }
+    return crypto.createHash("sha256").update(key).digest();
+};
+
+const encryptSecret = (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64")).join(":");
+};
+
+const decryptSecret = (stored: string): string => {
+    const [iv, tag, encrypted] = stored.split(":").map(part => Buffer.from(part, "base64"));
+    if (!iv || !tag || !encrypted) {
+        throw new InternalError("Stored two-factor secret is corrupt.");
+    }
+    const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+};
+
+// ============================================
+// CODES
+// ============================================
+
+// Codes are compared without dashes/spaces and case-insensitively
+const hashRecoveryCode = (code: string) =>
+    crypto.createHash("sha256").update(code.replace(/[^a-z0-9]/gi, "").toUpperCase()).digest("hex");
+
+const generateRecoveryCode = () => {
+    let code = "";
+    for (let i = 0; i < 10; i++) {
+        code += RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)];
+    }
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+// Replace all recovery codes of a user, returning the new ones (shown only once)
+const replaceRecoveryCodes = async (userId: number): Promise<string[]> => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await prisma.$transaction([
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        prisma.twoFactorRecoveryCode.createMany({
+            data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) }))
+        })
+    ]);
+
+    return codes;
+};
+
+// An app code is only accepted once, so a code seen over someone's shoulder is useless
+const checkAppCode = async (userId: number, encryptedSecret: string, code: string): Promise<boolean> => {
+    const step = verifyTotp(decryptSecret(encryptedSecret), code);
+    if (step === null) return false;
+
+    const firstUse = await redis.set(`${USED_STEP_KEY}${userId}:${step}`, "1", "EX", USED_STEP_TTL, "NX");
+    return firstUse !== null;
+};
+
+const checkRecoveryCode = async (userId: number, recoveryCode: string): Promise<boolean> => {
+    const used = await prisma.twoFactorRecoveryCode.updateMany({
+        where: { userId, codeHash: hashRecoveryCode(recoveryCode), usedAt: null },
+        data: { usedAt: new Date() }
+    });
+
+    if (used.count === 0) return false;
+
+    logger.info(`[TwoFactor] User:${userId} logged in with a recovery code`);
+    return true;
+};
+
+/**
+ * Check a second factor of a user with 2FA enabled
+ */
+export const verifyTwoFactorCode = async (
+    user: { id: number; twoFactorEnabled: boolean; twoFactorSecret: string | null },
+    input: TwoFactorCode
+): Promise<boolean> => {
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    if (input.code) return await checkAppCode(user.id, user.twoFactorSecret, input.code);
+    if (input.recoveryCode) return await checkRecoveryCode(user.id, input.recoveryCode);
+    return false;
+};
+
+// ============================================
+// ENROLLMENT
+// ============================================
+
+const getUser = async (userId: number) => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, role: true, password: true, twoFactorEnabled: true, twoFactorSecret: true }
+    });
+
+    if (!user) {
+        throw new NotFoundError("User not found");
+    }
+    return user;
+};
+
+/**
+ * Step 1 of enrollment: a new secret for the authenticator app
+ * 2FA stays off until enableTwoFactor confirms a code from the app.
+ */
+export const startTwoFactorSetup = async (userId: number) => {
+    const user = await getUser(userId);
+    if (user.twoFactorEnabled) {
+        throw new ValidationError("Two-factor authentication is already enabled.");
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: encryptSecret(secret) }
+    });
+
+    return { secret, otpauthUri: buildOtpAuthUri(secret, user.email, COMPANY.name) };
+};
+
+/**
+ * Step 2 of enrollment: confirm a code from the app and turn 2FA on
+ *
+ * @returns the recovery codes (shown to the user only this once)
+ */
+export const enableTwoFactor = async (userId: number, code: string): Promise<string[]> => {
+    const user = await getUser(userId);
+    if (user.twoFactorEnabled) {
+        throw new ValidationError("Two-factor authentication is already enabled.");
+    }
+    if (!user.twoFactorSecret) {
+        throw new ValidationError("Start two-factor setup first.");
+    }
+
+    if (!(await checkAppCode(user.id, user.twoFactorSecret, code))) {
+        throw new ValidationError("Invalid authentication code.");
+    }
+
+    await prisma.user.update({ where: { id: userId }, data: { twoFactorEnabled: true } });
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+
+    logger.info(`[TwoFactor] Enabled for User:${userId}`);
+    return recoveryCodes;
+};
+
+/**
+ * Turn 2FA off (password and a second factor required; never for admins)
+ */
+export const disableTwoFactor = async (userId: number, password: string, input: TwoFactorCode) => {
+    const user = await getUser(userId);
+    if (user.role === "ADMIN") {
+        throw new ValidationError("Two-factor authentication is mandatory for admin accounts.");
+    }
+    if (!user.twoFactorEnabled) {
+        throw new ValidationError("Two-factor authentication is not enabled.");
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid || !(await verifyTwoFactorCode(user, input))) {
+        throw new AuthError("Invalid password or authentication code.");
+    }
+
+    await prisma.$transaction([
+        prisma.user.update({ where: { id: userId }, data: { twoFactorEnabled: false, twoFactorSecret: null } }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } })
+    ]);
+
+    logger.info(`[TwoFactor] Disabled for User:${userId}`);
+};
+
+/**
+ * New set of recovery codes (the old ones stop working)
+ */
+export const regenerateRecoveryCodes = async (userId: number, code: string): Promise<string[]> => {
+    const user = await getUser(userId);
+    if (!user.twoFactorEnabled) {
+        throw new ValidationError("Two-factor authentication is not enabled.");
+    }
+
+    if (!(await verifyTwoFactorCode(user, { code }))) {
+        throw new AuthError("Invalid authentication code.");
+    }
+
+    return await replaceRecoveryCodes(userId);
+};
+
+/**
+ * Whether 2FA is on, and how many recovery codes are left
+ */
+export const getTwoFactorStatus = async (userId: number) => {
+    const user = await getUser(userId);
+    const recoveryCodesLeft = user.twoFactorEnabled
+        ? await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } })
+        : 0;
+
+    return {
+        enabled: user.twoFactorEnabled,
+        required: user.role === "ADMIN",
+        recoveryCodesLeft
+    };
+};
+
+// ============================================
+// LOGIN CHALLENGE
+// ============================================
+
+/**
+ * Password was right - hand out a short-lived challenge for the second step
+ * Kept in Redis rather than a JWT, so it can never be mistaken for a login.
+ */
+export const createLoginChallenge = async (userId: number): Promise<string> => {
+    const challengeToken = crypto.randomBytes(32).toString("hex");
+    await redis.set(CHALLENGE_KEY + challengeToken, String(userId), "EX", CHALLENGE_TTL);
+    return challengeToken;
+};
+
+/**
+ * Second login step: the user behind the challenge, once the code checks out
+ * A challenge is single use and dies after a few wrong codes. Each attempt is
+ * reserved before the code is checked, so parallel requests cannot get more
+ * than CHALLENGE_MAX_ATTEMPTS guesses, and wrong codes count against the
+ * account like wrong passwords (backoff, lockout).
+ */
+export const completeLoginChallenge = async (challengeToken: string, input: TwoFactorCode, ip: string) => {
+    const challengeKey = CHALLENGE_KEY + challengeToken;
+    const attemptsKey = CHALLENGE_ATTEMPTS_KEY + challengeToken;
+
+    const userId = Number(await redis.get(challengeKey));
+    if (!userId) {
+        throw new AuthError("Login session expired, please login again.");
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+        throw new AuthError("Login session expired, please login again.");
+    }
+
+    // The account may have started backing off (or been locked) since the password step
+    await assertLoginAllowed(user.email, ip);
+
+    // INCR is atomic - every request gets its own attempt number
+    const attempts = await redis.incr(attemptsKey);
+    await redis.expire(attemptsKey, CHALLENGE_TTL);
+
+    if (attempts > CHALLENGE_MAX_ATTEMPTS) {
+        await redis.del(challengeKey, attemptsKey);
+        throw new AuthError("Too many invalid codes, please login again.");
+    }
+
+    if (!(await verifyTwoFactorCode(user, input))) {
+        await recordLoginFailure(user.email, ip, user);
+
+        if (attempts >= CHALLENGE_MAX_ATTEMPTS) {
+            await redis.del(challengeKey, attemptsKey);
+            logger.warn(`[TwoFactor] Too many wrong codes for User:${userId}, login challenge dropped`);
+            throw new AuthError("Too many invalid codes, please login again.");
+        }
+        throw new AuthError("Invalid authentication code.");
+    }
+
+    // Single use: only the request that takes the challenge out of Redis logs in
+    if (!(await redis.getdel(challengeKey))) {
+        throw new AuthError("Login session expired, please login again.");
+    }
+    await redis.del(attemptsKey);
+
+    return user;
+};
@@ -0,0 +1,105 @@
+import { COMPANY } from '../COMPANY';
+import { getEmailWrapper, getEmailFooter, EMAIL_THEME } from './email-theme';
+import { formatMoney } from '../utils/money.utils';
+
+interface AbandonedCartItem {
+    courseName: string;
+    price: number; // minor units
+}
+
+interface AbandonedCartCoupon {
+    code: string;
+    percentOff: number;
+    validTill: Date;
+}
+
+interface AbandonedCartParams {
+    firstName: string;
+    currency: string;
+    items: AbandonedCartItem[];
+    total: number; // minor units
+    coupon: AbandonedCartCoupon | null;
+}
+
+/**
+ * Abandoned Cart Email Template
+ * Sent when a cart has been left idle without checking out
+ */
+export const abandonedCartTemplate = (params: AbandonedCartParams): string => {
+    const { firstName, currency, items, total, coupon } = params;
+
+    const cartUrl = `${COMPANY.website}/cart`;
+
+    const itemRows = items.map(item => `
+                <div class="info-row">
+                    <span class="info-label">${item.courseName}</span>
+                    <span class="info-value">${formatMoney(item.price, currency)}</span>
+                </div>
+    `).join('');
+
+    const couponBlock = coupon ? `
+            <div class="info-card" style="text-align: center; padding: 32px;">
+                <p style="color: ${EMAIL_THEME.textMuted}; font-size: 12px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 12px;">
+                    ${coupon.percentOff}% OFF YOUR CART
+                </p>
+                <p style="font-size: 22px; font-family: monospace; font-weight: 700; color: ${EMAIL_THEME.accent}; margin: 0;">
+                    ${coupon.code}
+                </p>
+                <p style="color: ${EMAIL_THEME.textMuted}; font-size: 13px; margin-top: 12px;">
+                    One-time code, valid till ${coupon.validTill.toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric' })}
+                </p>
+            </div>
+    ` : '';
+
+    const content = `
+        <div class="email-header">
+            <div class="email-logo">${COMPANY.name}</div>
+            <div class="email-header-icon">🛒</div>
+            <h1 class="email-header-title">You Left Something Behind</h1>
+            <p class="email-header-subtitle">Your cart is saved and ready when you are</p>
+        </div>
+
+        <div class="email-content">
+            <p class="greeting">Hi ${firstName},</p>
+
+            <p class="message">
+                You still have ${items.length === 1 ? 'a course' : `${items.length} courses`} waiting in your cart.
+                Pick up where you left off and start learning today.
+            </p>
+
+            <div class="info-card">
+                <div style="margin-bottom: 16px;">
+                    <span style="font-size: 12px; color: ${EMAIL_THEME.textMuted}; text-transform: uppercase; letter-spacing: 0.5px;">
+                        YOUR CART
+                    </span>
+                </div>
+
+                ${itemRows}
+
+                <div class="info-row" style="border-bottom: none;">
+                    <span class="info-label" style="font-weight: 700;">Total</span>
+                    <span class="info-value" style="font-weight: 700;">${formatMoney(total, currency)}</span>
+                </div>
+            </div>
+
+            ${couponBlock}
+
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${cartUrl}" class="cta-button">
+                    Complete Checkout →
+                </a>
+            </div>
+
+            <hr class="divider">
+
+            <p style="font-size: 13px; color: ${EMAIL_THEME.textMuted}; text-align: center;">
+                Need help? Contact us at
+                <a href="mailto:${COMPANY.email}" style="color: ${EMAIL_THEME.accent}; text-decoration: none;">${COMPANY.email}</a>
+            </p>
+        </div>
+
+        ${getEmailFooter()}
+    `;
+
+    return getEmailWrapper('You Left Something Behind - ' + COMPANY.name, content);
+};
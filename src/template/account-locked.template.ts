@@ -0,0 +1,76 @@
+import { COMPANY } from '../COMPANY';
+import { getEmailWrapper, getEmailFooter, EMAIL_THEME } from './email-theme';
+
+interface AccountLockedParams {
+    firstName: string;
+    unlockLink: string;
+    lockMinutes: number;
+    ipAddress: string;
+}
+
+/**
+ * Account Locked Email Template
+ * Sent when repeated failed logins temporarily lock an account
+ */
+export const accountLockedTemplate = (params: AccountLockedParams): string => {
+    const { firstName, unlockLink, lockMinutes, ipAddress } = params;
+
+    const content = `
+        <div class="email-header">
+            <div class="email-logo">${COMPANY.name}</div>
+            <div class="email-header-icon">🔐</div>
+            <h1 class="email-header-title">Account Temporarily Locked</h1>
+            <p class="email-header-subtitle">Too many failed login attempts</p>
+        </div>
+
+        <div class="email-content">
+            <p class="greeting">Hi ${firstName},</p>
+
+            <p class="message">
+                Someone tried to log in to your ${COMPANY.name} account with a wrong password
+                several times in a row, so we locked it for <strong>${lockMinutes} minutes</strong>.
+            </p>
+
+            <div class="info-card">
+                <div class="info-row" style="border-bottom: none;">
+                    <span class="info-label">Last attempt from</span>
+                    <span class="info-value" style="font-family: monospace;">${ipAddress}</span>
+                </div>
+            </div>
+
+            <p class="message">
+                If this was you, you can unlock your account right away:
+            </p>
+
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${unlockLink}" class="cta-button">
+                    Unlock My Account
+                </a>
+            </div>
+
+            <div class="warning-box">
+                Not you? Your password is still safe - nobody got in. Consider changing it to a
+                stronger one and turning on two-factor authentication.
+            </div>
+
+            <div class="link-text">
+                <strong style="color: ${EMAIL_THEME.textSecondary};">Button not working?</strong>
+                <br><br>
+                Copy and paste this link in your browser:
+                <br>
+                <a href="${unlockLink}">${unlockLink}</a>
+            </div>
+
+            <hr class="divider">
+
+            <p style="font-size: 13px; color: ${EMAIL_THEME.textMuted}; text-align: center;">
+                Need help? Contact us at
+                <a href="mailto:${COMPANY.email}" style="color: ${EMAIL_THEME.accent}; text-decoration: none;">${COMPANY.email}</a>
+            </p>
+        </div>
+
+        ${getEmailFooter()}
+    `;
+
+    return getEmailWrapper('Account Temporarily Locked - ' + COMPANY.name, content);
+};
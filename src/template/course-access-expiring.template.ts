@@ -0,0 +1,88 @@
+import { COMPANY } from '../COMPANY';
+import { getEmailWrapper, getEmailFooter, EMAIL_THEME } from './email-theme';
+
+interface CourseAccessExpiringParams {
+    firstName: string;
+    courseName: string;
+    courseId: number;
+    expiresAt: Date;
+    progress: number; // percent of the course completed
+}
+
+/**
+ * Course Access Expiring Email Template
+ * Sent a few days before time-limited access to a course runs out
+ */
+export const courseAccessExpiringTemplate = (params: CourseAccessExpiringParams): string => {
+    const { firstName, courseName, courseId, expiresAt, progress } = params;
+
+    const formattedDate = expiresAt.toLocaleDateString('en-IN', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+    });
+
+    const courseUrl = `${COMPANY.website}/student/course/${courseId}/learn`;
+    const renewUrl = `${COMPANY.website}/courses/${courseId}`;
+
+    const content = `
+        <div class="email-header">
+            <div class="email-logo">${COMPANY.name}</div>
+            <div class="email-header-icon">⏳</div>
+            <h1 class="email-header-title">Your Access Ends Soon</h1>
+            <p class="email-header-subtitle">Renew to keep learning without a break</p>
+        </div>
+
+        <div class="email-content">
+            <p class="greeting">Hi ${firstName},</p>
+
+            <p class="message">
+                Your access to <strong>${courseName}</strong> ends on <strong>${formattedDate}</strong>.
+                After that, lessons, videos, resources and quizzes of this course will be locked
+                until you renew.
+            </p>
+
+            <div class="info-card">
+                <div class="info-row">
+                    <span class="info-label">Course</span>
+                    <span class="info-value" style="color: ${EMAIL_THEME.accent};">${courseName}</span>
+                </div>
+
+                <div class="info-row">
+                    <span class="info-label">Your Progress</span>
+                    <span class="info-value">${Math.round(progress)}%</span>
+                </div>
+
+                <div class="info-row" style="border-bottom: none;">
+                    <span class="info-label">Access Ends</span>
+                    <span class="info-value" style="font-weight: 700;">${formattedDate}</span>
+                </div>
+            </div>
+
+            <p class="message">
+                Renewing before it ends adds the new period on top of the time you have left.
+            </p>
+
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${renewUrl}" class="cta-button">
+                    Renew Access →
+                </a>
+            </div>
+
+            <p style="font-size: 13px; color: ${EMAIL_THEME.textMuted}; text-align: center;">
+                Or <a href="${courseUrl}" style="color: ${EMAIL_THEME.accent}; text-decoration: none;">continue learning</a> while you still have access.
+            </p>
+
+            <hr class="divider">
+
+            <p style="font-size: 13px; color: ${EMAIL_THEME.textMuted}; text-align: center;">
+                Need help? Contact us at
+                <a href="mailto:${COMPANY.email}" style="color: ${EMAIL_THEME.accent}; text-decoration: none;">${COMPANY.email}</a>
+            </p>
+        </div>
+
+        ${getEmailFooter()}
+    `;
+
+    return getEmailWrapper('Your Access Ends Soon - ' + COMPANY.name, content);
+};
@@ -0,0 +1,81 @@
+import { COMPANY } from '../COMPANY';
+import { getEmailWrapper, getEmailFooter, EMAIL_THEME } from './email-theme';
+
+interface GiftReceivedParams {
+    recipientName: string | null;
+    senderName: string;
+    courseName: string;
+    giftCode: string;
+    message: string | null; // already stripped of HTML
+}
+
+/**
+ * Gift Received Email Template
+ * Sent to the recipient once a gift purchase is paid
+ */
+export const giftReceivedTemplate = (params: GiftReceivedParams): string => {
+    const { recipientName, senderName, courseName, giftCode, message } = params;
+
+    const registerUrl = `${COMPANY.website}/register`;
+    const loginUrl = `${COMPANY.website}/login`;
+
+    const messageBlock = message ? `
+            <div class="info-card" style="font-style: italic;">
+                <p style="margin: 0; color: ${EMAIL_THEME.textSecondary};">"${message}"</p>
+                <p style="margin: 12px 0 0; color: ${EMAIL_THEME.textMuted}; font-size: 13px;">- ${senderName}</p>
+            </div>
+    ` : '';
+
+    const content = `
+        <div class="email-header">
+            <div class="email-logo">${COMPANY.name}</div>
+            <div class="email-header-icon">🎁</div>
+            <h1 class="email-header-title">You've Received a Course!</h1>
+            <p class="email-header-subtitle">${senderName} sent you a gift</p>
+        </div>
+
+        <div class="email-content">
+            <p class="greeting">Hi ${recipientName || 'there'},</p>
+
+            <p class="message">
+                <strong>${senderName}</strong> has gifted you <strong>${courseName}</strong>.
+                Log in (or create a free account) with this email address and the course
+                will be added to your dashboard automatically.
+            </p>
+
+            ${messageBlock}
+
+            <div class="info-card" style="text-align: center; padding: 32px;">
+                <p style="color: ${EMAIL_THEME.textMuted}; font-size: 12px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 12px;">
+                    YOUR GIFT CODE
+                </p>
+                <p style="font-size: 22px; font-family: monospace; font-weight: 700; color: ${EMAIL_THEME.accent}; margin: 0;">
+                    ${giftCode}
+                </p>
+                <p style="color: ${EMAIL_THEME.textMuted}; font-size: 13px; margin-top: 12px;">
+                    Using a different email? Enter this code after logging in.
+                </p>
+            </div>
+
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${loginUrl}" class="cta-button">
+                    Claim My Course →
+                </a>
+            </div>
+
+            <p style="font-size: 13px; color: ${EMAIL_THEME.textMuted}; text-align: center;">
+                New to ${COMPANY.name}? <a href="${registerUrl}" style="color: ${EMAIL_THEME.accent}; text-decoration: none;">Create your account</a>
+            </p>
+
+            <hr class="divider">
+
+            <div class="warning-box">
+                🔐 Anyone with this code can claim the course. Please don't share it.
+            </div>
+        </div>
+
+        ${getEmailFooter()}
+    `;
+
+    return getEmailWrapper('You have received a gift - ' + COMPANY.name, content);
+};
@@ -0,0 +1,119 @@
+import PDFDocument from 'pdfkit';
+import { COMPANY } from '../COMPANY';
+import { EXPORT_PLACE_OF_SUPPLY, GST_STATE_CODES } from '../utils/gst.utils';
+import { toMajorUnits } from '../utils/money.utils';
+import type { OrderInvoice } from '../services/invoice.service';
+
+/**
+ * GST Tax Invoice PDF
+ * One page per document: the invoice first, then one page per credit note
+ */
+export const renderInvoicePdf = (invoice: OrderInvoice): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({ size: 'A4', margin: 50 });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        // Stored in paise; pdfkit's built-in fonts have no ₹ glyph
+        const formatCurrency = (val: number) => `${invoice.currency} ${toMajorUnits(val).toFixed(2)}`;
+        const formatDate = (date: Date) => new Date(date).toLocaleDateString('en-IN', {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+        });
+        const stateLabel = (code: string) => code === EXPORT_PLACE_OF_SUPPLY
+            ? `Outside India (${code})`
+            : `${GST_STATE_CODES[code] || 'Unknown'} (${code})`;
+        const isExport = invoice.placeOfSupply === EXPORT_PLACE_OF_SUPPLY;
+
+        const row = (label: string, value: string, bold = false) => {
+            const y = doc.y;
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+            doc.text(label, 50, y, { width: 300 });
+            doc.text(value, 350, y, { width: 195, align: 'right' });
+            doc.moveDown(0.4);
+        };
+
+        const taxRows = (amounts: { cgstAmount: number; sgstAmount: number; igstAmount: number }) => {
+            const half = invoice.gstRate / 2;
+            if (isExport) {
+                row('IGST @ 0% (export of services, zero-rated)', formatCurrency(0));
+            } else if (amounts.igstAmount > 0) {
+                row(`IGST @ ${invoice.gstRate}%`, formatCurrency(amounts.igstAmount));
+            } else {
+                row(`CGST @ ${half}%`, formatCurrency(amounts.cgstAmount));
+                row(`SGST @ ${half}%`, formatCurrency(amounts.sgstAmount));
+            }
+        };
+
+        const header = (title: string) => {
+            doc.font('Helvetica-Bold').fontSize(18).text(title, { align: 'center' });
+            doc.moveDown();
+            doc.font('Helvetica-Bold').fontSize(11).text(COMPANY.gst.legalName);
+            doc.font('Helvetica').fontSize(9);
+            if (COMPANY.gst.address) doc.text(COMPANY.gst.address);
+            if (COMPANY.gst.gstin) doc.text(`GSTIN: ${COMPANY.gst.gstin}`);
+            doc.text(`State: ${stateLabel(COMPANY.gst.stateCode)}`);
+            doc.text(`${COMPANY.email} | ${COMPANY.phone}`);
+            doc.moveDown();
+        };
+
+        // ---------- Tax Invoice ----------
+        header('TAX INVOICE');
+
+        doc.font('Helvetica-Bold').fontSize(10).text('Bill To');
+        doc.font('Helvetica').fontSize(9);
+        doc.text(invoice.buyerName);
+        doc.text(invoice.buyerEmail);
+        if (invoice.buyerGstin) doc.text(`GSTIN: ${invoice.buyerGstin}`);
+        doc.text(`Place of Supply: ${stateLabel(invoice.placeOfSupply)}`);
+        doc.moveDown();
+
+        row('Invoice No.', invoice.invoiceNumber);
+        row('Invoice Date', formatDate(invoice.issuedAt));
+        row('Order ID', `ORD-${invoice.order.id}`);
+        if (invoice.order.payment?.gatewayPaymentId) {
+            row('Payment ID', invoice.order.payment.gatewayPaymentId);
+        }
+        doc.moveDown();
+
+        row(`${invoice.order.course.title} (SAC ${COMPANY.gst.sacCode})`, '', true);
+        if (invoice.order.discountAmount) {
+            row(`Discount${invoice.order.couponCode ? ` (${invoice.order.couponCode})` : ''}`, `- ${formatCurrency(invoice.order.discountAmount)}`);
+        }
+        row('Taxable Value', formatCurrency(invoice.taxableAmount));
+        taxRows(invoice);
+        row(isExport ? 'Total' : 'Total (GST inclusive)', formatCurrency(invoice.totalAmount), true);
+
+        doc.moveDown(2);
+        doc.font('Helvetica').fontSize(8).fillColor('#666666');
+        if (isExport) {
+            doc.text('Supply meant for export of services without payment of integrated tax.', { align: 'center' });
+        }
+        doc.text('This is a computer generated invoice and does not require a signature.', { align: 'center' });
+        doc.fillColor('#000000');
+
+        // ---------- Credit Notes ----------
+        for (const note of invoice.creditNotes) {
+            doc.addPage();
+            header('CREDIT NOTE');
+
+            row('Credit Note No.', note.creditNoteNumber);
+            row('Credit Note Date', formatDate(note.issuedAt));
+            row('Against Invoice', `${invoice.invoiceNumber} (${formatDate(invoice.issuedAt)})`);
+            row('Issued To', invoice.buyerName);
+            row('Place of Supply', stateLabel(invoice.placeOfSupply));
+            if (note.reason) row('Reason', note.reason);
+            doc.moveDown();
+
+            row('Taxable Value Reversed', formatCurrency(note.taxableAmount));
+            taxRows(note);
+            row('Total Refunded', formatCurrency(note.totalAmount), true);
+        }
+
+        doc.end();
+    });
+};
@@ -0,0 +1,118 @@
+import { COMPANY } from '../COMPANY';
+import { getEmailWrapper, getEmailFooter, EMAIL_THEME } from './email-theme';
+
+interface RefundProcessedParams {
+    firstName: string;
+    courseName: string;
+    refundAmount: number;
+    totalRefunded: number;
+    currency?: string;
+    orderId: string;
+    refundId: string;
+    isFullRefund: boolean;
+    accessRevoked: boolean;
+    reason?: string | undefined;
+}
+
+/**
+ * Refund Processed Email Template
+ * Sent when an admin refunds an order (fully or partly)
+ */
+export const refundProcessedTemplate = (params: RefundProcessedParams): string => {
+    const {
+        firstName,
+        courseName,
+        refundAmount,
+        totalRefunded,
+        currency = 'INR',
+        orderId,
+        refundId,
+        isFullRefund,
+        accessRevoked,
+        reason
+    } = params;
+
+    const formatCurrency = (val: number) => new Intl.NumberFormat('en-IN', {
+        style: 'currency',
+        currency: currency,
+    }).format(val);
+
+    const reasonRow = reason ? `
+                <div class="info-row">
+                    <span class="info-label">Reason</span>
+                    <span class="info-value">${reason}</span>
+                </div>
+    ` : '';
+
+    const accessMessage = accessRevoked
+        ? `Your access to <strong>${courseName}</strong> has been removed along with any certificate issued for it.`
+        : `You can continue to access <strong>${courseName}</strong> from your dashboard.`;
+
+    const content = `
+        <div class="email-header">
+            <div class="email-logo">${COMPANY.name}</div>
+            <div class="email-header-icon">💸</div>
+            <h1 class="email-header-title">Refund ${isFullRefund ? 'Processed' : 'Issued'}</h1>
+            <p class="email-header-subtitle">${isFullRefund ? 'Your order has been fully refunded' : 'A partial refund has been issued for your order'}</p>
+        </div>
+
+        <div class="email-content">
+            <p class="greeting">Hi ${firstName},</p>
+
+            <p class="message">
+                We have issued a refund of <strong>${formatCurrency(refundAmount)}</strong> for your order.
+                It usually reaches your original payment method within 5-7 business days,
+                depending on your bank.
+            </p>
+
+            <!-- Refund Summary Card -->
+            <div class="info-card">
+                <div style="margin-bottom: 16px;">
+                    <span style="font-size: 12px; color: ${EMAIL_THEME.textMuted}; text-transform: uppercase; letter-spacing: 0.5px;">
+                        REFUND SUMMARY
+                    </span>
+                </div>
+
+                <div class="info-row">
+                    <span class="info-label">Course</span>
+                    <span class="info-value" style="color: ${EMAIL_THEME.accent};">${courseName}</span>
+                </div>
+
+                <div class="info-row">
+                    <span class="info-label">Refund Amount</span>
+                    <span class="info-value" style="color: ${EMAIL_THEME.success}; font-weight: 700;">${formatCurrency(refundAmount)}</span>
+                </div>
+
+                <div class="info-row">
+                    <span class="info-label">Total Refunded</span>
+                    <span class="info-value">${formatCurrency(totalRefunded)}</span>
+                </div>
+
+                ${reasonRow}
+
+                <div class="info-row">
+                    <span class="info-label">Order ID</span>
+                    <span class="info-value" style="font-size: 13px; font-family: monospace;">${orderId}</span>
+                </div>
+
+                <div class="info-row" style="border-bottom: none;">
+                    <span class="info-label">Refund ID</span>
+                    <span class="info-value" style="font-size: 13px; font-family: monospace;">${refundId}</span>
+                </div>
+            </div>
+
+            <p class="message">${accessMessage}</p>
+
+            <hr class="divider">
+
+            <p style="font-size: 13px; color: ${EMAIL_THEME.textMuted}; text-align: center;">
+                Questions about this refund? Contact us at
+                <a href="mailto:${COMPANY.email}" style="color: ${EMAIL_THEME.accent}; text-decoration: none;">${COMPANY.email}</a>
+            </p>
+        </div>
+
+        ${getEmailFooter()}
+    `;
+
+    return getEmailWrapper('Refund ' + (isFullRefund ? 'Processed' : 'Issued') + ' - ' + COMPANY.name, content);
+};
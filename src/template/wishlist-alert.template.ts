@@ -0,0 +1,121 @@
+import { COMPANY } from '../COMPANY';
+import { getEmailWrapper, getEmailFooter, EMAIL_THEME } from './email-theme';
+import { formatMoney } from '../utils/money.utils';
+
+interface WishlistPriceDrop {
+    courseId: number;
+    courseName: string;
+    oldPrice: number; // minor units
+    newPrice: number; // minor units
+}
+
+interface WishlistCoupon {
+    code: string;
+    discountLabel: string; // e.g. "20% off"
+    validTill: Date | null;
+    courseNames: string[]; // wishlisted courses it applies to
+}
+
+interface WishlistAlertParams {
+    firstName: string;
+    currency: string;
+    priceDrops: WishlistPriceDrop[];
+    coupons: WishlistCoupon[];
+}
+
+/**
+ * Wishlist Alert Email Template
+ * Sent when wishlisted courses get cheaper or a coupon starts applying to them
+ */
+export const wishlistAlertTemplate = (params: WishlistAlertParams): string => {
+    const { firstName, currency, priceDrops, coupons } = params;
+
+    const wishlistUrl = `${COMPANY.website}/student/wishlist`;
+
+    const formatDate = (date: Date) => date.toLocaleDateString('en-IN', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+    });
+
+    const priceDropRows = priceDrops.map((drop, index) => `
+                <div class="info-row"${index === priceDrops.length - 1 ? ' style="border-bottom: none;"' : ''}>
+                    <span class="info-label">
+                        <a href="${COMPANY.website}/courses/${drop.courseId}" style="color: ${EMAIL_THEME.accent}; text-decoration: none;">${drop.courseName}</a>
+                    </span>
+                    <span class="info-value">
+                        <span style="text-decoration: line-through; color: ${EMAIL_THEME.textMuted};">${formatMoney(drop.oldPrice, currency)}</span>
+                        <span style="color: ${EMAIL_THEME.success}; font-weight: 700;">${formatMoney(drop.newPrice, currency)}</span>
+                    </span>
+                </div>
+    `).join('');
+
+    const priceDropSection = priceDrops.length > 0 ? `
+            <div class="info-card">
+                <div style="margin-bottom: 16px;">
+                    <span style="font-size: 12px; color: ${EMAIL_THEME.textMuted}; text-transform: uppercase; letter-spacing: 0.5px;">
+                        PRICE DROPS
+                    </span>
+                </div>
+                ${priceDropRows}
+            </div>
+    ` : '';
+
+    const couponCards = coupons.map(coupon => `
+            <div class="info-card" style="text-align: center;">
+                <p style="color: ${EMAIL_THEME.textMuted}; font-size: 12px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 12px;">
+                    ${coupon.discountLabel}
+                </p>
+                <p style="font-size: 22px; font-family: monospace; font-weight: 700; color: ${EMAIL_THEME.accent}; margin: 0;">
+                    ${coupon.code}
+                </p>
+                <p style="color: ${EMAIL_THEME.textSecondary}; font-size: 13px; margin-top: 12px;">
+                    Applies to ${coupon.courseNames.join(', ')}
+                </p>
+                ${coupon.validTill ? `
+                <p style="color: ${EMAIL_THEME.textMuted}; font-size: 13px; margin-top: 4px;">
+                    Valid till ${formatDate(coupon.validTill)}
+                </p>` : ''}
+            </div>
+    `).join('');
+
+    const title = priceDrops.length > 0 ? 'Prices Dropped on Your Wishlist' : 'A Coupon for Your Wishlist';
+
+    const content = `
+        <div class="email-header">
+            <div class="email-logo">${COMPANY.name}</div>
+            <div class="email-header-icon">💝</div>
+            <h1 class="email-header-title">${title}</h1>
+            <p class="email-header-subtitle">Courses you saved for later just got cheaper</p>
+        </div>
+
+        <div class="email-content">
+            <p class="greeting">Hi ${firstName},</p>
+
+            <p class="message">
+                Good news about the courses on your wishlist. Final prices are shown at checkout.
+            </p>
+
+            ${priceDropSection}
+
+            ${couponCards}
+
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${wishlistUrl}" class="cta-button">
+                    View Wishlist →
+                </a>
+            </div>
+
+            <hr class="divider">
+
+            <p style="font-size: 13px; color: ${EMAIL_THEME.textMuted}; text-align: center;">
+                You get these emails because these courses are on your wishlist.
+                Remove them from your wishlist to stop alerts about them.
+            </p>
+        </div>
+
+        ${getEmailFooter()}
+    `;
+
+    return getEmailWrapper(title + ' - ' + COMPANY.name, content);
+};
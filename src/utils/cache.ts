@@ -6,6 +6,7 @@ export const COURSE_CACHE_PREFIX = "courses:";
 export const COURSE_ADMIN_CACHE_PREFIX = "courses_admin:";
 export const CATEGORY_CACHE_PREFIX = "categories:";
 export const CATEGORY_ADMIN_CACHE_PREFIX = "categories_admin:";
+export const BUNDLE_CACHE_PREFIX = "bundles:";
 export const DASHBOARD_CACHE_KEY = "dashboard:analytics";
 
 // get cached data by key
@@ -0,0 +1,15 @@
+// Currency helpers - base currency and conversion of stored order amounts
+
+import { convertMinorUnits } from "./money.utils";
+
+// Course.price is in this currency and analytics are reported in it
+export const BASE_CURRENCY = (process.env.BASE_CURRENCY || "INR").trim().toUpperCase();
+
+// Currencies students can pay in (the base currency is always allowed)
+export const SUPPORTED_CURRENCIES = ["INR", "USD", "EUR"];
+
+/**
+ * Convert an amount charged in some currency to the base currency
+ * using the rate fixed on the order at checkout (both in minor units)
+ */
+export const toBaseAmount = (amount: number, exchangeRate: number) => convertMinorUnits(amount, exchangeRate);
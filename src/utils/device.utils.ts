@@ -0,0 +1,31 @@
+// Rough "Browser on OS" label for a user agent, shown on the device list
+// (good enough to recognise your own devices - not for analytics)
+
+const BROWSERS: [RegExp, string][] = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/SamsungBrowser/, "Samsung Internet"],
+    [/Firefox\/|FxiOS/, "Firefox"],
+    [/Chrome\/|CriOS/, "Chrome"],
+    [/Safari\//, "Safari"],
+    [/PostmanRuntime/, "Postman"]
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+    [/Windows/, "Windows"],
+    [/iPhone|iPad|iPod/, "iOS"],
+    [/Android/, "Android"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/CrOS/, "ChromeOS"],
+    [/Linux/, "Linux"]
+];
+
+export const describeDevice = (userAgent: string | undefined): string | null => {
+    if (!userAgent) return null;
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || "Unknown device";
+};
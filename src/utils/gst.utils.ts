@@ -0,0 +1,97 @@
+// GST helpers - state codes, tax split and financial year
+
+// GST state / union territory codes (first two digits of a GSTIN)
+export const GST_STATE_CODES: Record<string, string> = {
+    "01": "Jammu and Kashmir",
+    "02": "Himachal Pradesh",
+    "03": "Punjab",
+    "04": "Chandigarh",
+    "05": "Uttarakhand",
+    "06": "Haryana",
+    "07": "Delhi",
+    "08": "Rajasthan",
+    "09": "Uttar Pradesh",
+    "10": "Bihar",
+    "11": "Sikkim",
+    "12": "Arunachal Pradesh",
+    "13": "Nagaland",
+    "14": "Manipur",
+    "15": "Mizoram",
+    "16": "Tripura",
+    "17": "Meghalaya",
+    "18": "Assam",
+    "19": "West Bengal",
+    "20": "Jharkhand",
+    "21": "Odisha",
+    "22": "Chhattisgarh",
+    "23": "Madhya Pradesh",
+    "24": "Gujarat",
+    "26": "Dadra and Nagar Haveli and Daman and Diu",
+    "27": "Maharashtra",
+    "29": "Karnataka",
+    "30": "Goa",
+    "31": "Lakshadweep",
+    "32": "Kerala",
+    "33": "Tamil Nadu",
+    "34": "Puducherry",
+    "35": "Andaman and Nicobar Islands",
+    "36": "Telangana",
+    "37": "Andhra Pradesh",
+    "38": "Ladakh",
+};
+
+// Place of supply code for buyers outside India (not a state, never accepted at checkout)
+export const EXPORT_PLACE_OF_SUPPLY = "96";
+
+/**
+ * Whether an order is an export of services - paid in a foreign currency by a
+ * buyer outside India, so zero-rated (no CGST/SGST/IGST charged)
+ */
+export const isExportSupply = (currency: string) => currency !== "INR";
+
+export const GSTIN_REGEX = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// All amounts in minor units (paise)
+export interface GstBreakdown {
+    taxableAmount: number;
+    cgstAmount: number;
+    sgstAmount: number;
+    igstAmount: number;
+    totalAmount: number;
+}
+
+/**
+ * Split a GST-inclusive amount (paise) into taxable value and tax
+ * Same state as the seller -> CGST + SGST (half each), otherwise IGST.
+ * The parts always add back up to the total.
+ */
+export const splitGstInclusive = (
+    totalAmount: number,
+    ratePercent: number,
+    sellerStateCode: string,
+    placeOfSupply: string
+): GstBreakdown => {
+    const taxableAmount = Math.round((totalAmount * 100) / (100 + ratePercent));
+    const taxAmount = totalAmount - taxableAmount;
+
+    let cgstAmount = 0;
+    let sgstAmount = 0;
+    let igstAmount = 0;
+
+    if (placeOfSupply === sellerStateCode) {
+        cgstAmount = Math.floor(taxAmount / 2);
+        sgstAmount = taxAmount - cgstAmount;
+    } else {
+        igstAmount = taxAmount;
+    }
+
+    return { taxableAmount, cgstAmount, sgstAmount, igstAmount, totalAmount };
+};
+
+/**
+ * Indian financial year label for a date, e.g. 2026-10-19 -> "2026-27"
+ */
+export const getFinancialYear = (date: Date): string => {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
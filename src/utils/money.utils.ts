@@ -0,0 +1,84 @@
+// Money helpers
+// Every amount stored in the database is an integer in minor units
+// (paise for INR, cents for USD/EUR). Convert only at the edges:
+// request bodies / responses / emails (major units) and the gateways.
+
+const MINOR_PER_MAJOR = 100;
+
+/**
+ * 999.5 -> 99950
+ */
+export const toMinorUnits = (major: number): number => Math.round(major * MINOR_PER_MAJOR);
+
+/**
+ * 99950 -> 999.5
+ */
+export const toMajorUnits = (minor: number): number => minor / MINOR_PER_MAJOR;
+
+export const toMajorUnitsOrNull = (minor: number | null): number | null =>
+    minor === null ? null : toMajorUnits(minor);
+
+/**
+ * Copy of a course-like record with its prices in major units (for responses)
+ */
+export const withMajorPrices = <T extends { price: number; originalPrice: number | null }>(item: T): T => ({
+    ...item,
+    price: toMajorUnits(item.price),
+    originalPrice: toMajorUnitsOrNull(item.originalPrice)
+});
+
+export const sumMinorUnits = (amounts: number[]): number => amounts.reduce((sum, amount) => sum + amount, 0);
+
+/**
+ * Percentage of an amount, rounded to the nearest minor unit
+ */
+export const percentOfMinorUnits = (minor: number, percent: number): number => Math.round((minor * percent) / 100);
+
+/**
+ * Convert between currencies with a rate (target units per source unit)
+ */
+export const convertMinorUnits = (minor: number, rate: number): number => Math.round(minor * rate);
+
+/**
+ * "₹999.50" style label for messages and documents
+ */
+export const formatMoney = (minor: number, currency: string): string =>
+    new Intl.NumberFormat("en-IN", { style: "currency", currency }).format(toMajorUnits(minor));
+
+/**
+ * Split an amount across lines in proportion to their amounts
+ *
+ * The shares always add up to the exact total: every line gets its
+ * rounded-down share, then the leftover units go to the lines with the
+ * largest remainders (never more than a line's own amount).
+ *
+ * @returns share per line, in the same order as lineAmounts
+ */
+export const allocateProportionally = (lineAmounts: number[], total: number): number[] => {
+    const lineTotal = sumMinorUnits(lineAmounts);
+    const amount = Math.min(total, lineTotal);
+
+    if (lineTotal === 0 || amount <= 0) {
+        return lineAmounts.map(() => 0);
+    }
+
+    const shares = lineAmounts.map((line, index) => {
+        const exact = (amount * line) / lineTotal;
+        return { index, units: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+
+    let leftover = amount - sumMinorUnits(shares.map(s => s.units));
+    const byRemainder = [...shares].sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    while (leftover > 0) {
+        for (const share of byRemainder) {
+            if (leftover === 0) break;
+            if (share.units < lineAmounts[share.index]!) { // Non-null: index comes from lineAmounts
+                share.units += 1;
+                leftover -= 1;
+            }
+        }
+    }
+
+    return shares.map(share => share.units);
+};
@@ -0,0 +1,95 @@
+import crypto from "crypto";
+
+// TOTP (RFC 6238) as used by Google Authenticator, Authy, 1Password, ...
+// SHA-1, 6 digits, 30 second steps - the defaults every authenticator app supports
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of input.toUpperCase().replace(/=+$/, "")) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error("Invalid base32 character");
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+// HOTP (RFC 4226) code for one counter value
+const hotp = (secret: Buffer, counter: number): string => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac("sha1", secret).update(message).digest();
+    // Non-null: a SHA-1 digest is always 20 bytes
+    const offset = hmac[hmac.length - 1]! & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+};
+
+/**
+ * New random secret (base32, 160 bits as recommended by RFC 4226)
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * otpauth:// URI for enrolling an authenticator app (usually shown as a QR code)
+ */
+export const buildOtpAuthUri = (secret: string, accountName: string, issuer: string): string => {
+    // encodeURIComponent, not URLSearchParams: some apps show a "+" for spaces
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+};
+
+/**
+ * Check a code against the secret, allowing one step of clock drift either way
+ *
+ * @returns the time step the code belongs to (to refuse replays), or null if wrong
+ */
+export const verifyTotp = (secret: string, code: string, now: number = Date.now()): number | null => {
+    if (!/^\d{6}$/.test(code)) return null;
+
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(now / 1000 / STEP_SECONDS);
+
+    for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+        const expected = hotp(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+            return step;
+        }
+    }
+
+    return null;
+};
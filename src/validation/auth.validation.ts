@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SUPPORTED_CURRENCIES } from '../utils/currency.utils';
 export const baseRegisterSchema = z
   .object({
     firstName: z
@@ -63,7 +64,45 @@ export const forgotPasswordResetSchema = z.object({
   error: 'Passwords do not match',
 });
 
+export const updatePreferredCurrencySchema = z.object({
+  currency: z.enum(SUPPORTED_CURRENCIES as [string, ...string[]], {
+    error: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+  }),
+});
+
 export const resendVerificationEmailSchema = z.object({
   email: z.email({ error: 'Valid email is required' }).toLowerCase(),
 });
 
+export const unlockAccountSchema = z.object({
+  token: z.string({ error: 'Unlock token is required' }).min(1),
+});
+
+const totpCode = z
+  .string({ error: 'Code is required' })
+  .regex(/^\d{6}$/, { message: 'Code must be exactly 6 digits' });
+
+export const loginTwoFactorSchema = z.object({
+  challengeToken: z.string({ error: 'Challenge token is required' }).min(1),
+  code: totpCode.optional(),
+  recoveryCode: z.string().min(1).max(32).optional(),
+}).refine((data) => !!data.code || !!data.recoveryCode, {
+  error: 'Enter the code from your authenticator app or a recovery code',
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCode,
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string({ error: 'Password is required' }),
+  code: totpCode.optional(),
+  recoveryCode: z.string().min(1).max(32).optional(),
+}).refine((data) => !!data.code || !!data.recoveryCode, {
+  error: 'Enter the code from your authenticator app or a recovery code',
+});
+
+export const oauthCallbackSchema = z.object({
+  code: z.string({ error: 'Authorization code is required' }).min(1),
+  state: z.string({ error: 'State is required' }).min(1),
+});
@@ -0,0 +1,15 @@
+import z from "zod";
+
+export const createBundleSchema = z.object({
+    title: z.string().min(3, "Title must be at least 3 characters long"),
+    description: z.string().min(3, "Description must be at least 3 characters long").max(1000, "Description must be at most 1000 characters long"),
+    price: z.number().positive("Price must be greater than 0"),
+    thumbnail: z.url("Thumbnail must be a valid URL"),
+    courseIds: z.array(z.number().int().positive("Course ID must be a positive integer"))
+        .min(2, "A bundle needs at least two courses")
+        .refine((ids) => new Set(ids).size === ids.length, "Each course can only be added once")
+});
+
+export const updateBundleStatusSchema = z.object({
+    status: z.enum(["PUBLISHED", "DRAFT"], { error: "Status must be PUBLISHED or DRAFT" })
+});
@@ -1,4 +1,5 @@
 import z from "zod";
+import { SUPPORTED_CURRENCIES } from "../utils/currency.utils";
 
 export const createCourseSchema = z.object({
     title: z.string().min(3, "Title must be at least 3 characters long"),
@@ -6,6 +7,7 @@ export const createCourseSchema = z.object({
     price: z.number().min(0, "Price must be at least 0"),
     originalPrice: z.number().min(0, "Original price must be at least 0").optional(),
     categoryId: z.number().int().min(0, "Category ID must be a positive integer"),
+    accessDays: z.number().int().positive("Access duration must be at least 1 day").nullable().optional(), // null/omitted = lifetime
     thumbnail: z.url("Thumbnail must be a valid URL"),
     language: z.array(z.string()).min(1, "At least one language is required"),
     whatYouWillLearn: z.array(z.string()).min(1, "At least one learning point is required")
@@ -20,5 +22,14 @@ export const createCourseSchema = z.object({
     path: ["originalPrice"]
 });
 
-
-
+// Fixed prices in other currencies (replaces the course's whole price list)
+export const setCoursePricesSchema = z.object({
+    prices: z.array(z.object({
+        currency: z.enum(SUPPORTED_CURRENCIES as [string, ...string[]], { error: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(", ")}` }),
+        price: z.number().positive("Price must be greater than 0"),
+        originalPrice: z.number().positive("Original price must be greater than 0").optional()
+    }).refine((data) => data.originalPrice === undefined || data.originalPrice > data.price, {
+        message: "Original price must be greater than discounted price",
+        path: ["originalPrice"]
+    }))
+});
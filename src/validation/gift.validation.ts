@@ -0,0 +1,5 @@
+import z from "zod";
+
+export const redeemGiftSchema = z.object({
+    code: z.string().trim().min(1, "Gift code is required").max(50, "Gift code is too long")
+});
@@ -1,18 +1,83 @@
 import { z } from "zod";
+import { GST_STATE_CODES, GSTIN_REGEX } from "../utils/gst.utils";
 
 // ============================================================================
 // PAYMENT VALIDATION SCHEMAS
 // ============================================================================
 
+/**
+ * Optional billing details for the GST invoice.
+ * A business GSTIN already carries its state code (first two digits).
+ */
+const billingFields = {
+    billingStateCode: z
+        .string()
+        .trim()
+        .refine(code => code in GST_STATE_CODES, "Invalid GST state code")
+        .optional(),
+    gstin: z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(GSTIN_REGEX, "Invalid GSTIN")
+        .optional()
+};
+
+/**
+ * Buyer's phone number - some gateways (Cashfree) refuse orders without one.
+ */
+const contactFields = {
+    phone: z
+        .string()
+        .trim()
+        .regex(/^\+?[0-9]{10,15}$/, "Phone number must be 10 to 15 digits")
+        .optional()
+};
+
+/**
+ * Optional gift recipient - the course is bought for them instead of the buyer.
+ */
+const giftSchema = z.object({
+    recipientEmail: z.email("Recipient email must be a valid email address"),
+    recipientName: z.string().trim().max(100, "Recipient name must be at most 100 characters long").optional(),
+    message: z.string().max(500, "Gift message must be at most 500 characters long").optional()
+});
+
 /**
  * Schema for initiating a "Buy Now" Purchase.
- * We only need the courseId because the userId comes from the authenticated session.
+ * We only need the courseId (or bundleId) because the userId comes from the authenticated session.
+ * A single course can also be bought as a gift.
  */
 export const initiatePaymentSchema = z.object({
     courseId: z.coerce
-        .number({ error: "Course ID is required" })
+        .number({ error: "Course ID must be a number" })
         .int("Course ID must be an integer")
-        .positive("Course ID must be a positive number"),
+        .positive("Course ID must be a positive number")
+        .optional(),
+    bundleId: z.coerce
+        .number({ error: "Bundle ID must be a number" })
+        .int("Bundle ID must be an integer")
+        .positive("Bundle ID must be a positive number")
+        .optional(),
+    gift: giftSchema.optional(),
+    ...billingFields,
+    ...contactFields
+}).refine((data) => (data.courseId === undefined) !== (data.bundleId === undefined), {
+    message: "Either courseId or bundleId is required",
+    path: ["courseId"]
+}).refine((data) => data.gift === undefined || data.bundleId === undefined, {
+    message: "Bundles cannot be bought as a gift",
+    path: ["gift"]
+});
+
+/**
+ * Schema for checking out the whole cart.
+ * The coupon is optional and re-validated by the service.
+ */
+export const initiateCheckoutSchema = z.object({
+    couponCode: z.string().trim().max(50, "Coupon code is too long").optional(),
+    ...billingFields,
+    ...contactFields
 });
 
 /**
@@ -39,3 +104,34 @@ export const updatePaymentSettingsSchema = z.object({
         error: "Invalid Payment Provider. Must be RAZORPAY, PHONEPE, or CASHFREE."
     })
 });
+
+/**
+ * Schema for Admin setting an exchange rate.
+ * baseRate = how many base currency units one unit of the currency is worth.
+ */
+export const updateExchangeRateSchema = z.object({
+    baseRate: z
+        .number({ error: "Rate must be a number" })
+        .positive("Rate must be greater than zero")
+});
+
+/**
+ * Schema for Admin refunding an order.
+ * amount is optional - leaving it out refunds everything still refundable.
+ */
+export const refundOrderSchema = z.object({
+    amount: z
+        .number({ error: "Refund amount must be a number" })
+        .positive("Refund amount must be greater than zero")
+        .optional(),
+    reason: z.string().trim().max(500, "Reason must be at most 500 characters").optional(),
+    revokeAccess: z.boolean({ error: "revokeAccess must be true or false" }).optional()
+});
+
+/**
+ * Schema for Admin refunding a whole checkout (always a full refund).
+ */
+export const refundCheckoutSchema = z.object({
+    reason: z.string().trim().max(500, "Reason must be at most 500 characters").optional(),
+    revokeAccess: z.boolean({ error: "revokeAccess must be true or false" }).optional()
+});
@@ -0,0 +1,26 @@
+import z from "zod";
+
+export const createPlanSchema = z.object({
+    name: z.string().trim().min(3, "Name must be at least 3 characters long").max(100, "Name must be at most 100 characters long"),
+    description: z.string().max(1000, "Description must be at most 1000 characters long").optional(),
+    interval: z.enum(["MONTHLY", "YEARLY"], { error: "Interval must be MONTHLY or YEARLY" }),
+    price: z.number().positive("Price must be greater than 0"),
+    categoryId: z.number().int().positive("Category ID must be a positive integer").optional()
+});
+
+// Price and interval are fixed once the plan exists on the gateway
+export const updatePlanSchema = z.object({
+    name: z.string().trim().min(3, "Name must be at least 3 characters long").max(100, "Name must be at most 100 characters long").optional(),
+    description: z.string().max(1000, "Description must be at most 1000 characters long").nullable().optional(),
+    isActive: z.boolean().optional()
+});
+
+export const startSubscriptionSchema = z.object({
+    planId: z.number().int().positive("Plan ID must be a positive integer")
+});
+
+export const verifySubscriptionSchema = z.object({
+    gatewaySubscriptionId: z.string().min(1, "Subscription ID is required"),
+    gatewayPaymentId: z.string().min(1, "Payment ID is required"),
+    gatewaySignature: z.string().min(1, "Signature is required")
+});
@@ -0,0 +1,12 @@
+import z from "zod";
+
+/**
+ * Schema for adding, removing or moving a wishlisted course
+ * Validates that courseId is a positive integer
+ */
+export const wishlistCourseSchema = z.object({
+    courseId: z
+        .number({ error: "Course ID is required and must be a number" })
+        .int("Course ID must be an integer")
+        .positive("Course ID must be a positive integer")
+});
@@ -0,0 +1,191 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { logger } from "../src/config/logger.config";
+import { ValidationError } from "../src/utils/api_error.utils";
+import { cashfreeProvider } from "../src/services/payment/providers/cashfree.provider";
+import { CreateOrderParams } from "../src/services/payment/payment.types";
+import { StubServer, startStubServer } from "./helpers/stub-server";
+
+const SECRET_KEY = "cf_test_secret";
+
+const orderParams: CreateOrderParams = {
+    amount: 499.5,
+    currency: "INR",
+    orderId: 42,
+    courseId: 7,
+    courseTitle: "TypeScript Deep Dive",
+    userEmail: "student@example.com",
+    userName: "Test Student",
+    userPhone: "9876543210"
+};
+
+// Signed exactly like Cashfree does: base64(HMAC-SHA256(timestamp + rawBody))
+const signWebhook = (rawBody: string, timestamp: string) =>
+    crypto.createHmac("sha256", SECRET_KEY).update(timestamp + rawBody).digest("base64");
+
+describe("Cashfree provider (local stub)", () => {
+    let stub: StubServer;
+
+    before(async () => {
+        logger.silent = true;
+        stub = await startStubServer();
+        process.env.CASHFREE_APP_ID = "cf_test_app";
+        process.env.CASHFREE_SECRET_KEY = SECRET_KEY;
+        process.env.CASHFREE_BASE_URL = stub.baseUrl;
+    });
+
+    after(async () => {
+        await stub.close();
+    });
+
+    describe("createOrder", () => {
+        it("creates the order with credentials, major-unit amount and the buyer's phone", async () => {
+            stub.setHandler(() => ({
+                body: { order_id: "order_42", cf_order_id: 9001, payment_session_id: "session_abc", order_amount: 499.5, order_currency: "INR", order_status: "ACTIVE" }
+            }));
+
+            const result = await cashfreeProvider.createOrder(orderParams);
+
+            assert.equal(stub.requests.length, 1);
+            const [request] = stub.requests;
+            assert.equal(request!.method, "POST");
+            assert.equal(request!.path, "/orders");
+            assert.equal(request!.headers["x-client-id"], "cf_test_app");
+            assert.equal(request!.headers["x-client-secret"], SECRET_KEY);
+            assert.equal(request!.body.order_id, "order_42");
+            assert.equal(request!.body.order_amount, 499.5);
+            assert.equal(request!.body.customer_details.customer_phone, "9876543210");
+
+            assert.equal(result.gatewayOrderId, "order_42");
+            assert.equal(result.amount, 49950);
+            assert.equal(result.paymentSessionId, "session_abc");
+        });
+
+        it("refuses to create an order without a phone number", async () => {
+            stub.setHandler(() => ({ body: {} }));
+
+            await assert.rejects(cashfreeProvider.createOrder({ ...orderParams, userPhone: null }), ValidationError);
+            assert.equal(stub.requests.length, 0);
+        });
+
+        it("fails when Cashfree returns no payment session", async () => {
+            stub.setHandler(() => ({ body: { order_id: "order_42" } }));
+
+            await assert.rejects(cashfreeProvider.createOrder(orderParams), /payment session/);
+        });
+    });
+
+    describe("verifyPayment / getPaymentStatus", () => {
+        it("accepts a PAID order and returns the captured payment id", async () => {
+            stub.setHandler((req) => req.path.endsWith("/payments")
+                ? { body: [{ cf_payment_id: 111, payment_status: "FAILED" }, { cf_payment_id: 222, payment_status: "SUCCESS" }] }
+                : { body: { order_id: "order_42", order_status: "PAID" } });
+
+            const result = await cashfreeProvider.verifyPayment({ gatewayOrderId: "order_42", gatewayPaymentId: "", gatewaySignature: "" });
+
+            assert.deepEqual(result, { isValid: true, paymentId: "222", signature: "" });
+            assert.deepEqual(stub.requests.map(r => r.path), ["/orders/order_42", "/orders/order_42/payments"]);
+        });
+
+        it("reports an order with a pending attempt as PENDING, and verify asks to check again", async () => {
+            stub.setHandler((req) => req.path.endsWith("/payments")
+                ? { body: [{ cf_payment_id: 333, payment_status: "PENDING" }] }
+                : { body: { order_id: "order_42", order_status: "ACTIVE" } });
+
+            assert.deepEqual(await cashfreeProvider.getPaymentStatus("order_42"), { status: "PENDING", gatewayPaymentId: null });
+            await assert.rejects(
+                cashfreeProvider.verifyPayment({ gatewayOrderId: "order_42", gatewayPaymentId: "", gatewaySignature: "" }),
+                ValidationError
+            );
+        });
+
+        it("reports an expired order as UNPAID without listing payments", async () => {
+            stub.setHandler(() => ({ body: { order_id: "order_42", order_status: "EXPIRED" } }));
+
+            assert.deepEqual(await cashfreeProvider.getPaymentStatus("order_42"), { status: "UNPAID", gatewayPaymentId: null });
+            assert.equal(stub.requests.length, 1);
+        });
+    });
+
+    describe("parseWebhook", () => {
+        const rawBody = JSON.stringify({
+            type: "PAYMENT_SUCCESS_WEBHOOK",
+            data: {
+                order: { order_id: "order_42" },
+                payment: { cf_payment_id: 222, payment_status: "SUCCESS" }
+            }
+        });
+        const timestamp = String(Date.now());
+
+        it("accepts a correctly signed payment webhook", async () => {
+            const event = await cashfreeProvider.parseWebhook({
+                rawBody,
+                headers: { "x-webhook-signature": signWebhook(rawBody, timestamp), "x-webhook-timestamp": timestamp }
+            });
+
+            assert.equal(event.isValid, true);
+            assert.equal(event.type, "PAYMENT_SUCCESS");
+            assert.equal(event.gatewayOrderId, "order_42");
+            assert.equal(event.gatewayPaymentId, "222");
+        });
+
+        it("rejects a tampered body", async () => {
+            const tampered = rawBody.replace("order_42", "order_43");
+            const event = await cashfreeProvider.parseWebhook({
+                rawBody: tampered,
+                headers: { "x-webhook-signature": signWebhook(rawBody, timestamp), "x-webhook-timestamp": timestamp }
+            });
+
+            assert.equal(event.isValid, false);
+        });
+
+        it("rejects a replayed signature with another timestamp", async () => {
+            const event = await cashfreeProvider.parseWebhook({
+                rawBody,
+                headers: { "x-webhook-signature": signWebhook(rawBody, timestamp), "x-webhook-timestamp": String(Number(timestamp) + 1) }
+            });
+
+            assert.equal(event.isValid, false);
+        });
+
+        it("rejects a correctly signed webhook replayed after the time window", async () => {
+            const staleTimestamp = String(Date.now() - 10 * 60 * 1000);
+            const event = await cashfreeProvider.parseWebhook({
+                rawBody,
+                headers: { "x-webhook-signature": signWebhook(rawBody, staleTimestamp), "x-webhook-timestamp": staleTimestamp }
+            });
+
+            assert.equal(event.isValid, false);
+        });
+    });
+
+    describe("refundPayment", () => {
+        it("refunds against the order with a unique refund id", async () => {
+            stub.setHandler(() => ({ body: { refund_id: "refund_42_1", cf_refund_id: 777, refund_amount: 100, refund_status: "PENDING" } }));
+
+            const result = await cashfreeProvider.refundPayment({
+                gatewayPaymentId: "222",
+                gatewayOrderId: "order_42",
+                amount: 100,
+                orderId: 42,
+                reason: "Requested by student"
+            });
+
+            const [request] = stub.requests;
+            assert.equal(request!.path, "/orders/order_42/refunds");
+            assert.equal(request!.body.refund_amount, 100);
+            assert.match(request!.body.refund_id, /^refund_42_\d+$/);
+            assert.deepEqual(result, { gatewayRefundId: "777", status: "PENDING" });
+        });
+
+        it("surfaces a refund Cashfree rejects", async () => {
+            stub.setHandler(() => ({ status: 400, body: { message: "refund amount exceeds", code: "refund_amount_invalid" } }));
+
+            await assert.rejects(
+                cashfreeProvider.refundPayment({ gatewayPaymentId: "222", gatewayOrderId: "order_42", amount: 1000, orderId: 42, reason: null }),
+                /refund amount exceeds/
+            );
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Local HTTP stub standing in for a payment gateway / identity provider
+ * Every request is recorded; the handler decides the JSON response.
+ */
+
+export interface StubRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    rawBody: string;
+    body: any;  // parsed JSON, or form fields for urlencoded bodies
+}
+
+export interface StubResponse {
+    status?: number;
+    body: unknown;
+}
+
+export type StubHandler = (req: StubRequest) => StubResponse;
+
+export interface StubServer {
+    baseUrl: string;
+    requests: StubRequest[];
+    setHandler(handler: StubHandler): void;
+    close(): Promise<void>;
+}
+
+const parseBody = (rawBody: string, contentType: string | undefined) => {
+    if (!rawBody) return null;
+    if (contentType?.includes("application/x-www-form-urlencoded")) {
+        return Object.fromEntries(new URLSearchParams(rawBody));
+    }
+    return JSON.parse(rawBody);
+};
+
+export const startStubServer = async (handler: StubHandler = () => ({ status: 404, body: {} })): Promise<StubServer> => {
+    let currentHandler = handler;
+    const requests: StubRequest[] = [];
+
+    const server = http.createServer((req, res) => {
+        let rawBody = "";
+        req.on("data", (chunk) => { rawBody += chunk; });
+        req.on("end", () => {
+            const request: StubRequest = {
+                method: req.method || "GET",
+                path: req.url || "/",
+                headers: req.headers,
+                rawBody,
+                body: parseBody(rawBody, req.headers["content-type"])
+            };
+            requests.push(request);
+
+            const { status = 200, body } = currentHandler(request);
+            res.writeHead(status, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(body));
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        setHandler(next) {
+            currentHandler = next;
+            requests.length = 0;
+        },
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+    };
+};
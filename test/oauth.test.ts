@@ -0,0 +1,233 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { logger } from "../src/config/logger.config";
+import { AuthError } from "../src/utils/api_error.utils";
+import type * as OAuthService from "../src/services/oauth/oauth.service";
+import { StubServer, startStubServer } from "./helpers/stub-server";
+
+const CLIENT_ID = "google_test_client";
+const ISSUER = "https://idp.test";
+
+// ============================================
+// IN-MEMORY REDIS + PRISMA
+// ============================================
+
+// Just what the OAuth service uses; an expired key is simply gone
+const redisStore = new Map<string, string>();
+const fakeRedis = {
+    set: async (key: string, value: string) => { redisStore.set(key, value); return "OK"; },
+    getdel: async (key: string) => {
+        const value = redisStore.get(key) ?? null;
+        redisStore.delete(key);
+        return value;
+    }
+};
+
+interface FakeUser { id: number; email: string; firstName: string; lastName: string; password: string; isActive: boolean }
+interface FakeIdentity { id: number; provider: string; providerUserId: string; email: string; userId: number; lastLoginAt?: Date }
+
+const users: FakeUser[] = [];
+const identities: FakeIdentity[] = [];
+
+const fakePrisma = {
+    user: {
+        findUnique: async ({ where }: any) => users.find(u => u.email === where.email) ?? null,
+        update: async ({ where, data }: any) => Object.assign(users.find(u => u.id === where.id)!, data),
+        create: async ({ data }: any) => {
+            const { oauthIdentities, ...fields } = data;
+            const user = { id: users.length + 1, ...fields };
+            users.push(user);
+            identities.push({ id: identities.length + 1, ...oauthIdentities.create, userId: user.id });
+            return user;
+        }
+    },
+    oAuthIdentity: {
+        findUnique: async ({ where }: any) => {
+            const { provider, providerUserId } = where.provider_providerUserId;
+            const identity = identities.find(i => i.provider === provider && i.providerUserId === providerUserId);
+            return identity ? { ...identity, user: users.find(u => u.id === identity.userId) } : null;
+        },
+        update: async ({ where, data }: any) => Object.assign(identities.find(i => i.id === where.id)!, data),
+        create: async ({ data }: any) => {
+            const identity = { id: identities.length + 1, ...data };
+            identities.push(identity);
+            return identity;
+        }
+    }
+};
+
+const installModule = (path: string, exports: object) => {
+    const filename = require.resolve(path);
+    require.cache[filename] = { id: filename, filename, loaded: true, exports } as NodeJS.Module;
+};
+
+// ============================================
+// MOCK IDENTITY PROVIDER
+// ============================================
+
+// Only the claims are checked (the token comes straight from the token endpoint), so any key signs it
+const idToken = (claims: Record<string, unknown>) => jwt.sign(claims, "idp-test-key", { noTimestamp: true });
+
+const validClaims = (nonce: string, overrides: Record<string, unknown> = {}) => ({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    exp: Math.floor(Date.now() / 1000) + 300,
+    nonce,
+    sub: "google-user-1",
+    email: "Student@Example.com",
+    email_verified: true,
+    given_name: "Test",
+    family_name: "Student",
+    ...overrides
+});
+
+describe("OAuth sign-in (mock IdP)", () => {
+    let stub: StubServer;
+    let oauth: typeof OAuthService;
+
+    // Step 1 as the browser would do it - the nonce travels in the authorization link
+    const startSignIn = async () => {
+        const { state, authorizationUrl } = await oauth.createOAuthAuthorization("google");
+        // Non-null: the provider always puts the nonce in the link
+        const nonce = new URL(authorizationUrl).searchParams.get("nonce")!;
+        return { state, nonce, authorizationUrl };
+    };
+
+    const issueToken = (claims: Record<string, unknown>) => {
+        stub.setHandler(() => ({ body: { id_token: idToken(claims) } }));
+    };
+
+    before(async () => {
+        logger.silent = true;
+        stub = await startStubServer();
+        process.env.GOOGLE_CLIENT_ID = CLIENT_ID;
+        process.env.GOOGLE_CLIENT_SECRET = "google_test_secret";
+        process.env.GOOGLE_REDIRECT_URI = "http://localhost/oauth/google/callback";
+        process.env.GOOGLE_TOKEN_URL = `${stub.baseUrl}/token`;
+        process.env.GOOGLE_ISSUER = ISSUER;
+
+        installModule("../src/config/redis.config", { redis: fakeRedis });
+        installModule("../src/prisma", { prisma: fakePrisma });
+        oauth = require("../src/services/oauth/oauth.service");
+    });
+
+    after(async () => {
+        await stub.close();
+    });
+
+    beforeEach(() => {
+        redisStore.clear();
+        users.length = 0;
+        identities.length = 0;
+    });
+
+    describe("state", () => {
+        it("completes a sign-in and sends the PKCE verifier behind the challenge", async () => {
+            const { state, nonce, authorizationUrl } = await startSignIn();
+            issueToken(validClaims(nonce));
+
+            const { user, isNewUser } = await oauth.completeOAuthAuthorization("google", "auth_code", state);
+
+            assert.equal(isNewUser, true);
+            assert.equal(user.email, "student@example.com");
+            assert.equal(user.isActive, true);
+
+            const [request] = stub.requests;
+            assert.equal(request!.body.code, "auth_code");
+            const challenge = crypto.createHash("sha256").update(request!.body.code_verifier).digest("base64url");
+            assert.equal(challenge, new URL(authorizationUrl).searchParams.get("code_challenge"));
+        });
+
+        it("cannot be redeemed twice", async () => {
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce));
+
+            await oauth.completeOAuthAuthorization("google", "auth_code", state);
+            await assert.rejects(oauth.completeOAuthAuthorization("google", "auth_code", state), AuthError);
+            assert.equal(stub.requests.length, 1);
+        });
+
+        it("is refused once expired, without asking the IdP", async () => {
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce));
+            redisStore.clear(); // TTL elapsed
+
+            await assert.rejects(oauth.completeOAuthAuthorization("google", "auth_code", state), /expired/);
+            assert.equal(stub.requests.length, 0);
+        });
+    });
+
+    describe("ID token", () => {
+        it("rejects a nonce from another sign-in", async () => {
+            const { state } = await startSignIn();
+            issueToken(validClaims("someone-elses-nonce"));
+
+            await assert.rejects(oauth.completeOAuthAuthorization("google", "auth_code", state), /invalid ID token/);
+            assert.equal(users.length, 0);
+        });
+
+        it("rejects a token issued to another client", async () => {
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce, { aud: "another_client" }));
+
+            await assert.rejects(oauth.completeOAuthAuthorization("google", "auth_code", state), /invalid ID token/);
+        });
+
+        it("rejects a token from another issuer", async () => {
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce, { iss: "https://evil.test" }));
+
+            await assert.rejects(oauth.completeOAuthAuthorization("google", "auth_code", state), /invalid ID token/);
+        });
+
+        it("rejects an unverified email", async () => {
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce, { email_verified: false }));
+
+            await assert.rejects(oauth.completeOAuthAuthorization("google", "auth_code", state), /not verified/);
+            assert.equal(users.length, 0);
+            assert.equal(identities.length, 0);
+        });
+    });
+
+    describe("account linking", () => {
+        it("links the identity to a verified account with the same email", async () => {
+            users.push({ id: 1, email: "student@example.com", firstName: "test", lastName: "student", password: "hash", isActive: true });
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce));
+
+            const { user, isNewUser } = await oauth.completeOAuthAuthorization("google", "auth_code", state);
+
+            assert.equal(isNewUser, false);
+            assert.equal(user.id, 1);
+            assert.equal(user.password, "hash");
+            assert.deepEqual(identities.map(i => i.userId), [1]);
+        });
+
+        it("refuses to link to an unverified account and leaves it untouched", async () => {
+            users.push({ id: 1, email: "student@example.com", firstName: "test", lastName: "student", password: "hash", isActive: false });
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce));
+
+            await assert.rejects(oauth.completeOAuthAuthorization("google", "auth_code", state), /waiting for email verification/);
+            assert.equal(users[0]!.isActive, false);
+            assert.equal(users[0]!.password, "hash");
+            assert.equal(identities.length, 0);
+        });
+
+        it("signs a linked identity in to its own user", async () => {
+            users.push({ id: 1, email: "old@example.com", firstName: "test", lastName: "student", password: "hash", isActive: true });
+            identities.push({ id: 1, provider: "GOOGLE", providerUserId: "google-user-1", email: "old@example.com", userId: 1 });
+            const { state, nonce } = await startSignIn();
+            issueToken(validClaims(nonce));
+
+            const { user, isNewUser } = await oauth.completeOAuthAuthorization("google", "auth_code", state);
+
+            assert.equal(isNewUser, false);
+            assert.equal(user.id, 1);
+            assert.equal(users.length, 1);
+        });
+    });
+});
@@ -0,0 +1,204 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { logger } from "../src/config/logger.config";
+import { ValidationError } from "../src/utils/api_error.utils";
+import { phonepeProvider } from "../src/services/payment/providers/phonepe.provider";
+import { CreateOrderParams } from "../src/services/payment/payment.types";
+import { StubRequest, StubServer, startStubServer } from "./helpers/stub-server";
+
+const MERCHANT_ID = "PGTESTMERCHANT";
+const SALT_KEY = "phonepe_test_salt";
+const SALT_INDEX = "1";
+
+const orderParams: CreateOrderParams = {
+    amount: 1499,
+    currency: "INR",
+    orderId: 42,
+    courseId: 7,
+    courseTitle: "TypeScript Deep Dive",
+    userEmail: "student@example.com",
+    userName: "Test Student",
+    userPhone: null
+};
+
+// X-VERIFY as PhonePe computes it: sha256(data + apiPath + saltKey) ### saltIndex
+const xVerify = (data: string, apiPath: string) =>
+    crypto.createHash("sha256").update(data + apiPath + SALT_KEY).digest("hex") + "###" + SALT_INDEX;
+
+const decodeRequest = (request: StubRequest) =>
+    JSON.parse(Buffer.from(request.body.request, "base64").toString("utf8"));
+
+// Callbacks are signed over the base64 response only
+const signedCallback = (payload: object) => {
+    const response = Buffer.from(JSON.stringify(payload)).toString("base64");
+    return {
+        rawBody: JSON.stringify({ response }),
+        checksum: crypto.createHash("sha256").update(response + SALT_KEY).digest("hex") + "###" + SALT_INDEX
+    };
+};
+
+describe("PhonePe provider (local mock)", () => {
+    let stub: StubServer;
+
+    before(async () => {
+        logger.silent = true;
+        stub = await startStubServer();
+        process.env.PHONEPE_MERCHANT_ID = MERCHANT_ID;
+        process.env.PHONEPE_SALT_KEY = SALT_KEY;
+        process.env.PHONEPE_SALT_INDEX = SALT_INDEX;
+        process.env.PHONEPE_BASE_URL = stub.baseUrl;
+    });
+
+    after(async () => {
+        await stub.close();
+    });
+
+    describe("createOrder", () => {
+        it("signs the base64 payload with X-VERIFY and returns the pay page", async () => {
+            stub.setHandler(() => ({
+                body: { success: true, code: "PAYMENT_INITIATED", data: { instrumentResponse: { redirectInfo: { url: "https://mercury.phonepe.test/pay/abc" } } } }
+            }));
+
+            const result = await phonepeProvider.createOrder(orderParams);
+
+            const [request] = stub.requests;
+            assert.equal(request!.path, "/pg/v1/pay");
+            assert.equal(request!.headers["x-verify"], xVerify(request!.body.request, "/pg/v1/pay"));
+
+            const payload = decodeRequest(request!);
+            assert.equal(payload.merchantId, MERCHANT_ID);
+            assert.equal(payload.merchantTransactionId, "order_42");
+            assert.equal(payload.amount, 149900);
+
+            assert.equal(result.gatewayOrderId, "order_42");
+            assert.equal(result.redirectUrl, "https://mercury.phonepe.test/pay/abc");
+        });
+
+        it("refuses non-INR payments without calling PhonePe", async () => {
+            stub.setHandler(() => ({ body: {} }));
+
+            await assert.rejects(phonepeProvider.createOrder({ ...orderParams, currency: "USD" }), ValidationError);
+            assert.equal(stub.requests.length, 0);
+        });
+    });
+
+    describe("getPaymentStatus / verifyPayment", () => {
+        const statusPath = `/pg/v1/status/${MERCHANT_ID}/order_42`;
+
+        it("signs the status request over the path only", async () => {
+            stub.setHandler(() => ({
+                body: { success: true, code: "PAYMENT_SUCCESS", data: { state: "COMPLETED", transactionId: "T2406011234" } }
+            }));
+
+            const result = await phonepeProvider.getPaymentStatus("order_42");
+
+            const [request] = stub.requests;
+            assert.equal(request!.method, "GET");
+            assert.equal(request!.path, statusPath);
+            assert.equal(request!.headers["x-verify"], xVerify("", statusPath));
+            assert.equal(request!.headers["x-merchant-id"], MERCHANT_ID);
+            assert.deepEqual(result, { status: "PAID", gatewayPaymentId: "T2406011234" });
+        });
+
+        it("keeps polling a pending transaction instead of failing it", async () => {
+            stub.setHandler(() => ({ body: { success: true, code: "PAYMENT_PENDING", data: { state: "PENDING" } } }));
+
+            assert.deepEqual(await phonepeProvider.getPaymentStatus("order_42"), { status: "PENDING", gatewayPaymentId: null });
+            await assert.rejects(
+                phonepeProvider.verifyPayment({ gatewayOrderId: "order_42", gatewayPaymentId: "", gatewaySignature: "" }),
+                ValidationError
+            );
+        });
+
+        it("treats a declined transaction (4xx) as UNPAID", async () => {
+            stub.setHandler(() => ({ status: 400, body: { success: false, code: "PAYMENT_ERROR", message: "Payment failed" } }));
+
+            assert.deepEqual(await phonepeProvider.getPaymentStatus("order_42"), { status: "UNPAID", gatewayPaymentId: null });
+            assert.equal(
+                (await phonepeProvider.verifyPayment({ gatewayOrderId: "order_42", gatewayPaymentId: "", gatewaySignature: "" })).isValid,
+                false
+            );
+        });
+
+        it("throws on an answer that says nothing about the payment", async () => {
+            stub.setHandler(() => ({ status: 400, body: { success: false, code: "BAD_REQUEST", message: "Checksum mismatch" } }));
+
+            await assert.rejects(phonepeProvider.getPaymentStatus("order_42"), /Checksum mismatch/);
+        });
+    });
+
+    describe("refundPayment", () => {
+        it("refunds the original transaction as a new signed transaction", async () => {
+            stub.setHandler(() => ({
+                body: { success: true, code: "PAYMENT_PENDING", data: { transactionId: "TR2406015678" } }
+            }));
+
+            const result = await phonepeProvider.refundPayment({
+                gatewayPaymentId: "T2406011234",
+                gatewayOrderId: "order_42",
+                amount: 500,
+                orderId: 42,
+                reason: null
+            });
+
+            const [request] = stub.requests;
+            assert.equal(request!.path, "/pg/v1/refund");
+            assert.equal(request!.headers["x-verify"], xVerify(request!.body.request, "/pg/v1/refund"));
+
+            const payload = decodeRequest(request!);
+            assert.equal(payload.originalTransactionId, "order_42");
+            assert.equal(payload.amount, 50000);
+            assert.match(payload.merchantTransactionId, /^refund_42_\d+$/);
+            assert.deepEqual(result, { gatewayRefundId: "TR2406015678", status: "PENDING" });
+        });
+
+        it("surfaces a refund PhonePe rejects", async () => {
+            stub.setHandler(() => ({ body: { success: false, code: "INTERNAL_SERVER_ERROR", message: "Refund not allowed" } }));
+
+            await assert.rejects(
+                phonepeProvider.refundPayment({ gatewayPaymentId: "T1", gatewayOrderId: "order_42", amount: 500, orderId: 42, reason: null }),
+                /Refund not allowed/
+            );
+        });
+    });
+
+    describe("parseWebhook", () => {
+        it("accepts a correctly signed payment callback", async () => {
+            const { rawBody, checksum } = signedCallback({
+                code: "PAYMENT_SUCCESS",
+                data: { merchantTransactionId: "order_42", transactionId: "T2406011234" }
+            });
+
+            const event = await phonepeProvider.parseWebhook({ rawBody, headers: { "x-verify": checksum } });
+
+            assert.equal(event.isValid, true);
+            assert.equal(event.type, "PAYMENT_SUCCESS");
+            assert.equal(event.gatewayOrderId, "order_42");
+            assert.equal(event.gatewayPaymentId, "T2406011234");
+        });
+
+        it("rejects a callback whose payload was changed", async () => {
+            const { checksum } = signedCallback({ code: "PAYMENT_ERROR", data: { merchantTransactionId: "order_42" } });
+            const { rawBody } = signedCallback({ code: "PAYMENT_SUCCESS", data: { merchantTransactionId: "order_42" } });
+
+            const event = await phonepeProvider.parseWebhook({ rawBody, headers: { "x-verify": checksum } });
+
+            assert.equal(event.isValid, false);
+        });
+
+        it("acknowledges refund callbacks without pointing at a checkout", async () => {
+            const { rawBody, checksum } = signedCallback({
+                code: "PAYMENT_SUCCESS",
+                data: { merchantTransactionId: "refund_42_1760000000000", transactionId: "TR2406015678" }
+            });
+
+            const event = await phonepeProvider.parseWebhook({ rawBody, headers: { "x-verify": checksum } });
+
+            assert.equal(event.isValid, true);
+            assert.equal(event.type, "IGNORED");
+            assert.equal(event.gatewayOrderId, null);
+            assert.equal(event.rawEvent, "REFUND_PAYMENT_SUCCESS");
+        });
+    });
+});